@@ -1,4 +1,5 @@
 import * as esbuild from 'esbuild'
+import { cpSync, existsSync } from 'node:fs'
 import { rimraf } from 'rimraf'
 import stylePlugin from 'esbuild-style-plugin'
 import autoprefixer from 'autoprefixer'
@@ -6,9 +7,33 @@ import tailwindcss from 'tailwindcss'
 
 const args = process.argv.slice(2)
 const isProd = args[0] === '--production'
+// Offline fixture files (see src/config/dataSource.ts): always in dev, opt-in for production builds
+const withFixtures = !isProd || args.includes('--fixtures')
+
+// Build-time settings read through import.meta.env (empty in an iife bundle unless defined here)
+const ENV_KEYS = [
+  'VITE_SUPABASE_URL',
+  'VITE_SUPABASE_ANON_KEY',
+  'VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY',
+  'VITE_DATA_SOURCE',
+  'VITE_FIXTURE_FILES_URL',
+  'VITE_STORAGE_ACCESS',
+  'VITE_SIGNED_URL_TTL',
+  'VITE_IDLE_TIMEOUT_MINUTES',
+  'VITE_NPI_LOOKUP',
+]
+const env = Object.fromEntries(ENV_KEYS.filter((key) => process.env[key]).map((key) => [key, process.env[key]]))
 
 await rimraf('dist')
 
+// Fixture data is fetched at runtime (src/lib/fixtureDataSource.ts), so it never ships inside the bundle
+for (const dir of ['fixtures/files', 'fixtures/data']) {
+  if (withFixtures && existsSync(dir)) cpSync(dir, `dist/${dir}`, { recursive: true })
+}
+
+// pdf.js worker for the in-app PDF viewer (src/lib/pdf.ts loads it from the app root)
+cpSync('node_modules/pdfjs-dist/build/pdf.worker.min.mjs', 'dist/pdf.worker.min.mjs')
+
 /**
  * @type {esbuild.BuildOptions}
  */
@@ -24,6 +49,9 @@ const esbuildOpts = {
   minify: isProd,
   treeShaking: true,
   jsx: 'automatic',
+  define: {
+    'import.meta.env': JSON.stringify(env),
+  },
   alias: {
     '@': './src',
   },
@@ -45,7 +73,8 @@ if (isProd) {
 } else {
   const ctx = await esbuild.context(esbuildOpts)
   await ctx.watch()
-  const { hosts, port } = await ctx.serve()
+  // servedir: also serve the copied fixture files next to the build output
+  const { hosts, port } = await ctx.serve({ servedir: 'dist' })
   console.log(`Running on:`)
   hosts.forEach((host) => {
     console.log(`http://${host}:${port}`)
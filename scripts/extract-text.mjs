@@ -0,0 +1,209 @@
+/**
+ * Document text extraction
+ * - Purpose: Pull the text out of library PDFs (per page) and DOCX files so members can search inside
+ *   documents (Resources → "Inside documents").
+ * - Runs locally against a directory laid out like the bucket, e.g. a download of "clinicalrxqfiles" or
+ *   fixtures/files. Paths relative to the directory become file_path values.
+ * - Writes one row per PDF page / DOCX file: { file_path, page, content } (page is null for DOCX).
+ *
+ * Usage:
+ *   node scripts/extract-text.mjs <dir> [--out <file.json>] [--upload]
+ *   node scripts/extract-text.mjs fixtures/files --out fixtures/data/storage_files_text.json
+ *
+ * --upload replaces each processed file's rows in public.storage_files_text (a file that no longer yields
+ * text has its old rows removed; env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY). The table, the access
+ * rule and the search function it feeds are below. Members only read the text of the global library
+ * and of the programs their subscription covers (same rules as src/services/entitlements.ts); the search
+ * function runs with the caller's rights, so the policy scopes it too.
+ *
+ *   create table public.storage_files_text (
+ *     id uuid primary key default gen_random_uuid(),
+ *     bucket_name text not null default 'clinicalrxqfiles',
+ *     file_path text not null,
+ *     page integer,
+ *     content text not null,
+ *     content_tsv tsvector generated always as (to_tsvector('english', content)) stored,
+ *     extracted_at timestamptz not null default now(),
+ *     unique nulls not distinct (bucket_name, file_path, page)
+ *   );
+ *   create index storage_files_text_tsv_idx on public.storage_files_text using gin (content_tsv);
+ *   alter table public.storage_files_text enable row level security;
+ *
+ *   -- Folder prefixes the signed-in member may read: the global library plus entitled programs
+ *   create function public.entitled_file_prefixes() returns text[]
+ *   language sql stable security definer set search_path = public as $$
+ *     with sub as (
+ *       select s.plan_name, coalesce(s.programs, '{}') as programs
+ *       from subscriptions s
+ *       where (s.user_id = auth.uid()
+ *              or s.organization_id in (select m.organization_id from organization_members m where m.user_id = auth.uid()))
+ *         and s.status = 'active' and s.end_date >= now()
+ *     ), slugs as (
+ *       select unnest(array['mtmthefuturetoday', 'timemymeds', 'testandtreat', 'hba1c', 'oralcontraceptives'])
+ *       where auth.jwt() -> 'app_metadata' ->> 'role' = 'admin'
+ *          or exists (select 1 from sub where lower(regexp_replace(sub.plan_name, '[^a-zA-Z0-9]', '', 'g'))
+ *                                             in ('premium', 'allaccess'))
+ *       union
+ *       select coalesce(alias.slug, lower(p))
+ *       from sub cross join unnest(sub.programs) p
+ *       left join (values ('mtm-future-today', 'mtmthefuturetoday'), ('mtm-the-future-today', 'mtmthefuturetoday'),
+ *                         ('time-my-meds', 'timemymeds'), ('test-treat', 'testandtreat'),
+ *                         ('test-and-treat', 'testandtreat'), ('a1c', 'hba1c'), ('hba1c-testing', 'hba1c'),
+ *                         ('oral-contraceptives', 'oralcontraceptives')) alias (id, slug) on alias.id = lower(p)
+ *     )
+ *     select array['patienthandouts/', 'clinicalguidelines/', 'medicalbilling/']
+ *            || coalesce((select array_agg(s || '/') from slugs t (s)), '{}');
+ *   $$;
+ *
+ *   create policy "members read entitled file text" on public.storage_files_text for select to authenticated
+ *     using (file_path ilike any (select p || '%' from unnest((select public.entitled_file_prefixes())) p));
+ *
+ *   -- Runs with the caller's rights (security invoker), so the policy above limits its results
+ *   create function public.search_file_text(q text, prefixes text[] default null, max_results int default 50)
+ *   returns table (file_path text, page int, snippet text, rank real)
+ *   language sql stable as $$
+ *     select t.file_path, t.page,
+ *            ts_headline('english', t.content, query,
+ *              'StartSel=⟦, StopSel=⟧, MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "'),
+ *            ts_rank(t.content_tsv, query)
+ *     from public.storage_files_text t, websearch_to_tsquery('english', q) query
+ *     where t.content_tsv @@ query
+ *       and (prefixes is null or t.file_path ilike any (select p || '%' from unnest(prefixes) p))
+ *     order by 4 desc, t.file_path, t.page
+ *     limit least(max_results, 200);
+ *   $$;
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import mammoth from 'mammoth';
+import { createClient } from '@supabase/supabase-js';
+
+const BUCKET = 'clinicalrxqfiles';
+/** Rows per insert request */
+const UPLOAD_BATCH = 200;
+/** File types text is extracted from */
+const EXTRACTABLE = new Set(['.pdf', '.docx']);
+
+/** Parse CLI arguments */
+function parseArgs(argv) {
+  const args = { dir: '', out: '', upload: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') args.out = argv[++i] ?? '';
+    else if (arg === '--upload') args.upload = true;
+    else if (!args.dir) args.dir = arg;
+  }
+  return args;
+}
+
+/** Every file under dir (relative paths with forward slashes) */
+async function walk(dir, base = dir) {
+  const files = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await walk(full, base)));
+    else files.push(path.relative(base, full).split(path.sep).join('/'));
+  }
+  return files.sort();
+}
+
+/** Collapse whitespace left over from layout */
+function clean(text) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Text of each PDF page (1-based) */
+async function extractPdf(file) {
+  const data = new Uint8Array(await fs.readFile(file));
+  const doc = await getDocument({ data, isEvalSupported: false, disableFontFace: true, verbosity: 0 }).promise;
+  const pages = [];
+  try {
+    for (let n = 1; n <= doc.numPages; n++) {
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      const text = content.items.map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join('');
+      pages.push({ page: n, content: clean(text) });
+      page.cleanup();
+    }
+  } finally {
+    await doc.destroy();
+  }
+  return pages;
+}
+
+/** Text of a DOCX file (no pages) */
+async function extractDocx(file) {
+  const { value } = await mammoth.extractRawText({ path: file });
+  return [{ page: null, content: clean(value) }];
+}
+
+/** Extract one file; unsupported types yield no rows */
+async function extract(file) {
+  const ext = path.extname(file).toLowerCase();
+  if (!EXTRACTABLE.has(ext)) return [];
+  return ext === '.pdf' ? extractPdf(file) : extractDocx(file);
+}
+
+/** Replace the stored rows of one file */
+async function upload(client, filePath, rows) {
+  const del = await client.from('storage_files_text').delete().eq('bucket_name', BUCKET).eq('file_path', filePath);
+  if (del.error) throw new Error(`${filePath}: ${del.error.message}`);
+  for (let i = 0; i < rows.length; i += UPLOAD_BATCH) {
+    const batch = rows.slice(i, i + UPLOAD_BATCH).map((r) => ({ ...r, bucket_name: BUCKET }));
+    const ins = await client.from('storage_files_text').insert(batch);
+    if (ins.error) throw new Error(`${filePath}: ${ins.error.message}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.dir) {
+    console.error('Usage: node scripts/extract-text.mjs <dir> [--out <file.json>] [--upload]');
+    process.exitCode = 1;
+    return;
+  }
+
+  let client = null;
+  if (args.upload) {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !key) throw new Error('--upload needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+    client = createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  const rows = [];
+  let failed = 0;
+  for (const rel of await walk(args.dir)) {
+    try {
+      const pages = (await extract(path.join(args.dir, rel))).filter((p) => p.content);
+      if (!pages.length) {
+        // No text (any more): drop rows left from an earlier extraction
+        if (client && EXTRACTABLE.has(path.extname(rel).toLowerCase())) await upload(client, rel, []);
+        continue;
+      }
+      const fileRows = pages.map((p) => ({ file_path: rel, page: p.page, content: p.content }));
+      rows.push(...fileRows);
+      if (client) await upload(client, rel, fileRows);
+      console.log(`${rel}: ${fileRows.length} ${fileRows.length === 1 ? 'row' : 'rows'}`);
+    } catch (err) {
+      failed++;
+      console.error(`${rel}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (args.out) {
+    await fs.writeFile(args.out, `${JSON.stringify(rows, null, 2)}\n`);
+    console.log(`Wrote ${rows.length} rows to ${args.out}`);
+  }
+  if (failed) {
+    console.error(`${failed} file(s) failed.`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -1,32 +1,97 @@
-import { BrowserRouter, Route, Routes } from 'react-router';
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router';
 import Home from './pages/Home';
 import LearnMore from './pages/LearnMore';
 import Login from './pages/Login';
 import Enroll from './pages/Enroll';
+import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import MagicLink from './pages/MagicLink';
+import AcceptInvite from './pages/AcceptInvite';
 import Dashboard from './pages/Dashboard';
 import Resources from './pages/Resources';
 import ProgramDetail from './pages/ProgramDetail';
 import MemberContent from './pages/ClinicalPrograms';
 import Account from './pages/Account';
 import Bookmarks from './pages/Bookmarks';
+import AdminOverview from './pages/AdminOverview';
+import AdminMembers from './pages/AdminMembers';
+import AdminContent from './pages/AdminContent';
+import FileOpen from './pages/FileOpen';
 import { useAuthStore } from './stores/authStore';
 import ErrorBoundary from './components/common/ErrorBoundary';
 import { Toaster } from 'sonner';
 import ScrollToTop from './components/common/ScrollToTop';
 import BackToTop from './components/common/BackToTop';
+import FileViewer from './components/viewer/FileViewer';
 import { AuthProvider } from './components/auth/AuthContext';
+import SessionLock from './components/auth/SessionLock';
+import TwoFactorRequired from './components/auth/TwoFactorRequired';
+
+/**
+ * Placeholder shown while the persisted Supabase session is being restored
+ */
+function SessionLoading() {
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+      <div className="text-center">
+        <div className="w-8 h-8 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-slate-600">Loading...</p>
+      </div>
+    </div>
+  );
+}
 
 /**
  * Protected route component for member-only pages
+ * - Waits for session restore so a page refresh doesn't bounce members to Login.
+ * - Sessions that still owe the 2FA challenge get Login (which shows the OTP step); members of a
+ *   pharmacy that mandates 2FA must set it up first.
+ * - Wrapped in SessionLock (idle timeout / switch user on shared workstations).
  */
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuthStore();
+  const { user, isAuthenticated, isLoading, mfa } = useAuthStore();
+
+  if (isLoading) {
+    return <SessionLoading />;
+  }
+
+  if (!isAuthenticated || mfa.challengePending) {
+    return <Login />;
+  }
 
-  if (!isAuthenticated) {
+  if (user?.teamRequiresMfa && !mfa.enrolled) {
+    return <TwoFactorRequired />;
+  }
+
+  return <SessionLock>{children}</SessionLock>;
+}
+
+/**
+ * Admin route component for the /admin area
+ * - Same session handling as ProtectedRoute; signed-in non-admins are sent to their dashboard.
+ * - Navigation guard only: admin data must also be protected by RLS.
+ */
+function AdminRoute({ children }: { children: React.ReactNode }) {
+  const { user, isAuthenticated, isLoading, mfa } = useAuthStore();
+
+  if (isLoading) {
+    return <SessionLoading />;
+  }
+
+  if (!isAuthenticated || mfa.challengePending) {
     return <Login />;
   }
 
-  return <>{children}</>;
+  if (user?.teamRequiresMfa && !mfa.enrolled) {
+    return <TwoFactorRequired />;
+  }
+
+  if (user?.role !== 'admin') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <SessionLock>{children}</SessionLock>;
 }
 
 /**
@@ -44,6 +109,11 @@ export default function App() {
             <Route path="/learnmore" element={<LearnMore />} />
             <Route path="/login" element={<Login />} />
             <Route path="/enroll" element={<Enroll />} />
+            <Route path="/register" element={<Register />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/magic-link" element={<MagicLink />} />
+            <Route path="/accept-invite" element={<AcceptInvite />} />
 
             {/* Protected Routes */}
             <Route
@@ -94,11 +164,48 @@ export default function App() {
                 </ProtectedRoute>
               }
             />
+
+            <Route
+              path="/file/*"
+              element={
+                <ProtectedRoute>
+                  <FileOpen />
+                </ProtectedRoute>
+              }
+            />
+
+            {/* Admin Routes */}
+            <Route
+              path="/admin"
+              element={
+                <AdminRoute>
+                  <AdminOverview />
+                </AdminRoute>
+              }
+            />
+            <Route
+              path="/admin/members"
+              element={
+                <AdminRoute>
+                  <AdminMembers />
+                </AdminRoute>
+              }
+            />
+            <Route
+              path="/admin/content"
+              element={
+                <AdminRoute>
+                  <AdminContent />
+                </AdminRoute>
+              }
+            />
           </Routes>
         </AuthProvider>
       </ErrorBoundary>
       {/* Global toaster for compact notifications across the app */}
       <Toaster position="top-center" richColors={false} closeButton={false} duration={1800} />
+      {/* In-app file viewer (opened from library lists) */}
+      <FileViewer />
       {/* Global back-to-top button */}
       <BackToTop />
     </BrowserRouter>
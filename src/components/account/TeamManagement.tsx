@@ -0,0 +1,290 @@
+/**
+ * TeamManagement
+ * - Purpose: Pharmacy team card on the Account page.
+ * - Owners invite pharmacists/technicians by email, change roles, revoke invitations and remove members.
+ * - Other members see the roster read-only.
+ * - Seat meter: members + pending invitations against Subscription.seats.
+ * - Owners can require two-factor authentication for the whole team (they must have it on themselves).
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Mail, Trash2, UserPlus, Users } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import ErrorState from '../common/ErrorState';
+import { useAuthStore } from '../../stores/authStore';
+import { teamService } from '../../services/team';
+import { mfaService } from '../../services/mfa';
+import type { OrgInvitation, OrgMember, OrgRole } from '../../types';
+
+/** Roles an owner can assign */
+type StaffRole = Exclude<OrgRole, 'owner'>;
+
+/** Display labels for roles */
+const ROLE_LABELS: Record<OrgRole, string> = {
+  owner: 'Owner',
+  pharmacist: 'Pharmacist',
+  technician: 'Technician',
+};
+
+export default function TeamManagement() {
+  const { user, mfa, refreshUser } = useAuthStore();
+  const organizationId = user?.organizationId;
+  const isOwner = user?.orgRole === 'owner';
+  const seatLimit = user?.subscription?.seats ?? 1;
+
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [invitations, setInvitations] = useState<OrgInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<StaffRole>('technician');
+  const [busy, setBusy] = useState(false);
+
+  /** Load roster and invitations */
+  const load = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const [m, i] = await Promise.all([
+        teamService.listMembers(organizationId),
+        isOwner ? teamService.listInvitations(organizationId) : Promise.resolve([] as OrgInvitation[]),
+      ]);
+      setMembers(m);
+      setInvitations(i);
+    } catch (e: unknown) {
+      setError(e);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, isOwner]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const seats = teamService.seatUsage(members, invitations, seatLimit);
+
+  /**
+   * Run an owner action, then reload the roster.
+   */
+  async function run(action: () => Promise<void>, success: string) {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await load();
+    } catch (e: unknown) {
+      toast.error(e instanceof Error ? e.message : 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Turn the team-wide 2FA requirement on or off */
+  async function handleRequireMfa(required: boolean) {
+    if (!organizationId) return;
+    if (required && !mfa.enrolled) {
+      toast.error('Turn on two-factor authentication for your own account first.');
+      return;
+    }
+    await run(async () => {
+      await mfaService.setTeamRequirement(organizationId, required);
+      await refreshUser();
+    }, required ? 'Two-factor authentication is now required for your team' : 'Two-factor authentication is now optional');
+  }
+
+  /** Send an invitation */
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    if (!organizationId) return;
+    const email = inviteEmail.trim();
+    if (members.some((m) => m.email.toLowerCase() === email.toLowerCase())) {
+      toast.error(`${email} is already on your team.`);
+      return;
+    }
+    await run(() => teamService.inviteMember(organizationId, email, inviteRole, seats), `Invitation sent to ${email}`);
+    setInviteEmail('');
+  }
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Pharmacy Team
+          </span>
+          {organizationId ? (
+            <Badge variant={seats.used >= seats.limit ? 'destructive' : 'secondary'}>
+              {seats.used} / {seats.limit} seats
+            </Badge>
+          ) : null}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!organizationId ? (
+          <p className="text-sm text-gray-600">
+            Your account isn’t linked to a pharmacy team yet. Contact support to set one up.
+          </p>
+        ) : loading ? (
+          <p className="text-sm text-gray-600">Loading team…</p>
+        ) : error ? (
+          <ErrorState error={error} onRetry={() => void load()} compact />
+        ) : (
+          <div className="space-y-6">
+            {/* Roster */}
+            <div className="divide-y rounded-lg border">
+              {members.map((m) => {
+                const self = m.userId === user?.id;
+                return (
+                  <div key={m.userId} className="flex items-center justify-between gap-3 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">
+                        {m.name}
+                        {self ? <span className="text-gray-500"> (you)</span> : null}
+                      </p>
+                      <p className="truncate text-sm text-gray-600">{m.email}</p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      {isOwner && m.role !== 'owner' ? (
+                        <>
+                          <select
+                            aria-label={`Role for ${m.email}`}
+                            className="h-8 rounded-md border bg-white px-2 text-sm"
+                            value={m.role}
+                            disabled={busy}
+                            onChange={(e) =>
+                              run(
+                                () => teamService.updateMemberRole(organizationId, m.userId, e.target.value as StaffRole),
+                                `${m.name} is now a ${ROLE_LABELS[e.target.value as StaffRole].toLowerCase()}`
+                              )
+                            }
+                          >
+                            <option value="pharmacist">Pharmacist</option>
+                            <option value="technician">Technician</option>
+                          </select>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="bg-transparent"
+                            disabled={busy}
+                            aria-label={`Remove ${m.email}`}
+                            onClick={() => run(() => teamService.removeMember(organizationId, m.userId), `${m.name} removed`)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Badge variant={m.role === 'owner' ? 'default' : 'secondary'}>{ROLE_LABELS[m.role]}</Badge>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Invitations (owner only) */}
+            {isOwner && invitations.length > 0 ? (
+              <div>
+                <h3 className="mb-2 font-semibold">Invitations</h3>
+                <div className="divide-y rounded-lg border">
+                  {invitations.map((inv) => (
+                    <div key={inv.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                      <div className="flex min-w-0 items-center gap-2">
+                        <Mail className="h-4 w-4 shrink-0 text-gray-500" />
+                        <div className="min-w-0">
+                          <p className="truncate text-sm font-medium">{inv.email}</p>
+                          <p className="text-xs text-gray-600">
+                            {ROLE_LABELS[inv.role]} •{' '}
+                            {inv.status === 'expired'
+                              ? 'Expired'
+                              : `Expires ${inv.expiresAt.toLocaleDateString()}`}
+                          </p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="bg-transparent"
+                        disabled={busy}
+                        onClick={() => run(() => teamService.revokeInvitation(inv.id), `Invitation to ${inv.email} revoked`)}
+                      >
+                        {inv.status === 'expired' ? 'Dismiss' : 'Revoke'}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+
+            {/* Team 2FA policy (owner only) */}
+            {isOwner ? (
+              <div className="flex items-center justify-between gap-4 rounded-lg border px-4 py-3">
+                <div>
+                  <label htmlFor="team-require-mfa" className="font-medium">
+                    Require two-factor authentication
+                  </label>
+                  <p className="text-sm text-gray-600">
+                    Every member must use an authenticator app to open protocols, billing documents and other program content.
+                  </p>
+                </div>
+                <Switch
+                  id="team-require-mfa"
+                  checked={Boolean(user?.teamRequiresMfa)}
+                  disabled={busy}
+                  onCheckedChange={handleRequireMfa}
+                />
+              </div>
+            ) : null}
+
+            {/* Invite form (owner only) */}
+            {isOwner ? (
+              <form className="flex flex-col gap-2 md:flex-row md:items-end" onSubmit={handleInvite}>
+                <div className="flex-1">
+                  <label htmlFor="invite-email" className="mb-2 block text-sm font-medium">
+                    Invite by email
+                  </label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    placeholder="tech@yourpharmacy.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="invite-role" className="mb-2 block text-sm font-medium">
+                    Role
+                  </label>
+                  <select
+                    id="invite-role"
+                    className="h-10 w-full rounded-md border bg-white px-2 text-sm md:w-40"
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as StaffRole)}
+                  >
+                    <option value="technician">Technician</option>
+                    <option value="pharmacist">Pharmacist</option>
+                  </select>
+                </div>
+                <Button type="submit" disabled={busy || seats.used >= seats.limit}>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Send invite
+                </Button>
+              </form>
+            ) : null}
+            {isOwner && seats.used >= seats.limit ? (
+              <p className="text-xs text-gray-600">All seats are in use. Remove a member or upgrade your plan for more.</p>
+            ) : null}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * TwoFactorSettings
+ * - Purpose: Account card to turn authenticator-app 2FA on or off and to replace recovery codes.
+ * - Turning 2FA off is blocked while the member's pharmacy requires it.
+ */
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { useAuthStore } from '../../stores/authStore';
+import { mfaService } from '../../services/mfa';
+import TwoFactorEnroll from '../auth/TwoFactorEnroll';
+import RecoveryCodesList from '../auth/RecoveryCodesList';
+
+export default function TwoFactorSettings() {
+  const { user, mfa, refreshMfa } = useAuthStore();
+  const required = Boolean(user?.teamRequiresMfa);
+
+  const [enrolling, setEnrolling] = useState(false);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  /** Issue a fresh set of recovery codes (old ones stop working) */
+  async function handleRegenerate() {
+    setBusy(true);
+    try {
+      setNewCodes(await mfaService.generateRecoveryCodes());
+      toast.success('New recovery codes issued');
+    } catch (e: unknown) {
+      toast.error(e instanceof Error ? e.message : 'Could not issue recovery codes.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Remove the authenticator */
+  async function handleDisable() {
+    setBusy(true);
+    try {
+      const factorId = await mfaService.getVerifiedFactorId();
+      if (factorId) await mfaService.unenroll(factorId);
+      await refreshMfa();
+      setNewCodes(null);
+      toast.success('Two-factor authentication turned off');
+    } catch (e: unknown) {
+      toast.error(e instanceof Error ? e.message : 'Could not turn off two-factor authentication.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </span>
+          <Badge variant={mfa.enrolled ? 'default' : 'secondary'}>{mfa.enrolled ? 'On' : 'Off'}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {required ? (
+          <p className="mb-4 text-sm text-gray-600">Your pharmacy requires two-factor authentication for all team members.</p>
+        ) : null}
+
+        {!mfa.enrolled ? (
+          enrolling ? (
+            <TwoFactorEnroll onComplete={() => setEnrolling(false)} onCancel={() => setEnrolling(false)} />
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Protect your account with a code from an authenticator app in addition to your password.
+              </p>
+              <Button onClick={() => setEnrolling(true)}>Enable two-factor</Button>
+            </div>
+          )
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              You’ll be asked for a code from your authenticator app each time you sign in.
+            </p>
+            {newCodes ? <RecoveryCodesList codes={newCodes} /> : null}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" className="bg-transparent" onClick={handleRegenerate} disabled={busy}>
+                New recovery codes
+              </Button>
+              <Button
+                variant="outline"
+                className="bg-transparent"
+                onClick={handleDisable}
+                disabled={busy || required}
+                title={required ? 'Required by your pharmacy' : undefined}
+              >
+                Turn off
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
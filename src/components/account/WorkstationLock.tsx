@@ -0,0 +1,137 @@
+/**
+ * WorkstationLock
+ * - Purpose: Account card for the shared-workstation lock.
+ * - Sets or removes a quick-unlock PIN for this device (the account password always works too)
+ *   and shows the idle timeout in effect.
+ */
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { KeyRound, Lock } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useAuthStore } from '../../stores/authStore';
+import { PIN_PATTERN, useLockStore } from '../../stores/lockStore';
+import { getIdleTimeoutMs } from '../../config/sessionLock';
+
+export default function WorkstationLock() {
+  const user = useAuthStore((s) => s.user);
+  const { hasPin, setPin, clearPin, lock } = useLockStore();
+
+  const userId = user?.id ?? '';
+  const [pinSet, setPinSet] = useState(() => hasPin(userId));
+  const [pin, setPinValue] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const idleMinutes = Math.round(getIdleTimeoutMs() / 60_000);
+
+  /** Save a new PIN for this device */
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (!PIN_PATTERN.test(pin)) {
+      setError('PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (pin !== confirm) {
+      setError('PINs do not match.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await setPin(userId, pin);
+      setPinSet(true);
+      setPinValue('');
+      setConfirm('');
+      toast.success('Unlock PIN saved on this device');
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Could not save the PIN.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  /** Remove the PIN (password-only unlock) */
+  function handleRemove() {
+    clearPin(userId);
+    setPinSet(false);
+    toast.success('Unlock PIN removed');
+  }
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Workstation Lock
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {idleMinutes > 0
+              ? `The member area locks after ${idleMinutes} ${idleMinutes === 1 ? 'minute' : 'minutes'} without activity.`
+              : 'The idle lock is turned off on this device.'}{' '}
+            Unlock with your password, or set a PIN for quicker unlocking on this device.
+          </p>
+
+          {pinSet ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <KeyRound className="h-4 w-4 text-blue-600" />
+                PIN set on this device
+              </span>
+              <Button variant="outline" size="sm" className="bg-transparent" onClick={handleRemove}>
+                Remove PIN
+              </Button>
+            </div>
+          ) : (
+            <form className="flex flex-col gap-2 md:flex-row md:items-end" onSubmit={handleSave}>
+              <div>
+                <label htmlFor="lock-pin" className="mb-2 block text-sm font-medium">
+                  New PIN
+                </label>
+                <Input
+                  id="lock-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  placeholder="4–8 digits"
+                  value={pin}
+                  onChange={(e) => setPinValue(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="lock-pin-confirm" className="mb-2 block text-sm font-medium">
+                  Confirm PIN
+                </label>
+                <Input
+                  id="lock-pin-confirm"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={confirm}
+                  onChange={(e) => setConfirm(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving…' : 'Set PIN'}
+              </Button>
+            </form>
+          )}
+          {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+          <Button variant="outline" size="sm" className="bg-transparent" onClick={() => user && lock(user.id)}>
+            <Lock className="mr-2 h-4 w-4" />
+            Lock screen now
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,9 +2,10 @@
  * AuthContext
  * - Purpose: Provide a simple auth context API compatible with the requested dashboard imports.
  * - Implementation: Bridges to the existing zustand store (useAuthStore) and adapts to expected shape.
+ * - The provider also restores the Supabase session once on mount (useAuthStore.initialize).
  */
 
-import React, { createContext, useContext, useMemo } from 'react';
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
 import { useAuthStore } from '../../stores/authStore';
 
 /**
@@ -37,10 +38,15 @@ const AuthContext = createContext<AuthContextValue>({ member: null });
  */
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const { user, isAuthenticated } = useAuthStore();
+  const initialize = useAuthStore((s) => s.initialize);
+
+  /** Restore the persisted session and subscribe to auth changes */
+  useEffect(() => {
+    void initialize();
+  }, [initialize]);
 
   /**
-   * Map existing User to MemberInfo fields used by the dashboard snippet.
-   * - Fix: Avoid mixing ?? and || without parentheses in pharmacyName computation.
+   * Map the session-backed User to MemberInfo fields used by the dashboard snippet.
    */
   const member = useMemo<MemberInfo | null>(() => {
     if (!isAuthenticated || !user) return null;
@@ -51,20 +57,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (s === 'cancelled' || s === 'inactive') subscriptionStatus = 'Expired';
     if (s === 'active') subscriptionStatus = 'Active';
 
-    // Build a composed name safely (handles undefined pieces)
-    const first = (user as any).firstName as string | undefined;
-    const last = (user as any).lastName as string | undefined;
-    const composedName = `${first ?? ''} ${last ?? ''}`.trim();
-    // Use user.name if present, otherwise composedName, otherwise "Member"
-    const pharmacyName = user.name ?? (composedName || 'Member');
+    // Prefer the pharmacy name, then the person's name, otherwise "Member"
+    const pharmacyName = user.pharmacyName || user.name || 'Member';
+    const lastLogin = user.lastSignInAt ?? user.createdAt;
 
     return {
       pharmacyName,
-      lastLoginISO: user.createdAt ? new Date(user.createdAt).toISOString() : undefined,
+      lastLoginISO: lastLogin ? new Date(lastLogin).toISOString() : undefined,
       subscriptionStatus,
       email: user.email,
-      firstName: (user as any).firstName,
-      lastName: (user as any).lastName,
+      firstName: user.firstName,
+      lastName: user.lastName,
     };
   }, [isAuthenticated, user]);
 
@@ -0,0 +1,44 @@
+/**
+ * OtpCodeField
+ * - Purpose: Six-digit authenticator code entry built on the shared InputOTP component.
+ */
+
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '../ui/input-otp';
+
+interface OtpCodeFieldProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  /** Called once all six digits are entered */
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+export default function OtpCodeField({ id, value, onChange, onComplete, disabled }: OtpCodeFieldProps) {
+  return (
+    <InputOTP
+      id={id}
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
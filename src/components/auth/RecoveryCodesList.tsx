@@ -0,0 +1,53 @@
+/**
+ * RecoveryCodesList
+ * - Purpose: Show freshly issued 2FA recovery codes with copy and download actions.
+ */
+
+import { toast } from 'sonner';
+import { Copy, Download } from 'lucide-react';
+import { Button } from '../ui/button';
+
+export default function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const text = codes.join('\n');
+
+  /** Copy all codes */
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Copy failed. Select the codes and copy them manually.');
+    }
+  }
+
+  /** Save the codes as a text file */
+  function handleDownload() {
+    const blob = new Blob([`ClinicalRxQ recovery codes\n\n${text}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'clinicalrxq-recovery-codes.txt';
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="grid grid-cols-2 gap-2 rounded-lg border bg-slate-50 p-4 font-mono text-sm">
+        {codes.map((c) => (
+          <li key={c}>{c}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="bg-transparent" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="bg-transparent" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+/**
+ * SessionLock
+ * - Purpose: Lock screen for the member area on shared pharmacy workstations.
+ * - Locks after the configured idle timeout (config/sessionLock) or on demand (lockStore.lock).
+ * - The page underneath stays mounted but hidden, so an unfinished clinical form survives an unlock.
+ * - Unlock with the device PIN (if set) or the account password; accounts with 2FA use an
+ *   authenticator code instead of the password (a fresh password sign-in would drop the session to AAL1).
+ * - Switch user signs another staff member in on the same route; the page is remounted for them so
+ *   nothing typed by the previous user carries over.
+ */
+
+import { useState } from 'react';
+import { Lock, LogOut, Users } from 'lucide-react';
+import { useAuthStore } from '../../stores/authStore';
+import { MAX_PIN_ATTEMPTS, useLockStore } from '../../stores/lockStore';
+import { useIdleTimeout } from '../../hooks/use-idle-timeout';
+import { getIdleTimeoutMs } from '../../config/sessionLock';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import OtpCodeField from './OtpCodeField';
+
+/** Lock screen panels */
+type Panel = 'unlock' | 'switch';
+
+/**
+ * Lock overlay with unlock and switch-user forms.
+ */
+function LockScreen() {
+  const { user, mfa, login, logout, reauthenticate, verifyMfa } = useAuthStore();
+  const { pinAttempts, hasPin, verifyPin, unlock } = useLockStore();
+
+  const userId = user?.id ?? '';
+  const pinAvailable = hasPin(userId) && pinAttempts < MAX_PIN_ATTEMPTS;
+
+  const [panel, setPanel] = useState<Panel>('unlock');
+  const [usePassword, setUsePassword] = useState(!pinAvailable);
+  const [secret, setSecret] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const byPin = pinAvailable && !usePassword;
+  const byOtp = !byPin && mfa.enrolled;
+
+  /** Switch between panels, clearing typed secrets */
+  function showPanel(next: Panel) {
+    setPanel(next);
+    setSecret('');
+    setPassword('');
+    setError(null);
+  }
+
+  /**
+   * Unlock for the current user with PIN or password.
+   */
+  async function handleUnlock(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (byPin) {
+        const ok = await verifyPin(userId, secret);
+        if (!ok) {
+          const left = MAX_PIN_ATTEMPTS - useLockStore.getState().pinAttempts;
+          if (left <= 0) {
+            setUsePassword(true);
+            setError(
+              mfa.enrolled
+                ? 'Too many incorrect PINs. Enter an authenticator code to unlock.'
+                : 'Too many incorrect PINs. Enter your password to unlock.'
+            );
+          } else {
+            setError(`Incorrect PIN. ${left} ${left === 1 ? 'attempt' : 'attempts'} left.`);
+          }
+        }
+      } else if (byOtp) {
+        const ok = await verifyMfa(secret);
+        if (ok) unlock();
+        else setError('That code is incorrect or has expired.');
+      } else {
+        const ok = await reauthenticate(secret);
+        if (ok) unlock();
+        else setError('Incorrect password.');
+      }
+    } catch {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setSecret('');
+      setSubmitting(false);
+    }
+  }
+
+  /**
+   * Sign in as another staff member; the route is kept.
+   */
+  async function handleSwitch(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const ok = await login(email.trim(), password);
+      if (ok) unlock();
+      else setError('Invalid email or password.');
+    } catch {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setPassword('');
+      setSubmitting(false);
+    }
+  }
+
+  /** End the session entirely */
+  async function handleSignOut() {
+    unlock();
+    await logout();
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="session-lock-title"
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900 px-4"
+    >
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle id="session-lock-title" className="flex items-center gap-2">
+            {panel === 'unlock' ? <Lock className="h-5 w-5 text-blue-600" /> : <Users className="h-5 w-5 text-blue-600" />}
+            {panel === 'unlock' ? 'Screen locked' : 'Switch user'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {panel === 'unlock' ? (
+            <form className="space-y-4" onSubmit={handleUnlock}>
+              <p className="text-sm text-slate-700">
+                Signed in as <span className="font-medium">{user?.name}</span>
+                {user?.email && user.email !== user.name ? <span className="text-slate-500"> ({user.email})</span> : null}
+              </p>
+              <div className="grid gap-2">
+                <label htmlFor="lock-secret" className="text-sm font-medium">
+                  {byPin ? 'PIN' : byOtp ? 'Authentication code' : 'Password'}
+                </label>
+                {byOtp ? (
+                  <OtpCodeField id="lock-secret" value={secret} onChange={setSecret} disabled={submitting} />
+                ) : (
+                  <Input
+                    id="lock-secret"
+                    type="password"
+                    inputMode={byPin ? 'numeric' : undefined}
+                    autoComplete={byPin ? 'off' : 'current-password'}
+                    value={secret}
+                    onChange={(e) => setSecret(e.target.value)}
+                    required
+                  />
+                )}
+              </div>
+
+              {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting ? 'Unlocking…' : 'Unlock'}
+              </Button>
+              {pinAvailable ? (
+                <button
+                  type="button"
+                  className="w-full text-center text-xs text-slate-600 hover:underline"
+                  onClick={() => {
+                    setUsePassword((v) => !v);
+                    setSecret('');
+                    setError(null);
+                  }}
+                >
+                  {byPin ? (mfa.enrolled ? 'Use authenticator code instead' : 'Use password instead') : 'Use PIN instead'}
+                </button>
+              ) : null}
+            </form>
+          ) : (
+            <form className="space-y-4" onSubmit={handleSwitch}>
+              <p className="text-sm text-slate-700">Sign in as another staff member. You’ll stay on this page.</p>
+              <div className="grid gap-2">
+                <label htmlFor="switch-email" className="text-sm font-medium">
+                  Email address
+                </label>
+                <Input
+                  id="switch-email"
+                  type="email"
+                  autoComplete="username"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <label htmlFor="switch-password" className="text-sm font-medium">
+                  Password
+                </label>
+                <Input
+                  id="switch-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting ? 'Signing in…' : 'Sign in'}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 flex items-center justify-between border-t pt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-transparent"
+              onClick={() => showPanel(panel === 'unlock' ? 'switch' : 'unlock')}
+            >
+              <Users className="mr-2 h-4 w-4" />
+              {panel === 'unlock' ? 'Switch user' : 'Back'}
+            </Button>
+            <Button variant="outline" size="sm" className="bg-transparent" onClick={handleSignOut}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * Session lock boundary for gated pages (used by ProtectedRoute/AdminRoute).
+ */
+export default function SessionLock({ children }: { children: React.ReactNode }) {
+  const user = useAuthStore((s) => s.user);
+  const { lockedUserId, lock } = useLockStore();
+  const [timeoutMs] = useState(getIdleTimeoutMs);
+
+  const locked = Boolean(user && lockedUserId === user.id);
+
+  useIdleTimeout(
+    timeoutMs,
+    () => {
+      if (user) lock(user.id);
+    },
+    Boolean(user) && !locked
+  );
+
+  return (
+    <>
+      {/* Keyed by user: unlocking keeps the page as it was, switching user starts it fresh */}
+      <div key={user?.id} aria-hidden={locked || undefined} className={locked ? 'invisible' : undefined}>
+        {children}
+      </div>
+      {locked ? <LockScreen /> : null}
+    </>
+  );
+}
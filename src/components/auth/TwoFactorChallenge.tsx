@@ -0,0 +1,142 @@
+/**
+ * TwoFactorChallenge
+ * - Purpose: Second login step for accounts with an authenticator app (AAL1 → AAL2).
+ * - Members without their phone can use a one-time recovery code instead; that resets 2FA.
+ * - When the session's two-factor status couldn't be read, only a retry (or signing out) is offered.
+ */
+
+import { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuthStore } from '../../stores/authStore';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import OtpCodeField from './OtpCodeField';
+
+interface TwoFactorChallengeProps {
+  /** Called once the session reaches AAL2 (or 2FA was reset with a recovery code) */
+  onVerified: () => void;
+}
+
+export default function TwoFactorChallenge({ onVerified }: TwoFactorChallengeProps) {
+  const { user, mfa, verifyMfa, recoverMfa, refreshMfa, logout } = useAuthStore();
+
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Verify the authenticator or recovery code.
+   */
+  async function submit(value: string) {
+    if (submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (useRecovery) {
+        await recoverMfa(value);
+        toast.success('Recovery code accepted. Set up two-factor authentication again from My Account.');
+        onVerified();
+      } else if (await verifyMfa(value)) {
+        onVerified();
+      } else {
+        setError('That code is incorrect or has expired.');
+        setCode('');
+      }
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  /**
+   * Read the two-factor status again; the guards let the session through once it's known.
+   */
+  async function retryStatus() {
+    setSubmitting(true);
+    try {
+      await refreshMfa();
+      if (!useAuthStore.getState().mfa.challengePending) onVerified();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (mfa.unavailable) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start gap-2 text-sm text-slate-700">
+          <ShieldCheck className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+          <p>We couldn’t check the two-factor settings for this account. Check your connection and try again.</p>
+        </div>
+        <Button type="button" onClick={() => void retryStatus()} disabled={submitting}>
+          {submitting ? 'Checking…' : 'Try again'}
+        </Button>
+        <button type="button" className="block text-xs text-slate-600 hover:underline" onClick={() => void logout()}>
+          Cancel and sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        void submit(code);
+      }}
+    >
+      <div className="flex items-start gap-2 text-sm text-slate-700">
+        <ShieldCheck className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+        <p>
+          {useRecovery
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+            : `Enter the 6-digit code from your authenticator app${user?.email ? ` for ${user.email}` : ''}.`}
+        </p>
+      </div>
+
+      <div className="grid gap-2">
+        <label htmlFor="mfa-code" className="text-sm font-medium">
+          {useRecovery ? 'Recovery code' : 'Authentication code'}
+        </label>
+        {useRecovery ? (
+          <Input
+            id="mfa-code"
+            autoComplete="off"
+            placeholder="XXXXX-XXXXX"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+          />
+        ) : (
+          <OtpCodeField id="mfa-code" value={code} onChange={setCode} onComplete={submit} disabled={submitting} />
+        )}
+      </div>
+
+      {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+      <div className="flex items-center justify-between">
+        <Button type="submit" disabled={submitting || (!useRecovery && code.length < 6)}>
+          {submitting ? 'Verifying…' : 'Verify'}
+        </Button>
+        <button
+          type="button"
+          className="text-xs text-blue-700 hover:underline"
+          onClick={() => {
+            setUseRecovery((v) => !v);
+            setCode('');
+            setError(null);
+          }}
+        >
+          {useRecovery ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+      </div>
+      <button type="button" className="text-xs text-slate-600 hover:underline" onClick={() => void logout()}>
+        Cancel and sign out
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * TwoFactorEnroll
+ * - Purpose: Authenticator app setup: scan the QR code (or type the secret), confirm a code,
+ *   then save the one-time recovery codes.
+ * - Used by the Account settings card and by the team-mandated setup screen.
+ */
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Copy, QrCode } from 'lucide-react';
+import { useAuthStore } from '../../stores/authStore';
+import { mfaService, type TotpEnrollment } from '../../services/mfa';
+import { Button } from '../ui/button';
+import OtpCodeField from './OtpCodeField';
+import RecoveryCodesList from './RecoveryCodesList';
+
+type Step = 'intro' | 'scan' | 'codes';
+
+interface TwoFactorEnrollProps {
+  /** Called after the recovery codes have been acknowledged (auth store mfa state is refreshed first) */
+  onComplete?: () => void;
+  /** Optional cancel action (hidden when 2FA is mandatory) */
+  onCancel?: () => void;
+}
+
+export default function TwoFactorEnroll({ onComplete, onCancel }: TwoFactorEnrollProps) {
+  const refreshMfa = useAuthStore((s) => s.refreshMfa);
+
+  const [step, setStep] = useState<Step>('intro');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Create the pending factor and show its QR code */
+  async function handleStart() {
+    setBusy(true);
+    setError(null);
+    try {
+      setEnrollment(await mfaService.enrollTotp());
+      setStep('scan');
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Could not start two-factor setup.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Confirm the first code, then issue recovery codes */
+  async function handleVerify(value: string) {
+    if (!enrollment || busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await mfaService.verifyCode(enrollment.factorId, value);
+      setRecoveryCodes(await mfaService.generateRecoveryCodes());
+      setStep('codes');
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'That code is incorrect or has expired.');
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Finish: publish the new 2FA state (route guards wait for this, so the codes stay on screen until now).
+   */
+  async function handleDone() {
+    await refreshMfa();
+    onComplete?.();
+  }
+
+  /** Copy the secret for manual entry */
+  async function copySecret() {
+    if (!enrollment) return;
+    try {
+      await navigator.clipboard.writeText(enrollment.secret);
+      toast.success('Secret copied');
+    } catch {
+      toast.error('Copy failed. Select the secret and copy it manually.');
+    }
+  }
+
+  if (step === 'intro') {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Use an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password, Authy…) to generate a
+          6-digit code each time you sign in.
+        </p>
+        {error ? <div className="text-xs text-red-600">{error}</div> : null}
+        <div className="flex gap-2">
+          <Button onClick={handleStart} disabled={busy}>
+            <QrCode className="mr-2 h-4 w-4" />
+            {busy ? 'Preparing…' : 'Set up authenticator app'}
+          </Button>
+          {onCancel ? (
+            <Button variant="outline" className="bg-transparent" onClick={onCancel}>
+              Cancel
+            </Button>
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'scan' && enrollment) {
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void handleVerify(code);
+        }}
+      >
+        <p className="text-sm text-gray-600">Scan this QR code with your authenticator app, then enter the code it shows.</p>
+        <div className="flex flex-col items-start gap-4 sm:flex-row sm:items-center">
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-md border bg-white p-2" />
+          <div className="min-w-0 space-y-1 text-sm">
+            <p className="text-gray-600">Can’t scan? Enter this key instead:</p>
+            <div className="flex items-center gap-2">
+              <code className="break-all rounded bg-slate-100 px-2 py-1 font-mono text-xs">{enrollment.secret}</code>
+              <Button type="button" variant="outline" size="sm" className="bg-transparent" onClick={copySecret} aria-label="Copy secret">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+        <div className="grid gap-2">
+          <label htmlFor="enroll-code" className="text-sm font-medium">
+            Authentication code
+          </label>
+          <OtpCodeField id="enroll-code" value={code} onChange={setCode} onComplete={handleVerify} disabled={busy} />
+        </div>
+        {error ? <div className="text-xs text-red-600">{error}</div> : null}
+        <div className="flex gap-2">
+          <Button type="submit" disabled={busy || code.length < 6}>
+            {busy ? 'Verifying…' : 'Turn on two-factor'}
+          </Button>
+          {onCancel ? (
+            <Button type="button" variant="outline" className="bg-transparent" onClick={onCancel}>
+              Cancel
+            </Button>
+          ) : null}
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Two-factor authentication is on. Save these recovery codes somewhere safe: each one signs you in once if you lose
+        your phone. They won’t be shown again.
+      </p>
+      <RecoveryCodesList codes={recoveryCodes} />
+      <Button onClick={handleDone}>
+        I’ve saved my recovery codes
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * TwoFactorRequired
+ * - Purpose: Full-page setup screen shown by the route guards when the member's pharmacy requires
+ *   2FA and the member hasn't enrolled yet. Finishing setup reveals the requested page.
+ */
+
+import { ShieldCheck } from 'lucide-react';
+import { useAuthStore } from '../../stores/authStore';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import TwoFactorEnroll from './TwoFactorEnroll';
+
+export default function TwoFactorRequired() {
+  const { user, logout } = useAuthStore();
+
+  return (
+    <div className="min-h-screen w-full bg-slate-50 flex items-start justify-center py-10 px-4">
+      <div className="w-full max-w-lg">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-blue-600" />
+              Set up two-factor authentication
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-slate-700">
+              {user?.pharmacyName || 'Your pharmacy'} requires two-factor authentication for everyone on the team.
+              Set it up to continue.
+            </p>
+            <TwoFactorEnroll />
+            <button type="button" className="text-xs text-slate-600 hover:underline" onClick={() => void logout()}>
+              Sign out
+            </button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
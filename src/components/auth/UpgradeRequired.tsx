@@ -0,0 +1,47 @@
+/**
+ * UpgradeRequired
+ * - Purpose: Shown in place of a clinical program the member's plan doesn't include.
+ * - Offers the plans page and a way back to the programs they do have.
+ */
+
+import { Link } from 'react-router';
+import { Lock } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card, CardContent } from '../ui/card';
+
+interface UpgradeRequiredProps {
+  /** Friendly program name */
+  programName: string;
+  /** Member's current plan, if any */
+  planName?: string;
+}
+
+export default function UpgradeRequired({ programName, planName }: UpgradeRequiredProps) {
+  return (
+    <Card className="mx-auto max-w-xl border border-slate-300 bg-white shadow-sm">
+      <CardContent className="flex flex-col items-center gap-4 px-6 py-10 text-center">
+        <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-gradient-to-br from-blue-600 via-cyan-500 to-teal-300">
+          <Lock className="h-6 w-6 text-white" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{programName} is not part of your plan</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            {planName
+              ? `Your ${planName} subscription doesn't include this program. Add it to your plan to unlock its training, protocols and forms.`
+              : 'An active subscription is required to open this program.'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <Link to="/enroll">
+            <Button>Upgrade plan</Button>
+          </Link>
+          <Link to="/member-content">
+            <Button variant="outline" className="bg-transparent">
+              Back to Programs
+            </Button>
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
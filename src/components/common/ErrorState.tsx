@@ -0,0 +1,105 @@
+/**
+ * ErrorState component
+ * - Purpose: Shared, member-facing failure message for data loads, with the next step that fits the kind
+ *   of failure (lib/errors):
+ *   - auth-expired: sign in again
+ *   - permission-denied: back to the dashboard
+ *   - not-found: go back
+ *   - network / rate-limited / anything else: retry (when onRetry is given)
+ * - Raw backend text is never shown; it stays on DataError.detail for the console.
+ */
+
+import type { ReactNode } from 'react';
+import { useNavigate } from 'react-router';
+import { AlertTriangle, Lock, SearchX, WifiOff } from 'lucide-react';
+import { Button } from '../ui/button';
+import { toDataError } from '../../lib/errors';
+import { useAuthStore } from '../../stores/authStore';
+
+/**
+ * Props for ErrorState
+ */
+interface ErrorStateProps {
+  /** What failed (any thrown value; classified with toDataError) */
+  error: unknown;
+  /** Re-run the failed load */
+  onRetry?: () => void;
+  /** Heading (defaults to a kind-specific one) */
+  title?: string;
+  /** Smaller inline variant for cards and table bodies */
+  compact?: boolean;
+}
+
+/** Default heading per kind */
+const TITLES = {
+  network: 'Connection problem',
+  'rate-limited': 'Please slow down',
+  'auth-expired': 'Session expired',
+  'permission-denied': 'No access',
+  'not-found': 'Not found',
+  unknown: 'Something went wrong',
+} as const;
+
+/**
+ * ErrorState
+ */
+export default function ErrorState({ error, onRetry, title, compact = false }: ErrorStateProps) {
+  const navigate = useNavigate();
+  const logout = useAuthStore((s) => s.logout);
+  const dataError = toDataError(error);
+  const { kind } = dataError;
+
+  const Icon =
+    kind === 'network' ? WifiOff : kind === 'permission-denied' ? Lock : kind === 'not-found' ? SearchX : AlertTriangle;
+
+  const signInAgain = async () => {
+    await logout();
+    navigate('/login');
+  };
+
+  let action: ReactNode = null;
+  if (kind === 'auth-expired') {
+    action = (
+      <Button size="sm" onClick={signInAgain}>
+        Sign in again
+      </Button>
+    );
+  } else if (kind === 'permission-denied') {
+    action = (
+      <Button size="sm" variant="outline" className="bg-transparent" onClick={() => navigate('/dashboard')}>
+        Back to dashboard
+      </Button>
+    );
+  } else if (kind === 'not-found') {
+    action = (
+      <Button size="sm" variant="outline" className="bg-transparent" onClick={() => navigate(-1)}>
+        Go back
+      </Button>
+    );
+  } else if (onRetry) {
+    action = (
+      <Button size="sm" variant="outline" className="bg-transparent" onClick={onRetry}>
+        Try again
+      </Button>
+    );
+  }
+
+  if (compact) {
+    return (
+      <div role="alert" className="flex flex-wrap items-center gap-3 p-4 text-sm">
+        <Icon className="h-4 w-4 shrink-0 text-red-600" />
+        <span className="text-slate-700">{dataError.message}</span>
+        {action}
+      </div>
+    );
+  }
+
+  return (
+    <div role="alert" className="flex flex-col items-center py-12 text-center">
+      <Icon className="mb-3 h-8 w-8 text-red-600" />
+      <div className="mb-2 text-lg font-medium text-slate-900">{title ?? TITLES[kind]}</div>
+      <div className="mb-6 max-w-md text-sm text-slate-600">{dataError.message}</div>
+      {action}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Highlight component
+ * - Purpose: Render text with matched character ranges (lib/searchIndex) wrapped in <mark>.
+ */
+
+import type { ReactNode } from 'react';
+import type { MatchRange } from '../../lib/searchIndex';
+
+interface HighlightProps {
+  text: string;
+  /** Sorted, non-overlapping ranges */
+  ranges?: MatchRange[];
+}
+
+export default function Highlight({ text, ranges }: HighlightProps) {
+  if (!ranges?.length) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={i} className="rounded-sm bg-yellow-100 px-0.5 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    at = end;
+  });
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
+}
@@ -0,0 +1,47 @@
+/**
+ * IncompleteListingNotice component
+ * - Purpose: Tell members a file list is partial because some storage folders couldn't be listed
+ *   (storageCatalog storage fallback), instead of showing a silently truncated library.
+ * - Renders nothing when every folder was listed.
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '../ui/button';
+import { getFolderLabel } from '../../services/storageCatalog';
+import type { StorageListFailure } from '../../services/supabaseStorage';
+
+/**
+ * Props for IncompleteListingNotice
+ */
+interface IncompleteListingNoticeProps {
+  /** Folders that failed to list */
+  failures: StorageListFailure[];
+  /** Re-run the listing */
+  onRetry?: () => void;
+}
+
+/**
+ * IncompleteListingNotice
+ */
+export default function IncompleteListingNotice({ failures, onRetry }: IncompleteListingNoticeProps) {
+  if (!failures.length) return null;
+  const folders = Array.from(new Set(failures.map((f) => getFolderLabel(f.prefix) ?? f.prefix)));
+
+  return (
+    <div
+      role="status"
+      className="mb-4 flex flex-wrap items-center gap-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900"
+    >
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      <span className="min-w-0 flex-1">
+        Some files may be missing: {folders.length === 1 ? 'a folder' : `${folders.length} folders`} couldn’t be
+        loaded ({folders.join(', ')}).
+      </span>
+      {onRetry ? (
+        <Button size="sm" variant="outline" className="bg-transparent" onClick={onRetry}>
+          Try again
+        </Button>
+      ) : null}
+    </div>
+  );
+}
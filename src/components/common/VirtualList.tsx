@@ -0,0 +1,104 @@
+/**
+ * VirtualList
+ * - Purpose: Render long, fixed-height row lists (thousands of library files) without putting every row in
+ *   the DOM. Only rows near the viewport are mounted; the container keeps the full height, so the page
+ *   scrollbar and scroll position behave as if the whole list were rendered.
+ * - Scrolls with the window (AppShell pages scroll the document, not an inner pane).
+ * - Short lists (below `threshold`) render in full, so small tabs keep normal document flow.
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type ReactNode } from 'react';
+
+interface VirtualListProps<T> {
+  items: readonly T[];
+  /** Height of every row in px (including any gap below it) */
+  rowHeight: number;
+  getKey: (item: T) => string;
+  renderRow: (item: T, index: number) => ReactNode;
+  /** Extra rows mounted above and below the viewport */
+  overscan?: number;
+  /** Lists with fewer rows render without virtualization */
+  threshold?: number;
+  className?: string;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+/**
+ * VirtualList component
+ */
+export default function VirtualList<T>({
+  items,
+  rowHeight,
+  getKey,
+  renderRow,
+  overscan = 8,
+  threshold = 60,
+  className = '',
+}: VirtualListProps<T>) {
+  const ref = useRef<HTMLDivElement>(null);
+  const virtual = items.length >= threshold;
+  const [range, setRange] = useState<Range>({ start: 0, end: Math.min(items.length, threshold) });
+
+  /** Rows intersecting the viewport (plus overscan) */
+  const measure = useCallback(() => {
+    const el = ref.current;
+    if (!el) return;
+    const top = el.getBoundingClientRect().top;
+    const start = Math.max(0, Math.floor(-top / rowHeight) - overscan);
+    const end = Math.min(items.length, Math.ceil((window.innerHeight - top) / rowHeight) + overscan);
+    setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end: Math.max(start, end) }));
+  }, [items.length, overscan, rowHeight]);
+
+  // Measure before paint when the list changes, so a filtered list never flashes blank
+  useLayoutEffect(() => {
+    if (virtual) measure();
+  }, [measure, virtual]);
+
+  useEffect(() => {
+    if (!virtual) return;
+    let frame = 0;
+    const schedule = () => {
+      if (frame) return;
+      frame = window.requestAnimationFrame(() => {
+        frame = 0;
+        measure();
+      });
+    };
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) window.cancelAnimationFrame(frame);
+    };
+  }, [measure, virtual]);
+
+  if (!virtual) {
+    return (
+      <div className={className}>
+        {items.map((item, index) => (
+          <div key={getKey(item)} style={{ height: rowHeight }}>
+            {renderRow(item, index)}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const visible = items.slice(range.start, range.end);
+  return (
+    <div ref={ref} className={`relative ${className}`} style={{ height: items.length * rowHeight }}>
+      <div className="absolute inset-x-0 top-0" style={{ transform: `translateY(${range.start * rowHeight}px)` }}>
+        {visible.map((item, i) => (
+          <div key={getKey(item)} style={{ height: rowHeight }}>
+            {renderRow(item, range.start + i)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * AdminLayout
+ * - Purpose: Page frame for the /admin area: AppShell + AdminSidebar + a breadcrumb/title header.
+ */
+
+import React from 'react';
+import AppShell from './AppShell';
+import AdminSidebar from './AdminSidebar';
+import Breadcrumbs, { type CrumbItem } from '../common/Breadcrumbs';
+
+interface AdminLayoutProps {
+  /** Page title */
+  title: string;
+  /** Optional subtitle under the title */
+  subtitle?: string;
+  /** Crumbs after the "Admin" root */
+  crumbs?: CrumbItem[];
+  /** Optional actions rendered on the right of the header */
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export default function AdminLayout({ title, subtitle, crumbs = [], actions, children }: AdminLayoutProps) {
+  const header = (
+    <div className="mx-auto flex w-full max-w-[1280px] items-end justify-between gap-4 px-4 py-4">
+      <div>
+        <Breadcrumbs items={[{ label: 'Admin', to: '/admin' }, ...crumbs]} className="mb-2" />
+        <div className="mb-1 text-2xl font-bold">{title}</div>
+        {subtitle ? <div className="text-sm text-gray-600">{subtitle}</div> : null}
+      </div>
+      {actions ? <div className="shrink-0">{actions}</div> : null}
+    </div>
+  );
+
+  return (
+    <AppShell sidebar={<AdminSidebar />} header={header}>
+      {children}
+    </AppShell>
+  );
+}
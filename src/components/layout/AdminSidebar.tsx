@@ -0,0 +1,88 @@
+/**
+ * AdminSidebar
+ * - Purpose: Left sidebar for the /admin area (fixed inside AppShell aside).
+ * - Mirrors MemberSidebar's compact styling; kept separate so admin tools never leak into member navigation.
+ */
+
+import { Link, useLocation } from 'react-router';
+import { ArrowLeft, FolderCog, LayoutDashboard, Lock, LogOut, Users } from 'lucide-react';
+import { useAuthStore } from '../../stores/authStore';
+import { useLockStore } from '../../stores/lockStore';
+
+/** Admin navigation entries */
+const ADMIN_ITEMS: Array<{
+  to: string;
+  label: string;
+  Icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
+  exact?: boolean;
+}> = [
+  { to: '/admin', label: 'Overview', Icon: LayoutDashboard, exact: true },
+  { to: '/admin/members', label: 'Members', Icon: Users },
+  { to: '/admin/content', label: 'Content', Icon: FolderCog },
+];
+
+/**
+ * AdminSidebar component (compact)
+ */
+export default function AdminSidebar() {
+  const location = useLocation();
+  const { user, logout } = useAuthStore();
+  const lock = useLockStore((s) => s.lock);
+
+  /** Shared classes (compact scale) */
+  const itemBase = 'flex w-full items-center gap-2 rounded-md px-2.5 py-1.5 text-[13px] transition-colors';
+  const itemIdle = 'text-slate-300 hover:bg-slate-800 hover:text-white';
+  const itemActive = 'bg-slate-800 text-white';
+
+  return (
+    <nav aria-label="Admin navigation" className="flex h-full flex-col p-2 text-slate-100 text-[13px]">
+      {/* Brand header */}
+      <div className="mb-2 flex items-center gap-2 px-1.5">
+        <div className="flex h-7 w-7 items-center justify-center rounded-full bg-gradient-to-br from-blue-600 to-cyan-500 text-[10px] font-bold text-white shadow-inner">
+          CR
+        </div>
+        <div className="min-w-0">
+          <div className="text-[13px] font-semibold leading-5">ClinicalRxQ Admin</div>
+          <div className="truncate text-[11px] text-slate-400">{user?.email ?? 'Administrator'}</div>
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-0.5 overflow-y-auto">
+        {ADMIN_ITEMS.map(({ to, label, Icon, exact }) => {
+          const active = exact ? location.pathname === to : location.pathname.startsWith(to);
+          return (
+            <Link key={to} to={to} className={[itemBase, active ? itemActive : itemIdle].join(' ')}>
+              <Icon className="h-3.5 w-3.5" />
+              <span>{label}</span>
+            </Link>
+          );
+        })}
+
+        <Link to="/dashboard" className={[itemBase, itemIdle, 'mt-3'].join(' ')}>
+          <ArrowLeft className="h-3.5 w-3.5" />
+          <span>Back to Member Area</span>
+        </Link>
+      </div>
+
+      {/* Bottom Lock / Sign out bar */}
+      <div className="space-y-1 border-t border-slate-800 pt-2">
+        <button
+          type="button"
+          onClick={() => user && lock(user.id)}
+          className="flex w-full items-center justify-center gap-2 rounded-md px-3 py-1.5 text-[12px] text-slate-300 hover:bg-slate-800 hover:text-white"
+        >
+          <Lock className="h-3.5 w-3.5" />
+          <span>Lock Screen</span>
+        </button>
+        <button
+          type="button"
+          onClick={logout}
+          className="flex w-full items-center justify-center gap-2 rounded-md bg-slate-800/60 px-3 py-1.5 text-[12px] text-slate-200 hover:bg-slate-800"
+        >
+          <LogOut className="h-3.5 w-3.5" />
+          <span>Sign Out</span>
+        </button>
+      </div>
+    </nav>
+  );
+}
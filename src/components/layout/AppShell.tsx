@@ -8,8 +8,6 @@
  */
 
 import React from 'react';
-import { createClient } from '@supabase/supabase-js';
-import { getSupabaseClient } from '../../config/supabaseConfig'; // Assuming you have a supabaseClient.ts
 
 interface AppShellProps {
   /** Left sidebar content (e.g., MemberSidebar) */
@@ -26,13 +24,6 @@ interface AppShellProps {
  */
 const SIDEBAR_WIDTH_PX = 300;
 
-// Supabase client initialization should be handled globally or in a dedicated service/context.
-// For demonstration purposes, if you need to access it here, ensure it's imported or passed down.
-// Example:
-// import { supabase } from '../../services/supabaseClient'; // Assuming you have a supabaseClient.ts
-// Or, if you want to initialize it here for some reason (less recommended for global use):
-// const supabase = createClient(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY);
-
 export default function AppShell({ sidebar, header, children }: AppShellProps) {
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900">
@@ -6,6 +6,7 @@
  * - Change: Default collapsed state for "Clinical Programs" and "Resource Library".
  * - UX: Groups highlight as active when the current route matches, even if collapsed.
  * - New: Auto-expand "Clinical Programs" when on a program page; auto-expand "Resource Library" when on /resources.
+ * - Programs outside the member's plan show a lock (the link opens the upgrade screen).
  */
 
 import { useState, useMemo, useEffect } from 'react';
@@ -25,15 +26,20 @@ import {
   FileText,
   FileSpreadsheet,
   BookText,
+  Lock,
+  ShieldCheck,
 } from 'lucide-react';
 import { useAuth } from '../auth/AuthContext';
 import { useAuthStore } from '../../stores/authStore';
+import { useLockStore } from '../../stores/lockStore';
+import { useEntitlements } from '../../hooks/use-entitlements';
+import type { ProgramSlug } from '../../services/storageCatalog';
 
 /**
  * Sidebar item descriptor
  */
 interface ProgramNavItem {
-  slug: string;
+  slug: ProgramSlug;
   /** Display label shown in the sidebar */
   label: string;
   /** Icon component */
@@ -57,7 +63,9 @@ const PROGRAM_ITEMS: ProgramNavItem[] = [
 export default function MemberSidebar() {
   const location = useLocation();
   const { member } = useAuth();
-  const { logout } = useAuthStore();
+  const { user, logout } = useAuthStore();
+  const lock = useLockStore((s) => s.lock);
+  const { canAccess } = useEntitlements();
 
   // Collapsible groups default to collapsed
   const [openPrograms, setOpenPrograms] = useState(false);
@@ -160,16 +168,19 @@ export default function MemberSidebar() {
             <div id="programs-group" className="mt-1 space-y-0.5 pl-2">
               {PROGRAM_ITEMS.map(({ slug, label, Icon }) => {
                 const active = activeProgramSlug === slug;
+                const locked = !canAccess(slug);
                 return (
                   <Link
                     key={slug}
                     to={`/program/${slug}`}
-                    className={[itemBase, active ? itemActive : itemIdle, 'justify-between'].join(' ')}
+                    className={[itemBase, active ? itemActive : itemIdle, 'justify-between', locked ? 'opacity-60' : ''].join(' ')}
+                    title={locked ? 'Not included in your plan' : undefined}
                   >
                     <span className="inline-flex items-center gap-2">
                       <Icon className="h-3.5 w-3.5" />
                       <span className="truncate">{label}</span>
                     </span>
+                    {locked ? <Lock className="h-3 w-3 text-slate-400" aria-label="Locked" /> : null}
                   </Link>
                 );
               })}
@@ -264,10 +275,26 @@ export default function MemberSidebar() {
           <Settings className="h-3.5 w-3.5" />
           <span>Account Settings</span>
         </Link>
+
+        {/* Admin area (admins only) */}
+        {user?.role === 'admin' ? (
+          <Link to="/admin" className={[itemBase, itemIdle, 'mt-0.5'].join(' ')}>
+            <ShieldCheck className="h-3.5 w-3.5" />
+            <span>Admin</span>
+          </Link>
+        ) : null}
       </div>
 
-      {/* Bottom Sign out bar */}
-      <div className="border-t border-slate-800 pt-2">
+      {/* Bottom Lock / Sign out bar */}
+      <div className="space-y-1 border-t border-slate-800 pt-2">
+        <button
+          type="button"
+          onClick={() => user && lock(user.id)}
+          className="flex w-full items-center justify-center gap-2 rounded-md px-3 py-1.5 text-[12px] text-slate-300 hover:bg-slate-800 hover:text-white"
+        >
+          <Lock className="h-3.5 w-3.5" />
+          <span>Lock Screen</span>
+        </button>
         <button
           type="button"
           onClick={logout}
@@ -0,0 +1,98 @@
+/**
+ * BulkDownloadBar
+ * - Purpose: Toolbar for multi-select file lists: "Select all" for the list, "Download selected" and
+ *   (optionally) "Download all" as one ZIP, plus progress while the archive is built.
+ * - Extra controls (e.g., SortSelect) go in `children`, at the right end.
+ */
+
+import { useEffect, useRef, type ReactNode } from 'react';
+import { FolderDown, PackageOpen } from 'lucide-react';
+import { Button } from '../ui/button';
+import ZipProgress from './ZipProgress';
+import type { FileSelection } from '../../hooks/use-file-selection';
+import type { ZipDownload } from '../../hooks/use-zip-download';
+import type { StorageFileItem } from '../../services/supabaseStorage';
+
+interface BulkDownloadBarProps {
+  /** Files in this list (Select all, Download all) */
+  files: StorageFileItem[];
+  /** Every selected file on the page, possibly from other lists too */
+  selectedFiles: StorageFileItem[];
+  selection: FileSelection;
+  zip: ZipDownload;
+  /** Archive name for "Download selected" */
+  selectedName: string;
+  /** Archive name for "Download all" (omit to hide the button) */
+  allName?: string;
+  /** Folder the archive's entries are relative to */
+  root?: string;
+  children?: ReactNode;
+}
+
+export default function BulkDownloadBar({
+  files,
+  selectedFiles,
+  selection,
+  zip,
+  selectedName,
+  allName,
+  root,
+  children,
+}: BulkDownloadBarProps) {
+  const checkbox = useRef<HTMLInputElement>(null);
+  const listed = files.filter((f) => selection.selected.has(f.path)).length;
+  const allListed = files.length > 0 && listed === files.length;
+
+  // Partly selected lists show a dash
+  useEffect(() => {
+    if (checkbox.current) checkbox.current.indeterminate = listed > 0 && !allListed;
+  }, [listed, allListed]);
+
+  // The selection is kept unless the archive was actually saved
+  const downloadSelected = async () => {
+    if (await zip.start(selectedFiles, { filename: selectedName, root })) selection.clear();
+  };
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="mr-auto flex items-center gap-2 text-xs text-slate-600">
+          <input
+            ref={checkbox}
+            type="checkbox"
+            className="h-4 w-4 rounded border-slate-300 text-blue-600"
+            checked={allListed}
+            disabled={!files.length}
+            onChange={(e) =>
+              selection.setMany(
+                files.map((f) => f.path),
+                e.target.checked
+              )
+            }
+          />
+          {listed ? `${listed} selected` : 'Select all'}
+        </label>
+        {children}
+        {selectedFiles.length ? (
+          <Button size="sm" variant="outline" className="bg-transparent" disabled={zip.running} onClick={() => void downloadSelected()}>
+            <PackageOpen className="mr-2 h-4 w-4" />
+            Download selected ({selectedFiles.length})
+          </Button>
+        ) : null}
+        {allName && files.length ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-transparent"
+            disabled={zip.running}
+            onClick={() => void zip.start(files, { filename: allName, root })}
+          >
+            <FolderDown className="mr-2 h-4 w-4" />
+            Download all ({files.length})
+          </Button>
+        ) : null}
+      </div>
+      {zip.progress ? <ZipProgress progress={zip.progress} onCancel={zip.cancel} /> : null}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * FileLink
+ * - Purpose: Link that opens a library file in a new tab (Download/Play buttons).
+ * - Public bucket: a plain link to the public URL.
+ * - Private bucket: the href is the in-app /file route (works for middle-click and copy link); a normal
+ *   click signs a short-lived URL on the spot (services/fileAccess) and opens it.
+ */
+
+import type { MouseEvent, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { toDataError } from '../../lib/errors';
+import { fileHref, openFile, usesSignedUrls, withPage } from '../../services/fileAccess';
+
+interface FileLinkProps {
+  /** Storage path of the file */
+  path: string;
+  /** Save instead of display (signed URLs only; public links open as the browser decides) */
+  download?: boolean;
+  /** PDF page to open at */
+  page?: number | null;
+  /** Called on every open (e.g., record activity) */
+  onOpen?: () => void;
+  className?: string;
+  children: ReactNode;
+}
+
+export default function FileLink({ path, download = false, page, onOpen, className, children }: FileLinkProps) {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onOpen?.();
+    if (!usesSignedUrls()) return;
+    e.preventDefault();
+    openFile(path, { download, page }).catch((err: unknown) => {
+      toast.error(toDataError(err, 'Could not open the file.').message);
+    });
+  };
+
+  let href = fileHref(path);
+  if (usesSignedUrls()) {
+    const params = new URLSearchParams();
+    if (download) params.set('download', '1');
+    if (page) params.set('page', String(page));
+    const query = params.toString();
+    if (query) href += `?${query}`;
+  } else {
+    href = withPage(href, page);
+  }
+  return (
+    <a href={href} target="_blank" rel="noreferrer" onClick={handleClick} className={className}>
+      {children}
+    </a>
+  );
+}
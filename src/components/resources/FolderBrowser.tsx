@@ -0,0 +1,259 @@
+/**
+ * FolderBrowser
+ * - Purpose: Browse library files by their storage folders (lib/folderTree) instead of one flat list.
+ * - Left: collapsible folder tree with file counts. Right: breadcrumbs, the current folder's sub-folders,
+ *   then its files (ProgramResourceRow, sorted and virtualized like the flat lists).
+ * - The current folder lives in the URL (?dir=Diabetes/Type 2, relative to rootPath), so a folder can be
+ *   bookmarked and Back steps out of it. Unknown folders fall back to the deepest existing parent.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router';
+import { ChevronDown, ChevronRight, Folder, FolderOpen } from 'lucide-react';
+import Breadcrumbs from '../common/Breadcrumbs';
+import ProgramResourceRow, { PROGRAM_ROW_HEIGHT } from './ProgramResourceRow';
+import SortSelect, { BEST_MATCH } from './SortSelect';
+import VirtualList from '../common/VirtualList';
+import { sortFiles, type FileSort } from '../../services/fileSort';
+import { buildFolderTree, folderTrail, subTree, type FolderNode } from '../../lib/folderTree';
+import type { StorageFileItem } from '../../services/supabaseStorage';
+
+/** URL parameter holding the current folder */
+export const FOLDER_PARAM = 'dir';
+
+interface FolderBrowserProps {
+  items: StorageFileItem[];
+  /** Folder to browse inside, e.g. "testandtreat" (default: the bucket root) */
+  rootPath?: string;
+  /** Label of the top breadcrumb / tree root */
+  rootLabel: string;
+  /** Display name for a folder path (full storage path); falls back to the folder name */
+  folderLabel?: (path: string) => string | undefined;
+  /** Shown when there are no files at all */
+  emptyHint?: string;
+  /** Order of the files in a folder (folders are always by name) */
+  sort?: FileSort;
+  /** Shows a sort picker when set */
+  onSortChange?: (next: FileSort) => void;
+}
+
+type Node = FolderNode<StorageFileItem>;
+
+/** Folder path relative to the browsed root */
+function relative(node: Node, root: Node): string {
+  return root.path ? node.path.slice(root.path.length + 1) : node.path;
+}
+
+interface TreeLevelProps {
+  nodes: Node[];
+  depth: number;
+  /** Lowercased paths of the open folders */
+  expanded: ReadonlySet<string>;
+  current: Node;
+  label: (node: Node) => string;
+  toggle: (node: Node) => void;
+  open: (node: Node) => void;
+}
+
+/**
+ * One tree level (module level, so expanding a folder doesn't remount the tree and lose focus)
+ */
+function TreeLevel({ nodes, depth, expanded, current, label, toggle, open }: TreeLevelProps) {
+  return (
+    <ul role={depth === 0 ? 'tree' : 'group'} className="space-y-0.5">
+      {nodes.map((node) => {
+        const isOpen = expanded.has(node.path.toLowerCase());
+        const isCurrent = node === current;
+        return (
+          <li
+            key={node.path}
+            role="treeitem"
+            aria-selected={isCurrent}
+            aria-expanded={node.folders.length ? isOpen : undefined}
+          >
+            <div
+              className={`flex items-center gap-1 rounded-md py-1 pr-2 text-sm ${
+                isCurrent ? 'bg-blue-50 font-medium text-blue-800' : 'text-slate-700 hover:bg-slate-50'
+              }`}
+              style={{ paddingLeft: depth * 12 + 4 }}
+            >
+              {node.folders.length ? (
+                <button
+                  type="button"
+                  onClick={() => toggle(node)}
+                  className="rounded p-0.5 text-slate-400 hover:text-slate-700"
+                  aria-label={isOpen ? `Collapse ${label(node)}` : `Expand ${label(node)}`}
+                >
+                  {isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                </button>
+              ) : (
+                <span className="w-[18px]" />
+              )}
+              <button
+                type="button"
+                onClick={() => open(node)}
+                className="flex min-w-0 flex-1 items-center gap-1.5 text-left"
+                aria-current={isCurrent ? 'location' : undefined}
+              >
+                {isCurrent ? (
+                  <FolderOpen className="h-4 w-4 shrink-0 text-blue-600" />
+                ) : (
+                  <Folder className="h-4 w-4 shrink-0 text-blue-600" />
+                )}
+                <span className="truncate">{label(node)}</span>
+              </button>
+              <span className="text-xs tabular-nums text-slate-500">{node.count}</span>
+            </div>
+            {node.folders.length && isOpen ? (
+              <TreeLevel
+                nodes={node.folders}
+                depth={depth + 1}
+                expanded={expanded}
+                current={current}
+                label={label}
+                toggle={toggle}
+                open={open}
+              />
+            ) : null}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * FolderBrowser component
+ */
+export default function FolderBrowser({
+  items,
+  rootPath = '',
+  rootLabel,
+  folderLabel,
+  emptyHint = 'No files yet.',
+  sort = 'name',
+  onSortChange,
+}: FolderBrowserProps) {
+  const [params, setParams] = useSearchParams();
+
+  const root = useMemo(
+    () =>
+      subTree(
+        buildFolderTree(items, (i) => i.path, (i) => i.title || i.filename),
+        rootPath
+      ),
+    [items, rootPath]
+  );
+
+  /** Folders from the root to the current one */
+  const trail = useMemo(() => {
+    const dir = params.get(FOLDER_PARAM) ?? '';
+    return folderTrail(root, dir);
+  }, [params, root]);
+  const current = trail[trail.length - 1];
+  const files = useMemo(() => sortFiles(current.files, sort), [current, sort]);
+
+  /** Tree folders opened by the member (the current folder's ancestors are always open) */
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  useEffect(() => {
+    setExpanded((prev) => {
+      const missing = trail.filter((f) => !prev.has(f.path.toLowerCase()));
+      if (!missing.length) return prev;
+      const next = new Set(prev);
+      missing.forEach((f) => next.add(f.path.toLowerCase()));
+      return next;
+    });
+  }, [trail]);
+
+  const label = (node: Node) => (node === root ? rootLabel : folderLabel?.(node.path) ?? node.name);
+
+  /** Link to a folder, keeping the page's other URL parameters */
+  const hrefFor = (node: Node) => {
+    const next = new URLSearchParams(params);
+    const dir = relative(node, root);
+    if (dir) next.set(FOLDER_PARAM, dir);
+    else next.delete(FOLDER_PARAM);
+    return `?${next.toString()}`;
+  };
+
+  const open = (node: Node) => setParams(new URLSearchParams(hrefFor(node).slice(1)));
+
+  const toggle = (node: Node) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      const key = node.path.toLowerCase();
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  if (root.count === 0) {
+    return (
+      <div className="rounded-md border border-dashed bg-white p-6 text-center text-sm text-slate-600">{emptyHint}</div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+      <nav aria-label="Folders" className="md:col-span-1">
+        <TreeLevel
+          nodes={[root]}
+          depth={0}
+          expanded={expanded}
+          current={current}
+          label={label}
+          toggle={toggle}
+          open={open}
+        />
+      </nav>
+
+      <div className="min-w-0 space-y-3 md:col-span-2">
+        <div className="flex items-center justify-between gap-2">
+          <Breadcrumbs
+            items={trail.map((node) => ({ label: label(node), to: hrefFor(node) }))}
+            className="min-w-0 flex-1"
+          />
+          {onSortChange && files.length > 1 ? (
+            <SortSelect value={sort} onChange={(next) => onSortChange(next === BEST_MATCH ? 'name' : next)} />
+          ) : null}
+        </div>
+
+        {current.folders.length ? (
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+            {current.folders.map((node) => (
+              <button
+                key={node.path}
+                type="button"
+                onClick={() => open(node)}
+                className="flex items-center gap-3 rounded-md border bg-white px-4 py-3 text-left shadow-sm transition-shadow hover:shadow"
+              >
+                <Folder className="h-5 w-5 shrink-0 text-blue-600" />
+                <span className="min-w-0 flex-1 truncate text-sm font-medium text-slate-900">{label(node)}</span>
+                <span className="text-xs text-slate-500">
+                  {node.count} {node.count === 1 ? 'file' : 'files'}
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : null}
+
+        {files.length ? (
+          <VirtualList
+            items={files}
+            rowHeight={PROGRAM_ROW_HEIGHT}
+            getKey={(item) => item.path}
+            renderRow={(item) => (
+              <div className="pb-3">
+                <ProgramResourceRow item={item} list={files} />
+              </div>
+            )}
+          />
+        ) : !current.folders.length ? (
+          <div className="rounded-md border border-dashed bg-white p-6 text-center text-sm text-slate-600">
+            This folder is empty.
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * NewFileBadge
+ * - Purpose: "New" marker for library files added or replaced while the page was open
+ *   (stores/catalogUpdatesStore). Renders nothing for other files.
+ */
+
+import { Sparkles } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { useIsFreshFile } from '../../stores/catalogUpdatesStore';
+
+export default function NewFileBadge({ path }: { path: string }) {
+  const fresh = useIsFreshFile(path);
+  if (!fresh) return null;
+  return (
+    <Badge className="shrink-0 border-transparent bg-amber-100 text-amber-800 hover:bg-amber-100">
+      <Sparkles className="mr-1 h-3 w-3" />
+      New
+    </Badge>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * ProgramBinderCard
+ * - Purpose: "Printable binder" block on a program's Overview: builds one PDF of the program's protocols and
+ *   forms (cover with the pharmacy name, contents with page numbers, section dividers) for inspections.
+ * - Shows progress while files are merged, and afterwards the files that had to be left out (videos,
+ *   spreadsheets, unreadable files) so they can be printed separately.
+ */
+
+import { BookCopy, Loader2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Progress } from '../ui/progress';
+import { useAuth } from '../auth/AuthContext';
+import { useProgramBinder } from '../../hooks/use-program-binder';
+import type { StorageFileItem } from '../../services/supabaseStorage';
+
+interface ProgramBinderCardProps {
+  programName: string;
+  protocols: StorageFileItem[];
+  forms: StorageFileItem[];
+}
+
+export default function ProgramBinderCard({ programName, protocols, forms }: ProgramBinderCardProps) {
+  const { member } = useAuth();
+  const { build, cancel, progress, skipped, running } = useProgramBinder();
+  const total = protocols.length + forms.length;
+  const fileName = progress?.current?.split('/').pop();
+
+  const start = () =>
+    void build(
+      { protocols, forms },
+      {
+        programName,
+        pharmacyName: member?.pharmacyName ?? 'Pharmacy',
+        filename: `${programName} - Binder.pdf`,
+      }
+    );
+
+  return (
+    <div className="rounded-md border bg-white p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold text-slate-900">Printable binder</h3>
+          <p className="mt-1 text-xs text-slate-600">
+            One PDF with a cover page, table of contents and section dividers, containing all {protocols.length}{' '}
+            protocols and {forms.length} forms. Videos and spreadsheets are listed but not included.
+          </p>
+        </div>
+        {running ? (
+          <Button size="sm" variant="outline" className="bg-transparent" onClick={cancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button size="sm" onClick={start} disabled={!total}>
+            <BookCopy className="mr-2 h-4 w-4" />
+            Build binder PDF
+          </Button>
+        )}
+      </div>
+
+      {progress ? (
+        <div className="mt-3" role="status" aria-live="polite">
+          <div className="mb-2 flex items-center gap-2 text-xs text-slate-600">
+            <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin" aria-hidden />
+            <span className="truncate">
+              {progress.done < progress.total
+                ? `Adding ${progress.done + 1} of ${progress.total}${fileName ? ` · ${fileName}` : ''}`
+                : 'Assembling the binder…'}
+            </span>
+          </div>
+          <Progress
+            value={progress.total ? (progress.done / progress.total) * 100 : 0}
+            aria-label="Binder progress"
+          />
+        </div>
+      ) : null}
+
+      {skipped?.length ? (
+        <div className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+          <div className="mb-1 font-medium">Not included in the binder ({skipped.length})</div>
+          <ul className="space-y-0.5">
+            {skipped.map(({ file, reason }) => (
+              <li key={file.path} className="truncate">
+                {file.title || file.filename} <span className="text-amber-700">· {reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,21 +1,34 @@
 /**
  * ProgramResourceRow
  * - Purpose: Single-column, dense row card for Program Detail sections.
- * - Contents: brand-colored file icon (left), file name, optional duration (videos), and one action button.
+ * - Contents: brand-colored file icon (left), file name, size and last update, optional duration (videos), and
+ *   one action button.
  *   - Video: "Play" only (no download).
- *   - Non-video: "Download" only.
+ *   - Non-video: "View" plus a download icon.
+ * - Play/View open the in-app viewer (components/viewer), stepping through `list` (the rows around it).
+ * - Opening a file is recorded in the member's recent activity.
+ * - Files added or replaced while the page is open are highlighted until opened.
+ * - Download goes through FileLink (signed on click when the bucket is private).
+ * - With `onSelectChange`, a checkbox ticks the row for bulk downloads (BulkDownloadBar).
  */
 
 import React from 'react';
 import { Button } from '../ui/button';
 import {
   Download,
+  Eye,
   File,
   FileSpreadsheet,
   FileText,
   Play,
 } from 'lucide-react';
 import type { StorageFileItem } from '../../services/supabaseStorage';
+import { Api } from '../../services/api';
+import { formatFileSize, formatShortDate } from '../../lib/format';
+import { useCatalogUpdatesStore, useIsFreshFile } from '../../stores/catalogUpdatesStore';
+import FileLink from './FileLink';
+import NewFileBadge from './NewFileBadge';
+import { openInViewer } from '../../stores/viewerStore';
 import {
   isDoc,
   isPdf,
@@ -23,6 +36,9 @@ import {
   isVideo,
 } from '../../services/supabaseStorage';
 
+/** Height of one row plus the gap below it, for virtualized lists (VirtualList) */
+export const PROGRAM_ROW_HEIGHT = 76;
+
 /**
  * Infer a duration label from the filename or title, if present.
  * Looks for patterns like [mm:ss] or (mm:ss); otherwise returns undefined.
@@ -43,24 +59,56 @@ function BrandFileIcon({ item }: { item: StorageFileItem }) {
   return <File className={cls} />;
 }
 
+interface ProgramResourceRowProps {
+  item: StorageFileItem;
+  /** Rows the viewer steps through */
+  list?: StorageFileItem[];
+  selected?: boolean;
+  /** Shows the selection checkbox */
+  onSelectChange?: (selected: boolean) => void;
+}
+
 /**
  * ProgramResourceRow component
  */
-export default function ProgramResourceRow({ item }: { item: StorageFileItem }) {
+export default function ProgramResourceRow({ item, list, selected = false, onSelectChange }: ProgramResourceRowProps) {
   const video = isVideo(item);
   const duration = video ? inferDurationLabel(item.title || item.filename) : undefined;
+  const fresh = useIsFreshFile(item.path);
+  const details = [item.filename, formatFileSize(item.size), formatShortDate(item.updatedAt)].filter(Boolean);
+
+  const opened = () => {
+    useCatalogUpdatesStore.getState().dismiss(item.path);
+    void Api.recordFileOpened(item.path);
+  };
 
   return (
-    <div className="rounded-md border bg-white px-4 py-3 shadow-sm hover:shadow transition-shadow">
+    <div
+      className={`rounded-md border px-4 py-3 shadow-sm hover:shadow transition-shadow ${
+        fresh ? 'border-amber-300 bg-amber-50' : 'bg-white'
+      }`}
+    >
       <div className="flex items-center justify-between gap-3">
         {/* Left: icon + filename */}
         <div className="flex min-w-0 items-center gap-3">
+          {onSelectChange ? (
+            <input
+              type="checkbox"
+              className="h-4 w-4 shrink-0 rounded border-slate-300 text-blue-600"
+              checked={selected}
+              onChange={(e) => onSelectChange(e.target.checked)}
+              aria-label={`Select ${item.filename}`}
+            />
+          ) : null}
           <BrandFileIcon item={item} />
           <div className="min-w-0">
-            <div className="truncate text-sm font-medium text-slate-900">
-              {item.title || item.filename}
+            <div className="flex items-center gap-2">
+              <div className="truncate text-sm font-medium text-slate-900">
+                {item.title || item.filename}
+              </div>
+              <NewFileBadge path={item.path} />
             </div>
-            <div className="text-[11px] text-slate-500">{item.filename}</div>
+            <div className="truncate text-[11px] text-slate-500">{details.join(' · ')}</div>
           </div>
         </div>
 
@@ -72,21 +120,17 @@ export default function ProgramResourceRow({ item }: { item: StorageFileItem })
             </span>
           ) : null}
 
-          {video ? (
-            <a href={item.url} target="_blank" rel="noreferrer">
-              <Button className="h-8 px-3">
-                <Play className="mr-2 h-4 w-4" />
-                Play
-              </Button>
-            </a>
-          ) : (
-            <a href={item.url} target="_blank" rel="noreferrer">
-              <Button className="h-8 px-3">
-                <Download className="mr-2 h-4 w-4" />
-                Download
+          {video ? null : (
+            <FileLink path={item.path} download onOpen={opened}>
+              <Button variant="outline" className="h-8 bg-transparent px-2" aria-label={`Download ${item.filename}`}>
+                <Download className="h-4 w-4" />
               </Button>
-            </a>
+            </FileLink>
           )}
+          <Button className="h-8 px-3" onClick={() => openInViewer(item, list)}>
+            {video ? <Play className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+            {video ? 'Play' : 'View'}
+          </Button>
         </div>
       </div>
     </div>
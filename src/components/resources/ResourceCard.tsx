@@ -1,21 +1,26 @@
 /**
  * ResourceCard
  * - Purpose: Minimal, high-clarity file card for resources.
- * - Shows ONLY: icon, filename (extension removed), bookmark toggle, Download button.
- * - If item is a video, shows a Play button as well.
+ * - Shows ONLY: icon, filename (extension removed), bookmark toggle, View (Play for videos) and Download buttons.
+ * - View/Play open the in-app viewer, stepping through `list` when given.
+ * - Download goes through FileLink (signed on click when the bucket is private).
  */
 
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
-import { Bookmark, BookmarkCheck, Download, File, FileSpreadsheet, FileText, Play } from 'lucide-react';
+import { Bookmark, BookmarkCheck, Download, Eye, File, FileSpreadsheet, FileText, Play } from 'lucide-react';
 import { useBookmarkStore } from '../../stores/bookmarkStore';
 import type { StorageFileItem } from '../../services/supabaseStorage';
 import { isDoc, isPdf, isSpreadsheet, isVideo } from '../../services/supabaseStorage';
+import FileLink from './FileLink';
+import { openInViewer } from '../../stores/viewerStore';
 import React from 'react';
 
 export interface ResourceCardProps {
   /** File to render */
   item: StorageFileItem;
+  /** Files the viewer steps through (defaults to this one) */
+  list?: StorageFileItem[];
 }
 
 /**
@@ -31,7 +36,7 @@ function FileIconFor(item: StorageFileItem) {
 /**
  * ResourceCard component
  */
-export default function ResourceCard({ item }: ResourceCardProps) {
+export default function ResourceCard({ item, list }: ResourceCardProps) {
   const isSaved = useBookmarkStore((s) => s.isBookmarked(item.path));
   const toggle = useBookmarkStore((s) => s.toggle);
 
@@ -52,20 +57,16 @@ export default function ResourceCard({ item }: ResourceCardProps) {
         </button>
       </CardHeader>
       <CardContent className="flex items-center justify-end gap-2">
-        {isVideo(item) ? (
-          <a href={item.url} target="_blank" rel="noreferrer">
-            <Button variant="outline" className="bg-white">
-              <Play className="mr-2 h-4 w-4" />
-              Play
-            </Button>
-          </a>
-        ) : null}
-        <a href={item.url} target="_blank" rel="noreferrer">
+        <Button variant="outline" className="bg-white" onClick={() => openInViewer(item, list)}>
+          {isVideo(item) ? <Play className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+          {isVideo(item) ? 'Play' : 'View'}
+        </Button>
+        <FileLink path={item.path} download>
           <Button>
             <Download className="mr-2 h-4 w-4" />
             Download
           </Button>
-        </a>
+        </FileLink>
       </CardContent>
     </Card>
   );
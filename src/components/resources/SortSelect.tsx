@@ -0,0 +1,40 @@
+/**
+ * SortSelect
+ * - Purpose: Compact sort picker for library file lists (orders from services/fileSort).
+ * - While searching, pages can offer "Best match" (relevance order) as the first option.
+ */
+
+import { ArrowUpDown } from 'lucide-react';
+import { FILE_SORT_LABELS, isFileSort, type FileSort } from '../../services/fileSort';
+
+/** Relevance order of search results */
+export const BEST_MATCH = 'relevance';
+
+interface SortSelectProps {
+  value: FileSort | typeof BEST_MATCH;
+  onChange: (next: FileSort | typeof BEST_MATCH) => void;
+  /** Offer "Best match" */
+  allowBestMatch?: boolean;
+}
+
+export default function SortSelect({ value, onChange, allowBestMatch = false }: SortSelectProps) {
+  return (
+    <label className="inline-flex items-center gap-2 text-xs text-slate-600">
+      <ArrowUpDown className="h-3.5 w-3.5" aria-hidden />
+      <span className="sr-only">Sort by</span>
+      <select
+        aria-label="Sort files"
+        className="h-8 rounded-md border bg-white px-2 text-sm text-slate-800"
+        value={value}
+        onChange={(e) => onChange(isFileSort(e.target.value) ? e.target.value : BEST_MATCH)}
+      >
+        {allowBestMatch ? <option value={BEST_MATCH}>Best match</option> : null}
+        {(Object.keys(FILE_SORT_LABELS) as FileSort[]).map((sort) => (
+          <option key={sort} value={sort}>
+            {FILE_SORT_LABELS[sort]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
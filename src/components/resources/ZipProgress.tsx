@@ -0,0 +1,41 @@
+/**
+ * ZipProgress
+ * - Purpose: Progress line for a running ZIP download (hooks/use-zip-download): files added, bytes received
+ *   (when sizes are known) and a Cancel button.
+ */
+
+import { Loader2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Progress } from '../ui/progress';
+import { formatFileSize } from '../../lib/format';
+import type { ZipProgress as Progression } from '../../services/zipDownload';
+
+interface ZipProgressProps {
+  progress: Progression;
+  onCancel: () => void;
+}
+
+export default function ZipProgress({ progress, onCancel }: ZipProgressProps) {
+  const { done, total, bytes, totalBytes, current } = progress;
+  const percent = totalBytes ? Math.min(100, (bytes / totalBytes) * 100) : total ? (done / total) * 100 : 0;
+  const fileName = current?.split('/').pop();
+
+  return (
+    <div className="rounded-md border bg-white px-4 py-3" role="status" aria-live="polite">
+      <div className="mb-2 flex items-center justify-between gap-3 text-xs text-slate-600">
+        <div className="flex min-w-0 items-center gap-2">
+          <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin" aria-hidden />
+          <span className="truncate">
+            Preparing ZIP: {done} of {total} files
+            {totalBytes ? ` · ${formatFileSize(bytes)} of ${formatFileSize(totalBytes)}` : ''}
+            {fileName ? ` · ${fileName}` : ''}
+          </span>
+        </div>
+        <Button size="sm" variant="outline" className="h-7 bg-transparent" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+      <Progress value={percent} aria-label="ZIP download progress" />
+    </div>
+  );
+}
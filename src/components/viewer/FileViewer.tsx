@@ -0,0 +1,204 @@
+/**
+ * FileViewer
+ * - Purpose: In-app drawer that shows library files over the current page, so members keep their place in
+ *   the hub: PDFs inline (PdfViewer), videos in an embedded player, other types as a download prompt.
+ * - Opened through stores/viewerStore (openInViewer); Next/Previous (buttons or ←/→) step through the list
+ *   the file was opened from.
+ * - URLs come from services/fileAccess (signed on demand for a private bucket). Each file shown is recorded
+ *   in recent activity and loses its "New" highlight.
+ * - Mounted once in App, outside SessionLock: it closes when the route changes, the session locks or the
+ *   signed-in user changes, so it never sits over the lock screen or shows one member's file to another.
+ */
+
+import { useEffect, useState } from 'react';
+import { useLocation } from 'react-router';
+import { ChevronLeft, ChevronRight, Download, ExternalLink } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetTitle } from '../ui/sheet';
+import { Button } from '../ui/button';
+import ErrorState from '../common/ErrorState';
+import FileLink from '../resources/FileLink';
+import PdfViewer from './PdfViewer';
+import { useViewerStore, type ViewerFile } from '../../stores/viewerStore';
+import { useCatalogUpdatesStore } from '../../stores/catalogUpdatesStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useLockStore } from '../../stores/lockStore';
+import { resolveFileUrl } from '../../services/fileAccess';
+import { Api } from '../../services/api';
+
+/** How a file is shown */
+type ViewerKind = 'pdf' | 'video' | 'other';
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.webm'];
+
+function viewerKind(file: ViewerFile): ViewerKind {
+  const mime = (file.mimeType || '').toLowerCase();
+  const lower = file.path.toLowerCase();
+  if (mime.startsWith('video/') || VIDEO_EXTENSIONS.some((ext) => lower.endsWith(ext))) return 'video';
+  if (mime === 'application/pdf' || lower.endsWith('.pdf')) return 'pdf';
+  return 'other';
+}
+
+/** True when a key press belongs to a form field or the video player */
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && !!target.closest('input, textarea, select, video, [contenteditable="true"]');
+}
+
+/**
+ * FileViewer component
+ */
+export default function FileViewer() {
+  const { files, index, close, next, prev } = useViewerStore();
+  const file = index >= 0 ? files[index] : undefined;
+  const location = useLocation();
+  const userId = useAuthStore((s) => s.user?.id ?? null);
+  const locked = useLockStore((s) => Boolean(userId && s.lockedUserId === userId));
+
+  /** Resolved URL, tagged with its file so a stale one is never shown for the next file */
+  const [resolved, setResolved] = useState<{ path: string; url: string } | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  /** Bumped by Retry to resolve again */
+  const [attempt, setAttempt] = useState(0);
+
+  // Leaving the page closes the viewer
+  useEffect(() => {
+    useViewerStore.getState().close();
+  }, [location.pathname]);
+
+  // So does locking the session, signing out or switching user
+  useEffect(() => {
+    if (locked) useViewerStore.getState().close();
+  }, [locked]);
+  useEffect(() => {
+    useViewerStore.getState().close();
+  }, [userId]);
+
+  // Resolve the file URL (signed when the bucket is private) and record the open
+  const path = locked ? undefined : file?.path;
+  useEffect(() => {
+    if (!path) return;
+    let active = true;
+    setError(null);
+    resolveFileUrl(path)
+      .then((url) => {
+        if (active) setResolved({ path, url });
+      })
+      .catch((e: unknown) => {
+        if (active) setError(e);
+      });
+    useCatalogUpdatesStore.getState().dismiss(path);
+    void Api.recordFileOpened(path);
+    return () => {
+      active = false;
+    };
+  }, [path, attempt]);
+
+  // ←/→ step through the list (never behind the lock screen)
+  useEffect(() => {
+    if (!file || locked) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isTypingTarget(e.target)) return;
+      if (e.key === 'ArrowRight') next();
+      else if (e.key === 'ArrowLeft') prev();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [file, locked, next, prev]);
+
+  const kind = file ? viewerKind(file) : 'other';
+  const url = resolved && resolved.path === path ? resolved.url : null;
+
+  return (
+    <Sheet open={!!file && !locked} onOpenChange={(open) => (open ? undefined : close())}>
+      <SheetContent side="right" className="flex w-full flex-col gap-0 p-0 sm:max-w-4xl">
+        {file ? (
+          <>
+            {/* Header: title, position in the list, actions */}
+            <div className="flex items-center gap-3 border-b px-4 py-3 pr-12">
+              <div className="min-w-0 flex-1">
+                <SheetTitle className="truncate text-base">{file.title}</SheetTitle>
+                <SheetDescription className="text-xs">
+                  {files.length > 1 ? `${index + 1} of ${files.length}` : 'Library file'}
+                </SheetDescription>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                {files.length > 1 ? (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="bg-transparent"
+                      onClick={prev}
+                      disabled={index <= 0}
+                      aria-label="Previous file"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="bg-transparent"
+                      onClick={next}
+                      disabled={index >= files.length - 1}
+                      aria-label="Next file"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : null}
+                <FileLink path={file.path} page={file.page}>
+                  <Button size="sm" variant="outline" className="bg-transparent" aria-label="Open in new tab">
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                </FileLink>
+                {kind !== 'video' ? (
+                  <FileLink path={file.path} download>
+                    <Button size="sm" aria-label="Download">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </FileLink>
+                ) : null}
+              </div>
+            </div>
+
+            {/* Body */}
+            <div className="min-h-0 flex-1">
+              {error ? (
+                <div className="p-6">
+                  <ErrorState
+                    error={error}
+                    onRetry={() => setAttempt((n) => n + 1)}
+                    title="Couldn’t open this file"
+                    compact
+                  />
+                </div>
+              ) : !url ? (
+                <div className="flex items-center justify-center py-12 text-sm text-slate-600">
+                  <div className="h-6 w-6 animate-spin rounded-full border-4 border-slate-300 border-t-slate-900"></div>
+                  <span className="ml-3">Opening…</span>
+                </div>
+              ) : kind === 'pdf' ? (
+                <PdfViewer key={file.path} url={url} initialPage={file.page} />
+              ) : kind === 'video' ? (
+                <div className="flex h-full items-center justify-center bg-black">
+                  {/* Library videos carry no caption tracks */}
+                  {/* eslint-disable-next-line jsx-a11y/media-has-caption */}
+                  <video key={file.path} src={url} controls autoPlay className="max-h-full w-full" />
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center gap-3 px-6 py-16 text-center">
+                  <div className="text-sm text-slate-700">This file type can’t be previewed here.</div>
+                  <FileLink path={file.path} download>
+                    <Button size="sm">
+                      <Download className="mr-2 h-4 w-4" />
+                      Download
+                    </Button>
+                  </FileLink>
+                </div>
+              )}
+            </div>
+          </>
+        ) : null}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,234 @@
+/**
+ * PdfViewer
+ * - Purpose: Inline PDF reader for the file viewer: one page at a time on a canvas (lib/pdf), with page
+ *   navigation and zoom.
+ * - Zoom is relative to "fit width" (100%), so pages fill the drawer whatever its size; the canvas is drawn
+ *   at device pixel ratio to stay sharp.
+ * - PageUp/PageDown step pages (ArrowLeft/ArrowRight belong to the viewer's file navigation).
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '../ui/button';
+import ErrorState from '../common/ErrorState';
+import { loadPdf } from '../../lib/pdf';
+
+/** Zoom steps (1 = fit width) */
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+interface PdfViewerProps {
+  url: string;
+  /** Page to open at */
+  initialPage?: number | null;
+}
+
+export default function PdfViewer({ url, initialPage }: PdfViewerProps) {
+  /** Page container (state, not a ref: it is remounted after an error and Retry) */
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  /** Bumped by Retry to load again */
+  const [attempt, setAttempt] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [zoom, setZoom] = useState(1);
+  const [width, setWidth] = useState(0);
+  const [rendering, setRendering] = useState(false);
+
+  // Load the document
+  useEffect(() => {
+    const task = loadPdf(url);
+    setDoc(null);
+    setError(null);
+    task.promise.then(
+      (loaded) => {
+        setDoc(loaded);
+        setPage(Math.min(Math.max(initialPage ?? 1, 1), loaded.numPages));
+      },
+      (e: unknown) => setError(e)
+    );
+    return () => {
+      void task.destroy();
+    };
+  }, [url, initialPage, attempt]);
+
+  // Track the available width for "fit width"
+  useEffect(() => {
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  useEffect(() => setPageInput(String(page)), [page]);
+
+  // Draw the current page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!doc || !canvas || !width) return;
+    let task: RenderTask | null = null;
+    let cancelled = false;
+    setRendering(true);
+    doc
+      .getPage(page)
+      .then((pdfPage) => {
+        if (cancelled) return;
+        const base = pdfPage.getViewport({ scale: 1 });
+        const viewport = pdfPage.getViewport({ scale: (width / base.width) * zoom });
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = Math.floor(viewport.width * ratio);
+        canvas.height = Math.floor(viewport.height * ratio);
+        canvas.style.width = `${Math.floor(viewport.width)}px`;
+        canvas.style.height = `${Math.floor(viewport.height)}px`;
+        const context = canvas.getContext('2d');
+        if (!context) return;
+        task = pdfPage.render({
+          canvasContext: context,
+          viewport,
+          transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0],
+        });
+        return task.promise;
+      })
+      .catch((e: unknown) => {
+        // A newer render replaced this one
+        if (!cancelled && (e as { name?: string })?.name !== 'RenderingCancelledException') setError(e);
+      })
+      .finally(() => {
+        if (!cancelled) setRendering(false);
+      });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [doc, page, width, zoom]);
+
+  const numPages = doc?.numPages ?? 0;
+  const goTo = (next: number) => {
+    if (numPages) setPage(Math.min(Math.max(next, 1), numPages));
+  };
+  const stepZoom = (dir: 1 | -1) => {
+    const i = ZOOM_STEPS.indexOf(zoom);
+    setZoom(ZOOM_STEPS[Math.min(Math.max(i + dir, 0), ZOOM_STEPS.length - 1)]);
+  };
+
+  // Page keys
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'PageDown') setPage((p) => Math.min(p + 1, numPages || 1));
+      else if (e.key === 'PageUp') setPage((p) => Math.max(p - 1, 1));
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [numPages]);
+
+  if (error) {
+    return (
+      <ErrorState
+        error={error}
+        onRetry={() => setAttempt((n) => n + 1)}
+        title="Couldn’t show this PDF"
+        compact
+      />
+    );
+  }
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-slate-50 px-4 py-2">
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-transparent"
+            onClick={() => goTo(page - 1)}
+            disabled={page <= 1}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <form
+            className="flex items-center gap-1 text-xs text-slate-600"
+            onSubmit={(e) => {
+              e.preventDefault();
+              goTo(Number(pageInput) || page);
+            }}
+          >
+            <input
+              aria-label="Page number"
+              className="h-8 w-12 rounded-md border bg-white px-2 text-center text-sm"
+              inputMode="numeric"
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value.replace(/\D/g, ''))}
+              onBlur={() => setPageInput(String(page))}
+            />
+            <span>/ {numPages || '…'}</span>
+          </form>
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-transparent"
+            onClick={() => goTo(page + 1)}
+            disabled={!numPages || page >= numPages}
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-transparent"
+            onClick={() => stepZoom(-1)}
+            disabled={zoom <= ZOOM_STEPS[0]}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-12 text-center text-xs tabular-nums text-slate-600">{Math.round(zoom * 100)}%</span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-transparent"
+            onClick={() => stepZoom(1)}
+            disabled={zoom >= ZOOM_STEPS[ZOOM_STEPS.length - 1]}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-transparent"
+            onClick={() => setZoom(1)}
+            disabled={zoom === 1}
+            aria-label="Fit to width"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Page */}
+      <div className="min-h-0 flex-1 overflow-auto bg-slate-200 p-4">
+        <div ref={setContainer} className="relative w-full">
+          {!doc ? (
+            <div className="flex items-center justify-center py-12 text-sm text-slate-600">
+              <div className="h-6 w-6 animate-spin rounded-full border-4 border-slate-300 border-t-slate-900"></div>
+              <span className="ml-3">Loading document…</span>
+            </div>
+          ) : null}
+          <canvas
+            ref={canvasRef}
+            className={`mx-auto block bg-white shadow ${doc ? '' : 'hidden'} ${rendering ? 'opacity-80' : ''}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Data source config
+ * - Purpose: Choose where content (catalog, program tables, library files) comes from.
+ *   'supabase' is the live project; 'fixtures' is the offline snapshot in /fixtures (demos, training
+ *   sessions, automated tests without network access).
+ * - Order: VITE_DATA_SOURCE env -> localStorage DATA_SOURCE -> 'supabase'.
+ *   localStorage.setItem('DATA_SOURCE', 'fixtures'); location.reload();
+ * - Fixture files are served from VITE_FIXTURE_FILES_URL -> localStorage FIXTURE_FILES_URL ->
+ *   '/fixtures/files' (copied next to index.html by the build; absolute, so nested routes such as
+ *   /program/:slug don't resolve it below their own path).
+ */
+
+/** Available data sources */
+export type DataSourceKind = 'supabase' | 'fixtures';
+
+/** Default base URL for fixture sample files (site root, next to index.html) */
+const DEFAULT_FIXTURE_FILES_URL = '/fixtures/files';
+
+/** Base URL of the fixture JSON snapshots (copied by the build only when fixtures are included) */
+export const FIXTURE_DATA_URL = '/fixtures/data';
+
+/**
+ * Safely read a value from localStorage (browser only).
+ */
+function readLocalStorage(key: string): string {
+  try {
+    if (typeof window === 'undefined') return '';
+    return window.localStorage.getItem(key) || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Get the configured data source (unknown values fall back to 'supabase').
+ */
+export function getDataSourceKind(): DataSourceKind {
+  const envValue = (import.meta as any)?.env?.VITE_DATA_SOURCE as string | undefined;
+  const value = ((envValue && envValue.trim()) || readLocalStorage('DATA_SOURCE').trim()).toLowerCase();
+  return value === 'fixtures' ? 'fixtures' : 'supabase';
+}
+
+/**
+ * Get the base URL fixture sample files are served from (no trailing slash).
+ */
+export function getFixtureFilesUrl(): string {
+  const envValue = (import.meta as any)?.env?.VITE_FIXTURE_FILES_URL as string | undefined;
+  const url = (envValue && envValue.trim()) || readLocalStorage('FIXTURE_FILES_URL').trim() || DEFAULT_FIXTURE_FILES_URL;
+  return url.replace(/\/*$/, '');
+}
@@ -0,0 +1,34 @@
+/**
+ * Session lock config
+ * - Purpose: Idle timeout for shared pharmacy workstations.
+ * - Order: VITE_IDLE_TIMEOUT_MINUTES env -> localStorage IDLE_TIMEOUT_MINUTES -> DEFAULT_IDLE_TIMEOUT_MINUTES.
+ * - 0 disables the idle lock (manual "Lock screen" still works):
+ *   localStorage.setItem('IDLE_TIMEOUT_MINUTES', '5')
+ */
+
+/** Default minutes of inactivity before the member area locks */
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 10;
+
+/**
+ * Parse a minutes value; invalid or negative input yields null.
+ */
+function parseMinutes(raw: string | undefined | null): number | null {
+  if (raw == null || String(raw).trim() === '') return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/**
+ * Get the idle timeout in milliseconds (0 = disabled).
+ */
+export function getIdleTimeoutMs(): number {
+  const envValue = parseMinutes((import.meta as any)?.env?.VITE_IDLE_TIMEOUT_MINUTES as string | undefined);
+  let lsValue: number | null = null;
+  try {
+    lsValue = typeof window !== 'undefined' ? parseMinutes(window.localStorage.getItem('IDLE_TIMEOUT_MINUTES')) : null;
+  } catch {
+    lsValue = null;
+  }
+  const minutes = envValue ?? lsValue ?? DEFAULT_IDLE_TIMEOUT_MINUTES;
+  return Math.round(minutes * 60_000);
+}
@@ -0,0 +1,45 @@
+/**
+ * Library storage config
+ * - Purpose: How members get at library files.
+ *   'public' hands out the bucket's permanent public URLs (bucket must be public).
+ *   'signed' treats the bucket as private: links point at the in-app /file route and a short-lived
+ *   signed URL is created when the member opens the file (services/fileAccess).
+ * - Order: VITE_STORAGE_ACCESS env -> localStorage STORAGE_ACCESS -> 'public'.
+ * - Signed URL lifetime: VITE_SIGNED_URL_TTL env -> localStorage SIGNED_URL_TTL -> 300 seconds.
+ */
+
+/** How library file URLs are issued */
+export type StorageAccess = 'public' | 'signed';
+
+/** Default signed URL lifetime (seconds) */
+const DEFAULT_SIGNED_URL_TTL = 300;
+
+/**
+ * Safely read a value from localStorage (browser only).
+ */
+function readLocalStorage(key: string): string {
+  try {
+    if (typeof window === 'undefined') return '';
+    return window.localStorage.getItem(key) || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Get the configured access mode (unknown values fall back to 'public').
+ */
+export function getStorageAccess(): StorageAccess {
+  const envValue = (import.meta as any)?.env?.VITE_STORAGE_ACCESS as string | undefined;
+  const value = ((envValue && envValue.trim()) || readLocalStorage('STORAGE_ACCESS').trim()).toLowerCase();
+  return value === 'signed' ? 'signed' : 'public';
+}
+
+/**
+ * Get the lifetime of signed URLs in seconds (at least 60).
+ */
+export function getSignedUrlTtl(): number {
+  const envValue = (import.meta as any)?.env?.VITE_SIGNED_URL_TTL as string | undefined;
+  const seconds = Number((envValue && envValue.trim()) || readLocalStorage('SIGNED_URL_TTL').trim());
+  return Number.isFinite(seconds) && seconds > 0 ? Math.max(60, Math.round(seconds)) : DEFAULT_SIGNED_URL_TTL;
+}
@@ -2,6 +2,7 @@
  * Supabase config helpers
  * - Purpose: Centralize access to environment variables for Supabase.
  * - Reads from Vite env first, then optional browser localStorage overrides, then baked-in defaults.
+ * - The client itself lives in lib/supabase (the data-access layer).
  *
  * Notes:
  * - The anon key is a publishable, client-side key. Baking it in is acceptable for browser apps.
@@ -10,8 +11,6 @@
  *   localStorage.setItem('SUPABASE_ANON_KEY', '...anon key...')
  */
 
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-
  /** Default Supabase URL baked in per user request */
 const DEFAULT_SUPABASE_URL = 'https://xeyfhlmflsibxzjsirav.supabase.co';
 
@@ -48,38 +47,12 @@ export function getSupabaseUrl(): string {
 
 /**
  * Get Supabase anon key
- * - Order: VITE_SUPABASE_ANON_KEY env -> localStorage SUPABASE_ANON_KEY -> DEFAULT_SUPABASE_ANON_KEY
+ * - Order: VITE_SUPABASE_ANON_KEY env (or VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY) -> localStorage
+ *   SUPABASE_ANON_KEY -> DEFAULT_SUPABASE_ANON_KEY
  */
 export function getSupabaseAnonKey(): string {
-  const envKey = (import.meta as any)?.env?.VITE_SUPABASE_ANON_KEY as string | undefined;
+  const env = (import.meta as any)?.env;
+  const envKey = (env?.VITE_SUPABASE_ANON_KEY || env?.VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY) as string | undefined;
   const lsKey = readLocalStorage('SUPABASE_ANON_KEY');
   return (envKey && envKey.trim()) || (lsKey && lsKey.trim()) || DEFAULT_SUPABASE_ANON_KEY;
 }
-
-let supabaseClient: SupabaseClient | null = null;
-
-/**
- * Get or create the Supabase client instance
- * - Singleton pattern to ensure one client instance throughout the app
- * - Uses the centralized config helpers for URL and key
- */
-export function getSupabaseClient(): SupabaseClient {
-  if (!supabaseClient) {
-    const url = getSupabaseUrl();
-    const key = getSupabaseAnonKey();
-    
-    if (!url || !key) {
-      throw new Error('Supabase URL and anon key are required');
-    }
-    
-    supabaseClient = createClient(url, key, {
-      auth: {
-        autoRefreshToken: true,
-        persistSession: true,
-        detectSessionInUrl: true
-      }
-    });
-  }
-  
-  return supabaseClient;
-}
@@ -0,0 +1,73 @@
+/**
+ * useCatalogLiveUpdates
+ * - Purpose: Keep open library pages (Resources, ProgramDetail) current while admins add or replace files.
+ * - One shared subscription to the data source's catalog changes, however many pages mount the hook.
+ * - Changes are batched briefly (bulk uploads arrive as many rows): catalog queries are invalidated, so
+ *   mounted ones refetch in place, added/replaced files get the "New" highlight and one toast is shown.
+ */
+
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { getDataSource, type CatalogChange } from '../lib/dataSource';
+import { invalidateQueries } from '../lib/queryCache';
+import { useCatalogUpdatesStore } from '../stores/catalogUpdatesStore';
+import { catalogKeys } from './use-catalog';
+
+/** Wait for more rows of the same upload before refreshing */
+const BATCH_MS = 500;
+
+let subscribers = 0;
+let unsubscribe: (() => void) | null = null;
+let pending: CatalogChange[] = [];
+let flushTimer: number | undefined;
+
+/**
+ * Apply a batch of changes.
+ */
+function flush() {
+  const changes = pending;
+  pending = [];
+  flushTimer = undefined;
+  if (!changes.length) return;
+
+  invalidateQueries(catalogKeys.all);
+
+  const { markFresh, dismiss } = useCatalogUpdatesStore.getState();
+  const changed = Array.from(new Set(changes.filter((c) => c.type !== 'delete' && c.path).map((c) => c.path)));
+  changes.filter((c) => c.type === 'delete').forEach((c) => dismiss(c.path));
+  markFresh(changed);
+
+  if (changed.length === 1) {
+    const name = changed[0].split('/').pop() || changed[0];
+    toast.info('Library updated', { description: `New or updated file: ${name}` });
+  } else if (changed.length > 1) {
+    toast.info('Library updated', { description: `${changed.length} files were added or updated.` });
+  }
+}
+
+function onChange(change: CatalogChange) {
+  pending.push(change);
+  if (flushTimer === undefined) flushTimer = window.setTimeout(flush, BATCH_MS);
+}
+
+/**
+ * Subscribe the current page to live catalog updates.
+ */
+export function useCatalogLiveUpdates() {
+  useEffect(() => {
+    if (subscribers++ === 0) {
+      try {
+        unsubscribe = getDataSource().subscribeCatalog(onChange);
+      } catch (e: unknown) {
+        // Supabase not configured: pages still work, just without live updates
+        // eslint-disable-next-line no-console
+        console.warn('Live catalog updates unavailable:', e);
+      }
+    }
+    return () => {
+      if (--subscribers > 0) return;
+      unsubscribe?.();
+      unsubscribe = null;
+    };
+  }, []);
+}
@@ -0,0 +1,74 @@
+/**
+ * Catalog queries
+ * - Purpose: Cached (stale-while-revalidate, IndexedDB-persisted) access to the storage catalog for pages.
+ * - Keys are shared across pages, so returning to a program or library filter renders from cache.
+ */
+
+import { fetchQuery } from '../lib/queryCache';
+import {
+  getGlobalCategory,
+  getProgramResourcesGrouped,
+  getProgramsResourcesGrouped,
+  searchDocuments,
+  type ProgramSlug,
+} from '../services/storageCatalog';
+import { useQuery } from './use-query';
+
+/** Global library categories */
+export type GlobalCategory = 'handouts' | 'guidelines' | 'billing';
+
+/** Cache keys for catalog queries */
+export const catalogKeys = {
+  all: 'catalog:',
+  programResources: (slug: ProgramSlug) => `catalog:program:${slug}`,
+  programsResources: (slugs: readonly ProgramSlug[]) => `catalog:programs:${slugs.join(',')}`,
+  globalCategory: (cat: GlobalCategory) => `catalog:global:${cat}`,
+  contentSearch: (query: string, programs: readonly ProgramSlug[]) =>
+    `catalog:content:${programs.join(',')}:${query.trim().toLowerCase()}`,
+};
+
+/** Content search results stay fresh briefly and aren't persisted (one entry per typed query) */
+const CONTENT_SEARCH_OPTIONS = { staleTime: 60_000, persist: false };
+
+/**
+ * Grouped files for one program (null slug = disabled).
+ */
+export function useProgramResources(slug: ProgramSlug | null) {
+  return useQuery(slug ? catalogKeys.programResources(slug) : null, () =>
+    getProgramResourcesGrouped(slug as ProgramSlug)
+  );
+}
+
+/**
+ * Grouped files for several programs through the cache, outside React (e.g., the Dashboard Api).
+ */
+export function fetchProgramsResources(slugs: readonly ProgramSlug[]) {
+  return fetchQuery(catalogKeys.programsResources(slugs), () => getProgramsResourcesGrouped(slugs));
+}
+
+/**
+ * Grouped files for several programs, fetched in one catalog query (null = disabled).
+ */
+export function useProgramsResources(slugs: readonly ProgramSlug[] | null) {
+  return useQuery(slugs ? catalogKeys.programsResources(slugs) : null, () =>
+    getProgramsResourcesGrouped(slugs as readonly ProgramSlug[])
+  );
+}
+
+/**
+ * Files in a global library category (null = disabled).
+ */
+export function useGlobalCategory(cat: GlobalCategory | null) {
+  return useQuery(cat ? catalogKeys.globalCategory(cat) : null, () => getGlobalCategory(cat as GlobalCategory));
+}
+
+/**
+ * Search inside documents across the global library and the given programs (null query = disabled).
+ */
+export function useContentSearch(query: string | null, programs: readonly ProgramSlug[]) {
+  return useQuery(
+    query ? catalogKeys.contentSearch(query, programs) : null,
+    () => searchDocuments(query as string, programs),
+    CONTENT_SEARCH_OPTIONS
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * useEntitlements
+ * - Purpose: Expose the signed-in member's program entitlements to components.
+ * - Recomputed only when the auth store's user changes.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { getEntitledPrograms } from '../services/entitlements';
+import type { ProgramSlug } from '../services/storageCatalog';
+
+export interface Entitlements {
+  /** Programs the member may open */
+  programs: Set<ProgramSlug>;
+  /** Plan name shown on upgrade prompts (undefined without a subscription) */
+  planName?: string;
+  /** Check a single program */
+  canAccess: (slug: ProgramSlug) => boolean;
+}
+
+export function useEntitlements(): Entitlements {
+  const user = useAuthStore((s) => s.user);
+
+  const programs = useMemo(() => getEntitledPrograms(user), [user]);
+  const canAccess = useCallback((slug: ProgramSlug) => programs.has(slug), [programs]);
+
+  return { programs, planName: user?.subscription?.planName, canAccess };
+}
@@ -0,0 +1,39 @@
+/**
+ * Multi-select state for file lists
+ * - Purpose: Which files (by storage path) are ticked for bulk actions such as "Download selected".
+ * - Page-local; selections are not kept in the URL.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+
+/** Selected paths and helpers to change them */
+export function useFileSelection() {
+  const [selected, setSelected] = useState<ReadonlySet<string>>(() => new Set());
+
+  const toggle = useCallback((path: string, on?: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (on ?? !next.has(path)) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+  }, []);
+
+  /** Tick or untick several files at once (e.g., "Select all") */
+  const setMany = useCallback((paths: readonly string[], on: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const path of paths) {
+        if (on) next.add(path);
+        else next.delete(path);
+      }
+      return next;
+    });
+  }, []);
+
+  const clear = useCallback(() => setSelected(new Set()), []);
+
+  return useMemo(() => ({ selected, toggle, setMany, clear }), [selected, toggle, setMany, clear]);
+}
+
+export type FileSelection = ReturnType<typeof useFileSelection>;
@@ -0,0 +1,35 @@
+/**
+ * File list sort order in the URL
+ * - Purpose: Keep the chosen sort (?sort=newest) in the query string, so it survives reloads and shared links.
+ * - Returns null when the URL has no (valid) sort; pages pick their own default.
+ */
+
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router';
+import { isFileSort, type FileSort } from '../services/fileSort';
+
+/** URL parameter holding the sort order */
+const SORT_PARAM = 'sort';
+
+/** Sort order from the URL, and a setter that replaces the history entry */
+export function useFileSortParam(): [FileSort | null, (next: FileSort | null) => void] {
+  const [params, setParams] = useSearchParams();
+  const value = params.get(SORT_PARAM);
+
+  const setSort = useCallback(
+    (next: FileSort | null) => {
+      setParams(
+        (prev) => {
+          const out = new URLSearchParams(prev);
+          if (next) out.set(SORT_PARAM, next);
+          else out.delete(SORT_PARAM);
+          return out;
+        },
+        { replace: true }
+      );
+    },
+    [setParams]
+  );
+
+  return [isFileSort(value) ? value : null, setSort];
+}
@@ -0,0 +1,43 @@
+/**
+ * useIdleTimeout
+ * - Calls onIdle once after timeoutMs without keyboard, pointer, scroll or touch activity.
+ * - Compares wall-clock timestamps on an interval, so a sleeping device locks as soon as it wakes.
+ * - timeoutMs <= 0 or enabled=false disables the timer.
+ */
+
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'scroll', 'touchstart'] as const;
+
+/** How often the idle deadline is checked */
+const CHECK_INTERVAL_MS = 5_000;
+
+export function useIdleTimeout(timeoutMs: number, onIdle: () => void, enabled = true) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    const check = () => {
+      if (Date.now() - lastActivity >= timeoutMs) {
+        window.clearInterval(timer);
+        onIdleRef.current();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, markActive, { passive: true, capture: true }));
+    document.addEventListener('visibilitychange', check);
+    const timer = window.setInterval(check, Math.min(CHECK_INTERVAL_MS, timeoutMs));
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, markActive, { capture: true }));
+      document.removeEventListener('visibilitychange', check);
+      window.clearInterval(timer);
+    };
+  }, [timeoutMs, enabled]);
+}
@@ -0,0 +1,79 @@
+/**
+ * Program binder state
+ * - Purpose: Build the printable binder PDF (services/programBinder) from a click, expose its progress,
+ *   allow cancelling, save the result and keep the list of files that were left out.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { toDataError } from '../lib/errors';
+import {
+  buildProgramBinder,
+  type BinderProgress,
+  type SkippedFile,
+} from '../services/programBinder';
+import type { ProgramResourcesGrouped } from '../services/storageCatalog';
+
+interface BuildOptions {
+  programName: string;
+  pharmacyName: string;
+  filename: string;
+}
+
+/** Save PDF bytes through a download link */
+function savePdf(bytes: Uint8Array, filename: string) {
+  // pdf-lib returns bytes over a plain ArrayBuffer
+  const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/pdf' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+/** Binder builder with progress (null while idle) and the last build's skipped files */
+export function useProgramBinder() {
+  const [progress, setProgress] = useState<BinderProgress | null>(null);
+  const [skipped, setSkipped] = useState<SkippedFile[] | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  // Leaving the page stops a running build
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const build = useCallback(
+    async (grouped: Pick<ProgramResourcesGrouped, 'protocols' | 'forms'>, opts: BuildOptions) => {
+      if (controller.current) return;
+      const abort = new AbortController();
+      controller.current = abort;
+      setSkipped(null);
+      try {
+        const binder = await buildProgramBinder(grouped, {
+          programName: opts.programName,
+          pharmacyName: opts.pharmacyName,
+          signal: abort.signal,
+          onProgress: setProgress,
+        });
+        savePdf(binder.bytes, opts.filename);
+        setSkipped(binder.skipped);
+        const pages = `${binder.pageCount} pages`;
+        if (binder.skipped.length) {
+          toast.warning(`Binder saved (${pages}). ${binder.skipped.length} files couldn’t be included.`);
+        } else {
+          toast.success(`Binder saved (${pages}, ${binder.included} documents)`);
+        }
+      } catch (e: unknown) {
+        if (!abort.signal.aborted) toast.error(toDataError(e, 'Could not create the binder.').message);
+      } finally {
+        controller.current = null;
+        setProgress(null);
+      }
+    },
+    []
+  );
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+
+  return { build, cancel, progress, skipped, running: progress !== null };
+}
@@ -0,0 +1,76 @@
+/**
+ * useQuery
+ * - Purpose: Read a key from the shared query cache (lib/queryCache) with stale-while-revalidate:
+ *   cached data (memory or IndexedDB) renders immediately and is refreshed in the background when stale.
+ * - key null disables the query (e.g., locked program, filter not selected yet).
+ * - isLoading is only true when there is nothing to show yet; background refreshes set isValidating.
+ * - Invalidated keys (invalidateQueries, e.g. a realtime catalog change) are refetched while mounted.
+ */
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME_MS,
+  getQueryEntry,
+  hydrateQuery,
+  revalidateQuery,
+  subscribeQuery,
+  type FetchOptions,
+} from '../lib/queryCache';
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: Error | undefined;
+  isLoading: boolean;
+  isValidating: boolean;
+  /** Refetch now (shares an in-flight request) */
+  refresh: () => Promise<T | undefined>;
+}
+
+const noopSubscribe = () => () => undefined;
+
+export function useQuery<T>(key: string | null, fetcher: () => Promise<T>, opts: FetchOptions = {}): QueryResult<T> {
+  // Latest fetcher without re-running the effect when callers pass inline functions
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const staleTime = opts.staleTime ?? DEFAULT_STALE_TIME_MS;
+  const persist = opts.persist;
+
+  const subscribe = useCallback((cb: () => void) => (key ? subscribeQuery(key, cb) : noopSubscribe()), [key]);
+  const entry = useSyncExternalStore(subscribe, () => (key ? getQueryEntry<T>(key) : undefined));
+
+  useEffect(() => {
+    if (!key) return;
+    let active = true;
+    void hydrateQuery(key).then(() => {
+      if (!active) return;
+      const current = getQueryEntry<T>(key);
+      const fresh = current?.updatedAt && Date.now() - current.updatedAt < staleTime;
+      if (!fresh) revalidateQuery(key, () => fetcherRef.current(), { persist }).catch(() => undefined);
+    });
+    return () => {
+      active = false;
+    };
+  }, [key, staleTime, persist]);
+
+  // Refetch in place when the key is invalidated while this reader is mounted
+  const invalidated = Boolean(entry?.invalidated);
+  useEffect(() => {
+    if (!key || !invalidated) return;
+    revalidateQuery(key, () => fetcherRef.current(), { persist }).catch(() => undefined);
+  }, [key, invalidated, persist]);
+
+  const refresh = useCallback(async () => {
+    if (!key) return undefined;
+    return revalidateQuery(key, () => fetcherRef.current(), { persist });
+  }, [key, persist]);
+
+  const data = entry?.data;
+  const error = entry?.error;
+  return {
+    data,
+    error,
+    isLoading: Boolean(key) && data === undefined && !error,
+    isValidating: Boolean(entry?.isFetching),
+    refresh,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * ZIP download state for a page
+ * - Purpose: Run services/zipDownload from a click, expose its progress for ZipProgress, allow cancelling,
+ *   and report the outcome with a toast.
+ * - One archive at a time per page; starting another while one runs is ignored.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { toDataError } from '../lib/errors';
+import { downloadZip, type ZipProgress, type ZipSource } from '../services/zipDownload';
+
+interface StartOptions {
+  filename: string;
+  root?: string;
+}
+
+/** ZIP download runner with progress (null while idle) */
+export function useZipDownload() {
+  const [progress, setProgress] = useState<ZipProgress | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  // Leaving the page stops a running archive
+  useEffect(() => () => controller.current?.abort(), []);
+
+  /**
+   * Build and save a ZIP of the files (call from a click: the save dialog needs the gesture).
+   * @returns true once the archive was saved (false when dismissed, cancelled, failed or already running)
+   */
+  const start = useCallback(async (files: readonly ZipSource[], { filename, root }: StartOptions) => {
+    if (controller.current || !files.length) return false;
+    const abort = new AbortController();
+    controller.current = abort;
+    setProgress({ done: 0, total: files.length, bytes: 0, totalBytes: 0, current: null });
+    try {
+      const { saved, failed } = await downloadZip(files, {
+        filename,
+        root,
+        signal: abort.signal,
+        onProgress: setProgress,
+      });
+      if (!saved) return false;
+      const added = files.length - failed.length;
+      if (failed.length) {
+        toast.warning(`Saved ${added} of ${files.length} files to ${filename}. ${failed.length} couldn’t be downloaded.`);
+      } else {
+        toast.success(`Saved ${added} ${added === 1 ? 'file' : 'files'} to ${filename}`);
+      }
+      return true;
+    } catch (e: unknown) {
+      if (!abort.signal.aborted) toast.error(toDataError(e, 'Could not create the ZIP file.').message);
+      return false;
+    } finally {
+      controller.current = null;
+      setProgress(null);
+    }
+  }, []);
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+
+  return { start, cancel, progress, running: progress !== null };
+}
+
+export type ZipDownload = ReturnType<typeof useZipDownload>;
@@ -0,0 +1,128 @@
+/**
+ * Data source
+ * - Purpose: The pluggable backend for content reads: the storage catalog, Storage folder listings,
+ *   library file URLs, the program/library tables, announcements and search inside documents.
+ * - Implementations: supabaseDataSource (live project) and fixtureDataSource (offline JSON snapshot +
+ *   sample files), selected by config/dataSource.
+ * - Account features (auth profile rows, teams, bookmarks, 2FA, admin) stay on Supabase; in fixture mode
+ *   the demo member is signed in locally (fixtureDataSource.fixtureAuth).
+ */
+
+import { getDataSourceKind, type DataSourceKind } from '../config/dataSource';
+import type { MatchRange } from './searchIndex';
+import type { TableRow } from './supabase';
+import { fixtureDataSource } from './fixtureDataSource';
+import { supabaseDataSource } from './supabaseDataSource';
+
+/** Tables a data source can serve (content only) */
+export type ContentTable =
+  | 'programs'
+  | 'training_modules'
+  | 'protocol_manuals'
+  | 'documentation_forms'
+  | 'additional_resources'
+  | 'patient_handouts'
+  | 'clinical_guidelines'
+  | 'medical_billing_resources'
+  | 'announcements';
+
+/** Row filter/order for selectRows */
+export interface RowQuery<T extends ContentTable> {
+  /** Column equality filters (AND-ed) */
+  eq?: Partial<TableRow<T>>;
+  /**
+   * Only rows live at a moment (ISO `at`): `start` <= at and `end` null or after it, e.g. published and
+   * not yet expired announcements. Applied before `limit`.
+   */
+  liveAt?: { start: keyof TableRow<T> & string; end: keyof TableRow<T> & string; at: string };
+  /** Sort column */
+  orderBy?: keyof TableRow<T> & string;
+  ascending?: boolean;
+  limit?: number;
+}
+
+/** Row of storage_files_catalog */
+export type CatalogRow = TableRow<'storage_files_catalog'>;
+
+/**
+ * Object returned by a Storage folder listing.
+ * - Files carry metadata (size, mimetype); folders have metadata null.
+ */
+export interface StorageObject {
+  name: string;
+  id?: string | null;
+  updated_at?: string;
+  created_at?: string;
+  last_accessed_at?: string;
+  metadata?: {
+    size?: number;
+    mimetype?: string;
+    cacheControl?: string;
+    lastModified?: string;
+    contentLength?: number;
+  } | null;
+}
+
+/** A row added, replaced or removed in storage_files_catalog */
+export interface CatalogChange {
+  type: 'insert' | 'update' | 'delete';
+  /** file_path of the affected row */
+  path: string;
+}
+
+/** A page (or a whole document without pages) whose extracted text matches a content search */
+export interface ContentMatch {
+  path: string;
+  /** 1-based PDF page; null for DOCX */
+  page: number | null;
+  /** Excerpt around the matched words */
+  snippet: string;
+  /** Matched words within snippet */
+  ranges: MatchRange[];
+}
+
+/** Content backend */
+export interface DataSource {
+  readonly kind: DataSourceKind;
+  /** Rows of a content table */
+  selectRows<T extends ContentTable>(table: T, query?: RowQuery<T>): Promise<TableRow<T>[]>;
+  /** Catalog rows whose file_path starts with any of the prefixes (case-insensitive), sorted by path */
+  listCatalog(prefixes: string[]): Promise<CatalogRow[]>;
+  /** One page of the direct contents of a Storage folder, sorted by name */
+  listStorage(prefix: string, page: { limit: number; offset: number }): Promise<StorageObject[]>;
+  /** Permanent URL of a library file (public bucket) */
+  publicUrl(path: string): string;
+  /**
+   * Short-lived URL of a library file (private bucket).
+   * @param expiresIn lifetime in seconds
+   * @param opts.download serve as an attachment instead of inline
+   */
+  signedUrl(path: string, expiresIn: number, opts?: { download?: boolean }): Promise<string>;
+  /**
+   * Search the text extracted from library documents (scripts/extract-text.mjs); best matches first.
+   * @param opts.prefixes only files under these folders (e.g., the member's programs)
+   */
+  searchContent(query: string, opts: { prefixes: string[]; limit: number }): Promise<ContentMatch[]>;
+  /**
+   * Push notifications for catalog changes (no-op where the backend can't push).
+   * @returns unsubscribe function
+   */
+  subscribeCatalog(onChange: (change: CatalogChange) => void): () => void;
+}
+
+let current: DataSource | null = null;
+
+/**
+ * The configured data source (read once; switching requires a reload).
+ */
+export function getDataSource(): DataSource {
+  if (!current) current = getDataSourceKind() === 'fixtures' ? fixtureDataSource : supabaseDataSource;
+  return current;
+}
+
+/**
+ * True when running against the offline fixtures.
+ */
+export function isFixtureMode(): boolean {
+  return getDataSource().kind === 'fixtures';
+}
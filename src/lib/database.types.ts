@@ -0,0 +1,638 @@
+/**
+ * Database types (public schema)
+ * - Purpose: Typed table/function definitions for the Supabase client (SupabaseClient<Database>).
+ * - Layout follows `supabase gen types typescript`, so this file can be regenerated in place:
+ *     npx supabase gen types typescript --project-id <ref> --schema public > src/lib/database.types.ts
+ * - Keep it hand-edited only for columns the generator can't see yet (e.g., during a migration).
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      programs: {
+        Row: {
+          id: string;
+          slug: string;
+          name: string;
+          description: string | null;
+          overview: string | null;
+          experience_level: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          slug: string;
+          name: string;
+          description?: string | null;
+          overview?: string | null;
+          experience_level?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          slug?: string;
+          name?: string;
+          description?: string | null;
+          overview?: string | null;
+          experience_level?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      training_modules: {
+        Row: {
+          id: string;
+          program_id: string;
+          name: string;
+          length: string | null;
+          link: string | null;
+          file_path: string | null;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          program_id: string;
+          name: string;
+          length?: string | null;
+          link?: string | null;
+          file_path?: string | null;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          program_id?: string;
+          name?: string;
+          length?: string | null;
+          link?: string | null;
+          file_path?: string | null;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'training_modules_program_id_fkey';
+            columns: ['program_id'];
+            isOneToOne: false;
+            referencedRelation: 'programs';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      protocol_manuals: {
+        Row: {
+          id: string;
+          program_id: string;
+          name: string;
+          file_path: string | null;
+          link: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          program_id: string;
+          name: string;
+          file_path?: string | null;
+          link?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          program_id?: string;
+          name?: string;
+          file_path?: string | null;
+          link?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'protocol_manuals_program_id_fkey';
+            columns: ['program_id'];
+            isOneToOne: false;
+            referencedRelation: 'programs';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      documentation_forms: {
+        Row: {
+          id: string;
+          program_id: string;
+          name: string;
+          category: string | null;
+          file_path: string | null;
+          link: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          program_id: string;
+          name: string;
+          category?: string | null;
+          file_path?: string | null;
+          link?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          program_id?: string;
+          name?: string;
+          category?: string | null;
+          file_path?: string | null;
+          link?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'documentation_forms_program_id_fkey';
+            columns: ['program_id'];
+            isOneToOne: false;
+            referencedRelation: 'programs';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      additional_resources: {
+        Row: {
+          id: string;
+          program_id: string;
+          name: string;
+          file_path: string | null;
+          link: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          program_id: string;
+          name: string;
+          file_path?: string | null;
+          link?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          program_id?: string;
+          name?: string;
+          file_path?: string | null;
+          link?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'additional_resources_program_id_fkey';
+            columns: ['program_id'];
+            isOneToOne: false;
+            referencedRelation: 'programs';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      patient_handouts: {
+        Row: {
+          id: string;
+          name: string;
+          file_path: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          file_path?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          file_path?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      clinical_guidelines: {
+        Row: {
+          id: string;
+          name: string;
+          file_path: string | null;
+          link: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          file_path?: string | null;
+          link?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          file_path?: string | null;
+          link?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      medical_billing_resources: {
+        Row: {
+          id: string;
+          name: string;
+          file_path: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          file_path?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          file_path?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      announcements: {
+        Row: {
+          id: string;
+          title: string;
+          body: string;
+          published_at: string;
+          expires_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          body: string;
+          published_at?: string;
+          expires_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          body?: string;
+          published_at?: string;
+          expires_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      storage_files_catalog: {
+        Row: {
+          id: string;
+          bucket_name: string;
+          file_name: string;
+          file_path: string;
+          file_url: string | null;
+          file_size: number | null;
+          mime_type: string | null;
+          last_modified: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          bucket_name: string;
+          file_name: string;
+          file_path: string;
+          file_url?: string | null;
+          file_size?: number | null;
+          mime_type?: string | null;
+          last_modified?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          bucket_name?: string;
+          file_name?: string;
+          file_path?: string;
+          file_url?: string | null;
+          file_size?: number | null;
+          mime_type?: string | null;
+          last_modified?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      storage_files_text: {
+        Row: {
+          id: string;
+          bucket_name: string;
+          file_path: string;
+          page: number | null;
+          content: string;
+          extracted_at: string;
+        };
+        Insert: {
+          id?: string;
+          bucket_name?: string;
+          file_path: string;
+          page?: number | null;
+          content: string;
+          extracted_at?: string;
+        };
+        Update: {
+          id?: string;
+          bucket_name?: string;
+          file_path?: string;
+          page?: number | null;
+          content?: string;
+          extracted_at?: string;
+        };
+        Relationships: [];
+      };
+      profiles: {
+        Row: {
+          id: string;
+          email: string;
+          first_name: string | null;
+          last_name: string | null;
+          pharmacy_name: string | null;
+          subscription_status: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          email: string;
+          first_name?: string | null;
+          last_name?: string | null;
+          pharmacy_name?: string | null;
+          subscription_status?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          email?: string;
+          first_name?: string | null;
+          last_name?: string | null;
+          pharmacy_name?: string | null;
+          subscription_status?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      subscriptions: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          organization_id: string | null;
+          plan_name: string;
+          seats: number | null;
+          status: 'active' | 'inactive' | 'cancelled';
+          start_date: string;
+          end_date: string;
+          programs: string[] | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          organization_id?: string | null;
+          plan_name: string;
+          seats?: number | null;
+          status?: 'active' | 'inactive' | 'cancelled';
+          start_date: string;
+          end_date: string;
+          programs?: string[] | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          organization_id?: string | null;
+          plan_name?: string;
+          seats?: number | null;
+          status?: 'active' | 'inactive' | 'cancelled';
+          start_date?: string;
+          end_date?: string;
+          programs?: string[] | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'subscriptions_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      bookmarks: {
+        Row: {
+          id: string;
+          user_id: string;
+          resource_type: string;
+          resource_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          resource_type: string;
+          resource_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          resource_type?: string;
+          resource_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      recent_activity: {
+        Row: {
+          id: string;
+          user_id: string;
+          resource_name: string;
+          resource_type: string;
+          accessed_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          resource_name: string;
+          resource_type: string;
+          accessed_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          resource_name?: string;
+          resource_type?: string;
+          accessed_at?: string;
+        };
+        Relationships: [];
+      };
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          npi: string | null;
+          ncpdp: string | null;
+          owner_id: string;
+          require_mfa: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          npi?: string | null;
+          ncpdp?: string | null;
+          owner_id: string;
+          require_mfa?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          npi?: string | null;
+          ncpdp?: string | null;
+          owner_id?: string;
+          require_mfa?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      organization_members: {
+        Row: {
+          organization_id: string;
+          user_id: string;
+          role: 'owner' | 'pharmacist' | 'technician';
+          email: string;
+          full_name: string | null;
+          created_at: string;
+        };
+        Insert: {
+          organization_id: string;
+          user_id: string;
+          role: 'owner' | 'pharmacist' | 'technician';
+          email: string;
+          full_name?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          organization_id?: string;
+          user_id?: string;
+          role?: 'owner' | 'pharmacist' | 'technician';
+          email?: string;
+          full_name?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'organization_members_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      organization_invitations: {
+        Row: {
+          id: string;
+          organization_id: string;
+          email: string;
+          role: 'pharmacist' | 'technician';
+          status: 'pending' | 'accepted' | 'revoked' | 'expired';
+          token: string;
+          created_at: string;
+          expires_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          email: string;
+          role: 'pharmacist' | 'technician';
+          status?: 'pending' | 'accepted' | 'revoked' | 'expired';
+          token?: string;
+          created_at?: string;
+          expires_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          email?: string;
+          role?: 'pharmacist' | 'technician';
+          status?: 'pending' | 'accepted' | 'revoked' | 'expired';
+          token?: string;
+          created_at?: string;
+          expires_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'organization_invitations_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      accept_team_invitation: {
+        Args: { invite_token: string };
+        Returns: string;
+      };
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>;
+        Returns: string[];
+      };
+      search_file_text: {
+        Args: { q: string; prefixes?: string[] | null; max_results?: number };
+        Returns: { file_path: string; page: number | null; snippet: string; rank: number }[];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
@@ -0,0 +1,171 @@
+/**
+ * Data-layer errors
+ * - Purpose: Typed failures for Supabase (PostgREST, Storage, Edge Functions) so pages can react by kind
+ *   instead of showing raw response text.
+ * - Kinds: network (offline, timeouts, 5xx), auth-expired (401 / expired JWT), permission-denied (RLS or
+ *   403), not-found, rate-limited (429). Anything else is a plain DataError.
+ * - message is written for members; the raw backend text is kept on `detail` for logs.
+ * - retryable marks failures worth retrying for idempotent reads (lib/retry).
+ * - A 429's Retry-After header is read from the response attached to the error (Edge Functions put it on
+ *   `context`), so retries wait as long as the server asks.
+ */
+
+/** Failure kinds pages can branch on */
+export type DataErrorKind = 'network' | 'auth-expired' | 'permission-denied' | 'not-found' | 'rate-limited' | 'unknown';
+
+/** Shape of a backend error ({ message, code, status } from PostgREST/Storage/Functions) */
+interface BackendError {
+  message?: string;
+  code?: string;
+  status?: number;
+  statusCode?: string;
+  details?: string;
+  hint?: string;
+  /** HTTP response behind the error (FunctionsHttpError) */
+  context?: unknown;
+}
+
+/**
+ * Server-suggested wait from a Retry-After header (seconds or an HTTP date), in ms.
+ */
+function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Response attached to a backend error, when there is one.
+ */
+function responseOf(e: BackendError): Response | undefined {
+  return typeof Response !== 'undefined' && e.context instanceof Response ? e.context : undefined;
+}
+
+/**
+ * Base class for data-layer failures.
+ */
+export class DataError extends Error {
+  readonly kind: DataErrorKind = 'unknown';
+  /** HTTP status when known (0 = no response) */
+  readonly status?: number;
+  /** PostgREST/Postgres error code when known */
+  readonly code?: string;
+  /** Raw backend message (not for display) */
+  readonly detail?: string;
+
+  constructor(message: string, opts: { status?: number; code?: string; detail?: string } = {}) {
+    super(message);
+    this.name = 'DataError';
+    this.status = opts.status;
+    this.code = opts.code;
+    this.detail = opts.detail;
+  }
+
+  /** Worth retrying an idempotent request */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/** No response or a server-side failure (offline, DNS, timeout, 5xx) */
+export class NetworkError extends DataError {
+  readonly kind = 'network' as const;
+  constructor(detail?: string, status?: number) {
+    super('We couldn’t reach the server. Check your connection and try again.', { status, detail });
+    this.name = 'NetworkError';
+  }
+  get retryable() {
+    return true;
+  }
+}
+
+/** Session missing or expired */
+export class AuthExpiredError extends DataError {
+  readonly kind = 'auth-expired' as const;
+  constructor(detail?: string, status?: number, code?: string) {
+    super('Your session has expired. Please sign in again.', { status, code, detail });
+    this.name = 'AuthExpiredError';
+  }
+}
+
+/** Row-level security or storage policy refused the request */
+export class PermissionDeniedError extends DataError {
+  readonly kind = 'permission-denied' as const;
+  constructor(detail?: string, status?: number, code?: string) {
+    super('You don’t have access to this content. If you think you should, contact your pharmacy owner or support.', {
+      status,
+      code,
+      detail,
+    });
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/** Requested row or file does not exist */
+export class NotFoundError extends DataError {
+  readonly kind = 'not-found' as const;
+  constructor(detail?: string, status?: number, code?: string) {
+    super('We couldn’t find what you were looking for. It may have been moved or removed.', { status, code, detail });
+    this.name = 'NotFoundError';
+  }
+}
+
+/** Too many requests */
+export class RateLimitedError extends DataError {
+  readonly kind = 'rate-limited' as const;
+  /** Server-suggested wait before retrying, when given */
+  readonly retryAfterMs?: number;
+  constructor(detail?: string, retryAfterMs?: number) {
+    super('Too many requests right now. Please wait a moment and try again.', { status: 429, detail });
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+  }
+  get retryable() {
+    return true;
+  }
+}
+
+/** PostgREST/Postgres codes by kind */
+const AUTH_CODES = new Set(['PGRST301', 'PGRST302', 'PGRST303']);
+const PERMISSION_CODES = new Set(['42501']);
+const NOT_FOUND_CODES = new Set(['PGRST116', 'PGRST205', '42P01']);
+
+/**
+ * Classify a backend error (or thrown value) into a DataError.
+ * @param fallback member-facing message for unclassified errors
+ */
+export function toDataError(error: unknown, fallback = 'Something went wrong. Please try again.'): DataError {
+  if (error instanceof DataError) return error;
+
+  const e = (error ?? {}) as BackendError;
+  const detail = e.message || (typeof error === 'string' ? error : undefined);
+  const response = responseOf(e);
+  const status = typeof e.status === 'number' ? e.status : Number(e.statusCode) || response?.status || undefined;
+  const code = e.code || undefined;
+  const text = `${detail ?? ''} ${e.details ?? ''}`.toLowerCase();
+
+  if (
+    status === 0 ||
+    (error instanceof TypeError && /fetch|network/i.test(error.message)) ||
+    /failed to fetch|networkerror|network request failed|load failed|timed? ?out/.test(text)
+  ) {
+    return new NetworkError(detail, status);
+  }
+  if (status === 429) return new RateLimitedError(detail, parseRetryAfter(response?.headers.get('Retry-After')));
+  if (status === 401 || (code && AUTH_CODES.has(code)) || /jwt expired|invalid jwt|not signed in/.test(text)) {
+    return new AuthExpiredError(detail, status, code);
+  }
+  if (
+    status === 403 ||
+    (code && PERMISSION_CODES.has(code)) ||
+    /row-level security|permission denied|not authorized|unauthorized/.test(text)
+  ) {
+    return new PermissionDeniedError(detail, status, code);
+  }
+  if (status === 404 || (code && NOT_FOUND_CODES.has(code))) return new NotFoundError(detail, status, code);
+  if (status !== undefined && status >= 500) return new NetworkError(detail, status);
+
+  return new DataError(fallback, { status, code, detail });
+}
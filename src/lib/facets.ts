@@ -0,0 +1,73 @@
+/**
+ * Faceted filtering
+ * - Purpose: Multi-select facets over an in-memory list (the library) with live counts.
+ * - Semantics: values within a facet are OR-ed, facets are AND-ed; a facet with nothing selected
+ *   doesn't filter.
+ * - Counts follow the usual faceted-search rule: a value's count applies every *other* facet's
+ *   selection, so it says how many items picking that value would show (or add).
+ */
+
+/** How to read one facet from an item (an item may carry several values, or none) */
+export interface FacetDef<T> {
+  get: (item: T) => string | readonly string[] | undefined;
+}
+
+/** Selected values per facet key */
+export type FacetSelection<K extends string = string> = Record<K, string[]>;
+
+/** Value -> item count per facet key */
+export type FacetCounts<K extends string = string> = Record<K, Map<string, number>>;
+
+function valuesOf<T>(def: FacetDef<T>, item: T): readonly string[] {
+  const v = def.get(item);
+  if (v === undefined) return [];
+  return typeof v === 'string' ? [v] : v;
+}
+
+function matchesFacet<T>(def: FacetDef<T>, item: T, selected: readonly string[]): boolean {
+  if (!selected.length) return true;
+  return valuesOf(def, item).some((v) => selected.includes(v));
+}
+
+/**
+ * Items matching every facet selection.
+ * @param skip facet to ignore (used for counts)
+ */
+export function applyFacets<T, K extends string>(
+  items: readonly T[],
+  defs: Record<K, FacetDef<T>>,
+  selection: FacetSelection<K>,
+  skip?: K
+): T[] {
+  const keys = (Object.keys(defs) as K[]).filter((k) => k !== skip && selection[k]?.length);
+  if (!keys.length) return [...items];
+  return items.filter((item) => keys.every((k) => matchesFacet(defs[k], item, selection[k])));
+}
+
+/**
+ * Live counts for every facet value present in the items.
+ */
+export function facetCounts<T, K extends string>(
+  items: readonly T[],
+  defs: Record<K, FacetDef<T>>,
+  selection: FacetSelection<K>
+): FacetCounts<K> {
+  const counts = {} as FacetCounts<K>;
+  for (const key of Object.keys(defs) as K[]) {
+    const map = new Map<string, number>();
+    for (const item of applyFacets(items, defs, selection, key)) {
+      for (const v of valuesOf(defs[key], item)) map.set(v, (map.get(v) ?? 0) + 1);
+    }
+    counts[key] = map;
+  }
+  return counts;
+}
+
+/**
+ * Toggle one value in a selection (returns a new selection).
+ */
+export function toggleFacet<K extends string>(selection: FacetSelection<K>, key: K, value: string): FacetSelection<K> {
+  const current = selection[key] ?? [];
+  const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+  return { ...selection, [key]: next };
+}
@@ -0,0 +1,258 @@
+/**
+ * Fixture data source
+ * - Purpose: Offline content backend for demos, training sessions and automated tests.
+ * - Tables come from JSON snapshots in /fixtures/data (same row shapes as lib/database.types), fetched on
+ *   first use rather than imported, so production bundles never contain them (demo passwords included);
+ *   library files are served from /fixtures/files. Both are copied into dist by fixture-enabled builds.
+ * - Storage folder listings are derived from the storage_files_catalog snapshot, so the catalog and the
+ *   Storage fallback always agree.
+ * - Content search scans the extracted text snapshot (storage_files_text.json) for pages containing every
+ *   query word (word-prefix, case-insensitive); no stemming, unlike the live full-text search.
+ * - fixtureAuth signs in the demo members from fixtures/data/users.json without Supabase Auth.
+ */
+
+import type { Subscription, User } from '../types';
+import { FIXTURE_DATA_URL, getFixtureFilesUrl } from '../config/dataSource';
+import type { CatalogRow, ContentMatch, ContentTable, DataSource, RowQuery, StorageObject } from './dataSource';
+import type { MatchRange } from './searchIndex';
+import type { TableRow } from './supabase';
+
+/** Demo member record in fixtures/data/users.json (dates as ISO strings) */
+interface FixtureUser extends Omit<User, 'createdAt' | 'lastSignInAt' | 'subscription'> {
+  password: string;
+  createdAt: string;
+  subscription?: Omit<Subscription, 'startDate' | 'endDate'> & { startDate: string; endDate: string };
+}
+
+/** The loaded snapshot */
+interface Fixtures {
+  tables: { [K in ContentTable]: TableRow<K>[] };
+  catalog: CatalogRow[];
+  /** Extracted document text, as written by scripts/extract-text.mjs */
+  fileText: Array<Pick<TableRow<'storage_files_text'>, 'file_path' | 'page' | 'content'>>;
+  users: FixtureUser[];
+}
+
+const CONTENT_TABLES: ContentTable[] = [
+  'programs',
+  'training_modules',
+  'protocol_manuals',
+  'documentation_forms',
+  'additional_resources',
+  'patient_handouts',
+  'clinical_guidelines',
+  'medical_billing_resources',
+  'announcements',
+];
+
+let loading: Promise<Fixtures> | null = null;
+
+async function fetchJson<T>(name: string): Promise<T> {
+  const response = await fetch(`${FIXTURE_DATA_URL}/${name}.json`);
+  if (!response.ok) throw new Error(`Fixture ${name}.json unavailable (HTTP ${response.status})`);
+  return (await response.json()) as T;
+}
+
+/**
+ * Load the JSON snapshot once (fetched, not bundled: it must not ship in production builds).
+ * - A failed load is forgotten so the next call tries again.
+ */
+function loadFixtures(): Promise<Fixtures> {
+  loading ??= (async () => {
+    const [tables, catalog, fileText, users] = await Promise.all([
+      Promise.all(CONTENT_TABLES.map(async (table) => [table, await fetchJson<unknown[]>(table)] as const)),
+      fetchJson<CatalogRow[]>('storage_files_catalog'),
+      fetchJson<Fixtures['fileText']>('storage_files_text'),
+      fetchJson<FixtureUser[]>('users'),
+    ]);
+    return { tables: Object.fromEntries(tables) as Fixtures['tables'], catalog, fileText, users };
+  })().catch((e: unknown) => {
+    loading = null;
+    throw e;
+  });
+  return loading;
+}
+
+/** Characters of context shown before the first match in a snippet */
+const SNIPPET_BEFORE = 60;
+/** Snippet length */
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Find every query word in a page of text; null when any word is missing.
+ * - The snippet is a window around the first match; ranges are relative to it.
+ */
+function matchText(content: string, words: string[]): { score: number; snippet: string; ranges: MatchRange[] } | null {
+  const lower = content.toLowerCase();
+  const hits: MatchRange[] = [];
+  for (const word of words) {
+    const found = Array.from(lower.matchAll(new RegExp(`\\b${word}`, 'g')));
+    if (!found.length) return null;
+    for (const m of found) hits.push([m.index ?? 0, (m.index ?? 0) + word.length]);
+  }
+  hits.sort((a, b) => a[0] - b[0]);
+
+  const start = Math.max(0, hits[0][0] - SNIPPET_BEFORE);
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+  const lead = start > 0 ? '… ' : '';
+  const snippet = lead + content.slice(start, end) + (end < content.length ? ' …' : '');
+  const shift = lead.length - start;
+  const ranges = hits
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]): MatchRange => [s + shift, e + shift]);
+  return { score: hits.length, snippet, ranges };
+}
+
+/**
+ * Compare two column values (strings case-insensitively, nulls last).
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a == null) return b == null ? 0 : 1;
+  if (b == null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+}
+
+export const fixtureDataSource: DataSource = {
+  kind: 'fixtures',
+
+  async selectRows<T extends ContentTable>(table: T, query: RowQuery<T> = {}): Promise<TableRow<T>[]> {
+    const filters = Object.entries(query.eq ?? {}) as [keyof TableRow<T>, unknown][];
+    const { tables } = await loadFixtures();
+    let rows = (tables[table] as TableRow<T>[]).filter((row) => filters.every(([col, value]) => row[col] === value));
+    if (query.liveAt) {
+      const { start, end } = query.liveAt;
+      const at = Date.parse(query.liveAt.at);
+      const time = (value: unknown) => (typeof value === 'string' ? Date.parse(value) : NaN);
+      rows = rows.filter((row) => {
+        const until = row[end as keyof TableRow<T>];
+        return time(row[start as keyof TableRow<T>]) <= at && (until == null || time(until) > at);
+      });
+    }
+    if (query.orderBy) {
+      const col = query.orderBy;
+      const dir = query.ascending === false ? -1 : 1;
+      rows = [...rows].sort((a, b) => dir * compareValues(a[col], b[col]));
+    }
+    return (query.limit ? rows.slice(0, query.limit) : rows).map((row) => ({ ...row }));
+  },
+
+  async listCatalog(prefixes: string[]) {
+    const lower = prefixes.map((p) => p.toLowerCase());
+    const { catalog } = await loadFixtures();
+    return catalog.filter((row) => lower.some((p) => row.file_path.toLowerCase().startsWith(p)))
+      .sort((a, b) => a.file_path.localeCompare(b.file_path))
+      .map((row) => ({ ...row }));
+  },
+
+  async listStorage(prefix, page) {
+    const base = prefix ? `${prefix}/` : '';
+    const entries = new Map<string, StorageObject>();
+    const { catalog } = await loadFixtures();
+    for (const row of catalog) {
+      if (!row.file_path.startsWith(base)) continue;
+      const [name, ...rest] = row.file_path.slice(base.length).split('/');
+      if (!name || entries.has(name)) continue;
+      entries.set(
+        name,
+        rest.length
+          ? { name, id: null, metadata: null }
+          : {
+              name,
+              id: row.id,
+              updated_at: row.updated_at ?? undefined,
+              created_at: row.created_at ?? undefined,
+              metadata: { size: row.file_size ?? 0, mimetype: row.mime_type ?? undefined },
+            }
+      );
+    }
+    const sorted = Array.from(entries.values()).sort((a, b) => a.name.localeCompare(b.name));
+    return sorted.slice(page.offset, page.offset + page.limit);
+  },
+
+  publicUrl(path) {
+    return `${getFixtureFilesUrl()}/${path.split('/').map(encodeURIComponent).join('/')}`;
+  },
+
+  // Sample files are served statically; nothing to sign
+  async signedUrl(path) {
+    return fixtureDataSource.publicUrl(path);
+  },
+
+  async searchContent(query, opts) {
+    // Words are [a-z0-9]+ only, so they are safe inside a RegExp
+    const words = Array.from(new Set(query.toLowerCase().match(/[a-z0-9]+/g) ?? []));
+    if (!words.length) return [];
+    const prefixes = opts.prefixes.map((p) => p.toLowerCase());
+    const results: Array<ContentMatch & { score: number }> = [];
+    const { fileText } = await loadFixtures();
+    for (const row of fileText) {
+      if (!prefixes.some((p) => row.file_path.toLowerCase().startsWith(p))) continue;
+      const hit = matchText(row.content, words);
+      if (hit) results.push({ path: row.file_path, page: row.page, ...hit });
+    }
+    results.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path) || (a.page ?? 0) - (b.page ?? 0));
+    return results.slice(0, opts.limit).map(({ score: _score, ...match }) => match);
+  },
+
+  // The snapshot never changes while the app runs
+  subscribeCatalog() {
+    return () => undefined;
+  },
+};
+
+/** sessionStorage key remembering the signed-in demo member across reloads */
+const FIXTURE_SESSION_KEY = 'crxq_fixture_session_v1';
+
+/**
+ * Map a fixture record to the app User.
+ */
+function toUser({ password: _password, createdAt, subscription, ...rest }: FixtureUser): User {
+  return {
+    ...rest,
+    createdAt: new Date(createdAt),
+    lastSignInAt: new Date(),
+    subscription: subscription
+      ? { ...subscription, startDate: new Date(subscription.startDate), endDate: new Date(subscription.endDate) }
+      : undefined,
+  };
+}
+
+/**
+ * Local sign-in for fixture mode (demo credentials only; nothing leaves the browser).
+ */
+export const fixtureAuth = {
+  /** Demo member remembered for this tab, if any */
+  async restore(): Promise<User | null> {
+    try {
+      const id = window.sessionStorage.getItem(FIXTURE_SESSION_KEY);
+      if (!id) return null;
+      const record = (await loadFixtures()).users.find((u) => u.id === id);
+      return record ? toUser(record) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  /** Check demo credentials; null when they don't match */
+  async signIn(email: string, password: string): Promise<User | null> {
+    const record = (await loadFixtures()).users.find(
+      (u) => u.email.toLowerCase() === email.trim().toLowerCase() && u.password === password
+    );
+    if (!record) return null;
+    try {
+      window.sessionStorage.setItem(FIXTURE_SESSION_KEY, record.id);
+    } catch {
+      // Private mode: the session just won't survive a reload
+    }
+    return toUser(record);
+  },
+
+  signOut() {
+    try {
+      window.sessionStorage.removeItem(FIXTURE_SESSION_KEY);
+    } catch {
+      // ignore
+    }
+  },
+};
@@ -0,0 +1,103 @@
+/**
+ * Folder tree
+ * - Purpose: Rebuild the storage folder hierarchy from flat file paths ("patienthandouts/Diabetes/x.pdf"),
+ *   so the library can be browsed the way it is organized in the bucket.
+ * - Folder paths are matched case-insensitively ("Forms" and "forms" are one folder); the first spelling
+ *   seen is displayed. Folder and file order is alphabetical.
+ * - Paths have no leading or trailing slash; the root folder's path is ''.
+ */
+
+/** A folder with its sub-folders and the files directly inside it */
+export interface FolderNode<T> {
+  /** Last path segment ('' for the root) */
+  name: string;
+  /** Path from the tree root, e.g. "patienthandouts/Diabetes" */
+  path: string;
+  folders: FolderNode<T>[];
+  files: T[];
+  /** Files in this folder and every folder below it */
+  count: number;
+}
+
+function emptyFolder<T>(name: string, path: string): FolderNode<T> {
+  return { name, path, folders: [], files: [], count: 0 };
+}
+
+function byName(a: { name: string }, b: { name: string }) {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+}
+
+/**
+ * Build a folder tree.
+ * @param getPath storage path of an item
+ * @param getName name to sort files by (defaults to the path's last segment)
+ */
+export function buildFolderTree<T>(
+  items: readonly T[],
+  getPath: (item: T) => string,
+  getName?: (item: T) => string
+): FolderNode<T> {
+  const root = emptyFolder<T>('', '');
+  const folders = new Map<string, FolderNode<T>>([['', root]]);
+
+  for (const item of items) {
+    const parts = getPath(item).split('/').filter(Boolean);
+    parts.pop();
+    let node = root;
+    node.count++;
+    for (const part of parts) {
+      const path = node.path ? `${node.path}/${part}` : part;
+      let child = folders.get(path.toLowerCase());
+      if (!child) {
+        child = emptyFolder<T>(part, path);
+        folders.set(path.toLowerCase(), child);
+        node.folders.push(child);
+      }
+      node = child;
+      node.count++;
+    }
+    node.files.push(item);
+  }
+
+  const fileName = getName ?? ((item: T) => getPath(item).split('/').pop() ?? '');
+  for (const node of folders.values()) {
+    node.folders.sort(byName);
+    node.files.sort((a, b) => byName({ name: fileName(a) }, { name: fileName(b) }));
+  }
+  return root;
+}
+
+/**
+ * Folder at a path (case-insensitive), or null when the tree has no such folder.
+ */
+export function findFolder<T>(root: FolderNode<T>, path: string): FolderNode<T> | null {
+  const parts = path.split('/').filter(Boolean);
+  let node: FolderNode<T> | undefined = root;
+  for (const part of parts) {
+    node = node.folders.find((f) => f.name.toLowerCase() === part.toLowerCase());
+    if (!node) return null;
+  }
+  return node;
+}
+
+/**
+ * Folders from the root down to the folder at a path (inclusive); stops at the deepest existing folder.
+ */
+export function folderTrail<T>(root: FolderNode<T>, path: string): FolderNode<T>[] {
+  const trail = [root];
+  for (const part of path.split('/').filter(Boolean)) {
+    const next = trail[trail.length - 1].folders.find((f) => f.name.toLowerCase() === part.toLowerCase());
+    if (!next) break;
+    trail.push(next);
+  }
+  return trail;
+}
+
+/**
+ * Root of a sub-tree with paths kept relative to the full tree (e.g., one program's folder).
+ * - Returns an empty folder at that path when it has no files.
+ */
+export function subTree<T>(root: FolderNode<T>, path: string): FolderNode<T> {
+  const clean = path.split('/').filter(Boolean).join('/');
+  return findFolder(root, clean) ?? emptyFolder<T>(clean.split('/').pop() ?? '', clean);
+}
@@ -0,0 +1,31 @@
+/**
+ * Display formatting
+ * - Purpose: Compact labels for file sizes and dates in dense lists.
+ */
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/**
+ * Human-readable size, e.g. "840 B", "1.2 MB" (empty for unknown sizes).
+ */
+export function formatFileSize(bytes?: number): string {
+  if (bytes === undefined || !Number.isFinite(bytes) || bytes < 0) return '';
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < SIZE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const digits = unit === 0 || value >= 10 ? 0 : 1;
+  return `${value.toFixed(digits)} ${SIZE_UNITS[unit]}`;
+}
+
+/**
+ * Short date, e.g. "Aug 1, 2025" (empty for missing or invalid dates).
+ */
+export function formatShortDate(iso?: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
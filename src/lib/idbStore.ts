@@ -0,0 +1,72 @@
+/**
+ * IndexedDB key-value store
+ * - Purpose: Tiny promise wrapper over one IndexedDB object store (used to persist the query cache).
+ * - Every call resolves even when IndexedDB is unavailable (private mode, old browsers, SSR):
+ *   reads yield undefined and writes are dropped, so callers can treat persistence as best-effort.
+ */
+
+const DB_NAME = 'clinicalrxq';
+const DB_VERSION = 1;
+const STORE = 'kv';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open (or create) the database once.
+ */
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      try {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => resolve(null);
+        req.onblocked = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run one request in a transaction and resolve with its result (undefined on any failure).
+ */
+async function run<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve) => {
+    try {
+      const req = op(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(undefined);
+    } catch {
+      resolve(undefined);
+    }
+  });
+}
+
+/** Read a value */
+export async function idbGet<T>(key: string): Promise<T | undefined> {
+  return run<T>('readonly', (s) => s.get(key) as IDBRequest<T>);
+}
+
+/** Write a value (structured-cloneable) */
+export async function idbSet(key: string, value: unknown): Promise<void> {
+  await run('readwrite', (s) => s.put(value, key));
+}
+
+/** Delete a value */
+export async function idbDelete(key: string): Promise<void> {
+  await run('readwrite', (s) => s.delete(key));
+}
+
+/** Delete every value */
+export async function idbClear(): Promise<void> {
+  await run('readwrite', (s) => s.clear());
+}
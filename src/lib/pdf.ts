@@ -0,0 +1,18 @@
+/**
+ * PDF loading (pdf.js)
+ * - Purpose: Open PDFs for the in-app viewer. Parsing runs in pdf.js's worker, which scripts/build.mjs copies
+ *   next to the bundle.
+ */
+
+import { getDocument, GlobalWorkerOptions, type PDFDocumentLoadingTask } from 'pdfjs-dist';
+
+/** Worker script served from the app root */
+const WORKER_SRC = '/pdf.worker.min.mjs';
+
+/**
+ * Start loading a PDF (await `.promise`; `.destroy()` cancels and frees it).
+ */
+export function loadPdf(url: string): PDFDocumentLoadingTask {
+  if (!GlobalWorkerOptions.workerSrc) GlobalWorkerOptions.workerSrc = WORKER_SRC;
+  return getDocument({ url, isEvalSupported: false });
+}
@@ -0,0 +1,172 @@
+/**
+ * Query cache (stale-while-revalidate)
+ * - Purpose: Share fetched data across pages by query key, so navigating back to a program or library
+ *   category renders instantly from cache while a background request refreshes it.
+ * - De-duplication: concurrent requests for the same key share one in-flight promise.
+ * - Persistence: successful results are written to IndexedDB (idbStore) and read back on first use of a
+ *   key, so the cache survives reloads. Persisted entries are tagged with CACHE_VERSION; bump it when a
+ *   cached shape changes.
+ * - Errors never evict data: a failed revalidation keeps the last good value and records the error.
+ * - clearQueryCache starts a new cache generation: requests and IndexedDB reads still running from before
+ *   it resolve for their callers but never write back (a signed-out member's data stays gone).
+ */
+
+import { idbClear, idbGet, idbSet } from './idbStore';
+
+/** Bump when the shape of any cached value changes */
+const CACHE_VERSION = 2;
+/** Prefix for persisted keys */
+const IDB_PREFIX = 'query:';
+
+/** Default time a value counts as fresh (no background refresh) */
+export const DEFAULT_STALE_TIME_MS = 5 * 60_000;
+
+/** Cache entry for one key */
+export interface QueryEntry<T = unknown> {
+  data?: T;
+  /** When data was last fetched (epoch ms, 0 = never) */
+  updatedAt: number;
+  error?: Error;
+  /** A request for this key is in flight */
+  isFetching: boolean;
+  /** Marked stale by invalidateQueries; mounted readers refetch right away */
+  invalidated?: boolean;
+}
+
+/** Persisted record */
+interface StoredEntry {
+  v: number;
+  data: unknown;
+  updatedAt: number;
+}
+
+export interface FetchOptions {
+  /** Age (ms) under which cached data is returned without refetching */
+  staleTime?: number;
+  /** Persist the result to IndexedDB (default true) */
+  persist?: boolean;
+}
+
+const entries = new Map<string, QueryEntry>();
+const inflight = new Map<string, Promise<unknown>>();
+const hydrating = new Map<string, Promise<void>>();
+const listeners = new Map<string, Set<() => void>>();
+/** Bumped by clearQueryCache; results from an older generation are discarded */
+let generation = 0;
+
+function notify(key: string) {
+  listeners.get(key)?.forEach((fn) => fn());
+}
+
+function update(key: string, patch: Partial<QueryEntry>) {
+  const prev = entries.get(key) ?? { updatedAt: 0, isFetching: false };
+  entries.set(key, { ...prev, ...patch });
+  notify(key);
+}
+
+/**
+ * Current entry for a key (undefined when never requested).
+ */
+export function getQueryEntry<T>(key: string): QueryEntry<T> | undefined {
+  return entries.get(key) as QueryEntry<T> | undefined;
+}
+
+/**
+ * Subscribe to changes of one key.
+ * @returns unsubscribe function
+ */
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  let set = listeners.get(key);
+  if (!set) {
+    set = new Set();
+    listeners.set(key, set);
+  }
+  set.add(listener);
+  return () => {
+    set?.delete(listener);
+  };
+}
+
+/**
+ * Load a persisted value into memory once per key (no-op when already in memory).
+ */
+export function hydrateQuery(key: string): Promise<void> {
+  if (entries.get(key)?.updatedAt) return Promise.resolve();
+  let pending = hydrating.get(key);
+  if (!pending) {
+    const started = generation;
+    pending = idbGet<StoredEntry>(IDB_PREFIX + key).then((stored) => {
+      if (started !== generation) return;
+      // A fetch may have finished while IndexedDB was being read; keep the newer value
+      if (stored && stored.v === CACHE_VERSION && stored.updatedAt > (entries.get(key)?.updatedAt ?? 0)) {
+        update(key, { data: stored.data, updatedAt: stored.updatedAt });
+      }
+    });
+    hydrating.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * Fetch a key now, sharing any request already in flight.
+ */
+export function revalidateQuery<T>(key: string, fetcher: () => Promise<T>, opts: FetchOptions = {}): Promise<T> {
+  const running = inflight.get(key);
+  if (running) return running as Promise<T>;
+
+  const started = generation;
+  update(key, { isFetching: true });
+  const request: Promise<T> = fetcher()
+    .then((data) => {
+      if (started !== generation) return data;
+      const updatedAt = Date.now();
+      update(key, { data, updatedAt, error: undefined, isFetching: false, invalidated: false });
+      if (opts.persist !== false) {
+        void idbSet(IDB_PREFIX + key, { v: CACHE_VERSION, data, updatedAt } satisfies StoredEntry);
+      }
+      return data;
+    })
+    .catch((e: unknown) => {
+      if (started === generation) update(key, { error: e instanceof Error ? e : new Error(String(e)), isFetching: false });
+      throw e;
+    })
+    .finally(() => {
+      if (inflight.get(key) === request) inflight.delete(key);
+    });
+  inflight.set(key, request);
+  return request;
+}
+
+/**
+ * Get data for a key: cached when fresh, otherwise fetched (de-duplicated).
+ * - For imperative use (e.g., one query composed from several cached ones).
+ */
+export async function fetchQuery<T>(key: string, fetcher: () => Promise<T>, opts: FetchOptions = {}): Promise<T> {
+  await hydrateQuery(key);
+  const entry = getQueryEntry<T>(key);
+  const staleTime = opts.staleTime ?? DEFAULT_STALE_TIME_MS;
+  if (entry?.updatedAt && Date.now() - entry.updatedAt < staleTime) return entry.data as T;
+  return revalidateQuery(key, fetcher, opts);
+}
+
+/**
+ * Mark keys starting with a prefix as stale (data stays visible meanwhile).
+ * - Keys read by a mounted useQuery refetch immediately; others refetch on their next read.
+ */
+export function invalidateQueries(prefix: string) {
+  for (const [key, entry] of entries) {
+    if (key.startsWith(prefix) && entry.updatedAt) update(key, { updatedAt: 1, invalidated: true });
+  }
+}
+
+/**
+ * Drop everything, in memory and in IndexedDB (e.g., on sign-out).
+ */
+export async function clearQueryCache(): Promise<void> {
+  generation++;
+  entries.clear();
+  inflight.clear();
+  hydrating.clear();
+  for (const key of listeners.keys()) notify(key);
+  await idbClear();
+}
@@ -0,0 +1,48 @@
+/**
+ * Retry with exponential backoff
+ * - Purpose: Re-run idempotent reads (selects, catalog/storage listings) on transient failures.
+ * - Only DataErrors marked retryable (network, 5xx, rate-limited) are retried; auth, RLS and not-found
+ *   failures surface immediately.
+ * - Delay: baseDelayMs * 2^attempt with full jitter, capped at maxDelayMs; a rate limit's Retry-After
+ *   wins when it is longer. A Retry-After beyond MAX_RETRY_AFTER_MS surfaces the error instead of
+ *   leaving the page waiting.
+ */
+
+import { RateLimitedError, toDataError } from './errors';
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default 3) */
+  retries?: number;
+  /** First backoff step in ms (default 300) */
+  baseDelayMs?: number;
+  /** Longest single wait in ms (default 4000) */
+  maxDelayMs?: number;
+}
+
+/** Longest server-requested wait worth sitting through */
+const MAX_RETRY_AFTER_MS = 15_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a read, retrying transient failures. Errors are rethrown as DataErrors.
+ * - `read` must start a fresh request on every call.
+ */
+export async function withRetry<T>(read: () => PromiseLike<T>, opts: RetryOptions = {}): Promise<T> {
+  const retries = opts.retries ?? 3;
+  const base = opts.baseDelayMs ?? 300;
+  const max = opts.maxDelayMs ?? 4000;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await read();
+    } catch (e: unknown) {
+      const error = toDataError(e);
+      if (!error.retryable || attempt >= retries) throw error;
+      const backoff = Math.random() * Math.min(max, base * 2 ** attempt);
+      const retryAfter = error instanceof RateLimitedError ? error.retryAfterMs ?? 0 : 0;
+      if (retryAfter > MAX_RETRY_AFTER_MS) throw error;
+      await sleep(Math.max(backoff, retryAfter));
+    }
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Client-side search index
+ * - Purpose: Ranked, typo-tolerant search over small in-memory collections (the library catalog).
+ * - Each item is indexed on weighted text fields; text is split into words and camelCase parts, so
+ *   "StrepTestForm.pdf" is found by "strep", "test form" or "form".
+ * - Every query word must match some field (AND). Per word the best match counts:
+ *   exact word > word prefix > substring (3+ chars) > fuzzy (edit distance 1, or 2 for 8+ chars,
+ *   transpositions included). The score is the sum of match quality × field weight.
+ * - Hits carry character ranges per field for highlighting.
+ */
+
+/** [start, end) character range in a field's text */
+export type MatchRange = [number, number];
+
+/** How to read one searchable field from an item */
+export interface SearchField<T> {
+  get: (item: T) => string | undefined;
+  /** Relative importance (e.g., title 3, path 1) */
+  weight: number;
+}
+
+/** A ranked result */
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  /** Matched ranges per field name (merged, sorted) */
+  matches: Record<string, MatchRange[]>;
+}
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedField {
+  name: string;
+  weight: number;
+  tokens: Token[];
+}
+
+interface IndexedItem<T> {
+  item: T;
+  fields: IndexedField[];
+  /** Tie-breaker: shorter primary text first */
+  length: number;
+}
+
+/** Built index (rebuild when the items change) */
+export interface SearchIndex<T> {
+  items: IndexedItem<T>[];
+}
+
+/** Match quality per kind */
+const EXACT = 1;
+const PREFIX = 0.85;
+const SUBSTRING = 0.6;
+const FUZZY = 0.5;
+
+/**
+ * Split text into lowercase word tokens with their positions; mixed-case words also yield their
+ * camelCase parts ("StrepTest" -> "streptest", "strep", "test").
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const word of text.matchAll(/[A-Za-z0-9]+/g)) {
+    const start = word.index ?? 0;
+    tokens.push({ value: word[0].toLowerCase(), start, end: start + word[0].length });
+    const parts = Array.from(word[0].matchAll(/[A-Z]?[a-z]+|[A-Z]+(?![a-z])|\d+/g));
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const s = start + (part.index ?? 0);
+        tokens.push({ value: part[0].toLowerCase(), start: s, end: s + part[0].length });
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Smallest edit distance between `query` and any prefix of `word` (optimal string alignment),
+ * with the prefix length it was reached at. Gives up past `max`.
+ */
+function prefixDistance(query: string, word: string, max: number): { distance: number; length: number } | null {
+  const n = query.length;
+  const m = Math.min(word.length, n + max);
+  let prev2: number[] = [];
+  let prev = Array.from({ length: m + 1 }, (_, j) => j);
+  for (let i = 1; i <= n; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= m; j++) {
+      const cost = query[i - 1] === word[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && query[i - 1] === word[j - 2] && query[i - 2] === word[j - 1]) {
+        d = Math.min(d, prev2[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return null;
+    prev2 = prev;
+    prev = row;
+  }
+  // Lowest distance; among equals the prefix closest in length to the query (longer on a tie)
+  let best: { distance: number; length: number } | null = null;
+  for (let j = Math.max(1, n - max); j <= m; j++) {
+    if (prev[j] > max) continue;
+    const better =
+      !best ||
+      prev[j] < best.distance ||
+      (prev[j] === best.distance && Math.abs(j - n) <= Math.abs(best.length - n));
+    if (better) best = { distance: prev[j], length: j };
+  }
+  return best;
+}
+
+/**
+ * How well one query word matches one token (0 = no match) and which characters matched.
+ */
+function matchToken(query: string, token: Token): { quality: number; range: MatchRange } | null {
+  const word = token.value;
+  if (word === query) return { quality: EXACT, range: [token.start, token.end] };
+  if (word.startsWith(query)) return { quality: PREFIX, range: [token.start, token.start + query.length] };
+  if (query.length >= 3) {
+    const at = word.indexOf(query);
+    if (at >= 0) return { quality: SUBSTRING, range: [token.start + at, token.start + at + query.length] };
+  }
+  if (query.length >= 4) {
+    const max = query.length >= 8 ? 2 : 1;
+    const hit = prefixDistance(query, word, max);
+    if (hit) return { quality: FUZZY - 0.1 * (hit.distance - 1), range: [token.start, token.start + hit.length] };
+  }
+  return null;
+}
+
+/**
+ * Sort and merge overlapping ranges.
+ */
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const out: MatchRange[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else out.push([r[0], r[1]]);
+  }
+  return out;
+}
+
+/**
+ * Index items on the given fields. The first field is the primary one (used to break ties).
+ */
+export function buildSearchIndex<T>(items: T[], fields: Record<string, SearchField<T>>): SearchIndex<T> {
+  const names = Object.keys(fields);
+  return {
+    items: items.map((item) => {
+      const indexed = names.map((name) => ({
+        name,
+        weight: fields[name].weight,
+        tokens: tokenize(fields[name].get(item) ?? ''),
+      }));
+      return { item, fields: indexed, length: (fields[names[0]]?.get(item) ?? '').length };
+    }),
+  };
+}
+
+/**
+ * Search the index; best hits first.
+ * @param opts.limit maximum hits returned
+ */
+export function searchIndex<T>(index: SearchIndex<T>, query: string, opts: { limit?: number } = {}): SearchHit<T>[] {
+  const words = Array.from(new Set(query.toLowerCase().match(/[a-z0-9]+/g) ?? []));
+  if (!words.length) return [];
+
+  const hits: Array<SearchHit<T> & { length: number }> = [];
+  for (const entry of index.items) {
+    let score = 0;
+    const ranges: Record<string, MatchRange[]> = {};
+    let all = true;
+
+    for (const word of words) {
+      let best = 0;
+      const found: Array<{ field: string; range: MatchRange }> = [];
+      for (const field of entry.fields) {
+        for (const token of field.tokens) {
+          const m = matchToken(word, token);
+          if (!m) continue;
+          found.push({ field: field.name, range: m.range });
+          best = Math.max(best, m.quality * field.weight);
+        }
+      }
+      if (!best) {
+        all = false;
+        break;
+      }
+      score += best;
+      for (const f of found) (ranges[f.field] ??= []).push(f.range);
+    }
+    if (!all) continue;
+
+    const matches: Record<string, MatchRange[]> = {};
+    for (const [name, list] of Object.entries(ranges)) matches[name] = mergeRanges(list);
+    hits.push({ item: entry.item, score, matches, length: entry.length });
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.length - b.length);
+  const limited = opts.limit ? hits.slice(0, opts.limit) : hits;
+  return limited.map(({ item, score, matches }) => ({ item, score, matches }));
+}
@@ -1,31 +1,122 @@
-// src/lib/supabase.ts
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+/**
+ * Supabase data-access layer
+ * - Purpose: The app's only Supabase client (Auth, PostgREST, Storage, Edge Functions, Realtime) and the
+ *   typed helpers services use to reach it. Services import from here; nothing else creates clients or
+ *   builds auth headers.
+ * - URL/key come from config/supabaseConfig (env -> localStorage -> baked-in defaults), and the client is
+ *   created on first use, so importing this module never throws.
+ * - Requests carry the signed-in user's access token (the anon key when signed out), so RLS policies
+ *   see auth.uid() and auth.jwt().
+ * - Failures surface as typed DataErrors (lib/errors); reads go through read/readList, which retry
+ *   transient failures with backoff. Writes use unwrap and are never retried.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAnonKey, getSupabaseUrl } from '../config/supabaseConfig';
 import type { Database } from './database.types';
+import { toDataError } from './errors';
+import { withRetry } from './retry';
+
+export type { Database, Json } from './database.types';
+
+/** Table names in the public schema */
+export type TableName = keyof Database['public']['Tables'];
+/** Row type of a table */
+export type TableRow<T extends TableName> = Database['public']['Tables'][T]['Row'];
+/** Insert payload of a table */
+export type TableInsert<T extends TableName> = Database['public']['Tables'][T]['Insert'];
+/** Update payload of a table */
+export type TableUpdate<T extends TableName> = Database['public']['Tables'][T]['Update'];
+
+/** Storage bucket holding the resource library */
+export const STORAGE_BUCKET = 'clinicalrxqfiles';
+
+let client: SupabaseClient<Database> | null = null;
+
+/**
+ * Get or create the shared Supabase client.
+ * - Implicit flow: email links (verification, reset, magic link, team invites) must work in any browser.
+ */
+export function getSupabaseClient(): SupabaseClient<Database> {
+  if (!client) {
+    const url = getSupabaseUrl();
+    const key = getSupabaseAnonKey();
+    if (!url || !key) {
+      throw new Error('Supabase is not configured. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.');
+    }
+    client = createClient<Database>(url, key, {
+      auth: {
+        autoRefreshToken: true,
+        persistSession: true,
+        detectSessionInUrl: true,
+      },
+      realtime: {
+        params: {
+          eventsPerSecond: 10,
+        },
+      },
+    });
+  }
+  return client;
+}
+
+/**
+ * Typed query builder for a table (shorthand for getSupabaseClient().from(table)).
+ */
+export function fromTable<T extends TableName>(table: T) {
+  return getSupabaseClient().from(table);
+}
+
+/** Storage API for the resource library bucket */
+export function libraryBucket() {
+  return getSupabaseClient().storage.from(STORAGE_BUCKET);
+}
 
-// Environment configuration with fallbacks
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error(
-    'Missing Supabase environment variables. Please check VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file.'
-  );
-}
-
-// Singleton Supabase client
-export const supabase: SupabaseClient<Database> = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: true,
-    flowType: 'pkce'
-  },
-  realtime: {
-    params: {
-      eventsPerSecond: 10,
-    },
-  },
-});
-
-// Export client for consistent usage across app
-export default supabase;
+/** Minimal shape of a Supabase response ({ data, error } plus the HTTP status for PostgREST) */
+interface SupabaseResult<T> {
+  data: T | null;
+  error: { message: string; code?: string; status?: number } | null;
+  status?: number;
+}
+
+/**
+ * Unwrap a Supabase response, throwing a typed DataError (single place for data-layer errors).
+ */
+export async function unwrap<T>(request: PromiseLike<SupabaseResult<T>>): Promise<T | null> {
+  const { data, error, status } = await request;
+  if (error) throw toDataError({ ...error, message: error.message, status: error.status ?? status });
+  return data;
+}
+
+/**
+ * Unwrap a list response ([] when PostgREST returns no body).
+ */
+export async function unwrapList<T>(request: PromiseLike<SupabaseResult<T[]>>): Promise<T[]> {
+  return (await unwrap(request)) ?? [];
+}
+
+/**
+ * Idempotent read with retry/backoff on transient failures (network, 5xx, rate limit).
+ * - Pass a function that builds the query, so each attempt sends a fresh request.
+ */
+export function read<T>(query: () => PromiseLike<SupabaseResult<T>>): Promise<T | null> {
+  return withRetry(() => unwrap(query()));
+}
+
+/**
+ * Row count of a head/count query, with retry like read.
+ */
+export function readCount(query: () => PromiseLike<SupabaseResult<unknown> & { count: number | null }>): Promise<number> {
+  return withRetry(async () => {
+    const { count, error, status } = await query();
+    if (error) throw toDataError({ ...error, message: error.message, status: error.status ?? status });
+    return count ?? 0;
+  });
+}
+
+/**
+ * List variant of read ([] when PostgREST returns no body).
+ */
+export function readList<T>(query: () => PromiseLike<SupabaseResult<T[]>>): Promise<T[]> {
+  return withRetry(() => unwrapList(query()));
+}
@@ -0,0 +1,174 @@
+/**
+ * Supabase data source
+ * - Purpose: Live content backend (PostgREST tables, storage_files_catalog, Storage bucket listing).
+ * - Catalog reads are one prefix-OR query, paged with PostgREST Range headers: the common case (a whole
+ *   program tree or several of them) is a single round trip.
+ * - Every call is an idempotent read, retried with backoff on transient failures (lib/retry).
+ * - Catalog changes are pushed over Realtime (postgres_changes on storage_files_catalog); the table must be
+ *   in the supabase_realtime publication and readable by members under RLS. Deletes arrive unfiltered and
+ *   only name the removed file when the table uses REPLICA IDENTITY FULL; either way they refresh open pages.
+ * - Content search calls the search_file_text RPC over storage_files_text. The table, its RLS policy and the
+ *   function are not migrations here: their SQL is in the header of scripts/extract-text.mjs and has to be
+ *   applied by hand before "Inside documents" search works.
+ */
+
+import type {
+  CatalogChange,
+  CatalogRow,
+  ContentMatch,
+  ContentTable,
+  DataSource,
+  RowQuery,
+  StorageObject,
+} from './dataSource';
+import { toDataError } from './errors';
+import { withRetry } from './retry';
+import type { MatchRange } from './searchIndex';
+import { fromTable, getSupabaseClient, libraryBucket, readList, STORAGE_BUCKET, type TableRow } from './supabase';
+
+/** Rows per catalog page (PostgREST's default max-rows is 1000) */
+const CATALOG_PAGE_SIZE = 1000;
+
+/**
+ * One page of catalog rows matching an or= filter.
+ * - The first page also asks for the exact total.
+ */
+function catalogPage(orFilter: string, from: number, withCount: boolean) {
+  return fromTable('storage_files_catalog')
+    .select('*', withCount ? { count: 'exact' } : undefined)
+    .eq('bucket_name', STORAGE_BUCKET)
+    .or(orFilter)
+    .order('file_path', { ascending: true })
+    .setHeader('Range-Unit', 'items')
+    .setHeader('Range', `${from}-${from + CATALOG_PAGE_SIZE - 1}`);
+}
+
+/** Markers search_file_text puts around matched words (ts_headline StartSel/StopSel) */
+const SNIPPET_START = '⟦';
+const SNIPPET_STOP = '⟧';
+
+/**
+ * Strip ts_headline markers from a snippet, keeping where they were as ranges.
+ */
+function parseSnippet(marked: string): { snippet: string; ranges: MatchRange[] } {
+  let snippet = '';
+  const ranges: MatchRange[] = [];
+  let open = -1;
+  for (const ch of marked) {
+    if (ch === SNIPPET_START) open = snippet.length;
+    else if (ch === SNIPPET_STOP && open >= 0) {
+      ranges.push([open, snippet.length]);
+      open = -1;
+    } else snippet += ch;
+  }
+  return { snippet, ranges };
+}
+
+/** Untyped view of a PostgREST filter builder (selectRows is generic over the table) */
+interface RowFilterBuilder<R> extends PromiseLike<{ data: R[] | null; error: { message: string } | null }> {
+  eq(column: string, value: unknown): RowFilterBuilder<R>;
+  lte(column: string, value: unknown): RowFilterBuilder<R>;
+  or(filters: string): RowFilterBuilder<R>;
+  order(column: string, opts: { ascending: boolean }): RowFilterBuilder<R>;
+  limit(count: number): RowFilterBuilder<R>;
+}
+
+export const supabaseDataSource: DataSource = {
+  kind: 'supabase',
+
+  async selectRows<T extends ContentTable>(table: T, query: RowQuery<T> = {}): Promise<TableRow<T>[]> {
+    return readList(() => {
+      let request = fromTable(table).select('*') as unknown as RowFilterBuilder<TableRow<T>>;
+      for (const [column, value] of Object.entries(query.eq ?? {})) request = request.eq(column, value);
+      if (query.liveAt) {
+        const { start, end, at } = query.liveAt;
+        request = request.lte(start, at).or(`${end}.is.null,${end}.gt."${at}"`);
+      }
+      if (query.orderBy) request = request.order(query.orderBy, { ascending: query.ascending ?? true });
+      if (query.limit) request = request.limit(query.limit);
+      return request;
+    });
+  },
+
+  async listCatalog(prefixes: string[]) {
+    if (!prefixes.length) return [];
+    // Quoted so folder names with commas/parentheses can't break the or= syntax
+    const orFilter = prefixes.map((p) => `file_path.ilike."${p.replace(/(["\\])/g, '\\$1')}%"`).join(',');
+
+    const { data, count } = await withRetry(async () => {
+      const res = await catalogPage(orFilter, 0, true);
+      if (res.error) throw toDataError({ ...res.error, status: res.status });
+      return res;
+    });
+    const rows = data ?? [];
+
+    // Larger trees: fetch the remaining pages in parallel once the total is known
+    const total = count ?? rows.length;
+    if (total > rows.length) {
+      const offsets: number[] = [];
+      for (let from = rows.length; from < total; from += CATALOG_PAGE_SIZE) offsets.push(from);
+      const pages = await Promise.all(offsets.map((from) => readList(() => catalogPage(orFilter, from, false))));
+      for (const page of pages) rows.push(...page);
+    }
+    return rows;
+  },
+
+  async listStorage(prefix, page) {
+    return withRetry(async () => {
+      const { data, error } = await libraryBucket().list(prefix, {
+        limit: page.limit,
+        offset: page.offset,
+        sortBy: { column: 'name', order: 'asc' },
+      });
+      if (error) throw toDataError(error);
+      return (data ?? []) as StorageObject[];
+    });
+  },
+
+  publicUrl(path) {
+    return libraryBucket().getPublicUrl(path).data.publicUrl;
+  },
+
+  async signedUrl(path, expiresIn, opts = {}) {
+    return withRetry(async () => {
+      const { data, error } = await libraryBucket().createSignedUrl(path, expiresIn, {
+        download: opts.download ?? false,
+      });
+      if (error || !data) throw toDataError(error ?? { message: 'No signed URL returned.' });
+      return data.signedUrl;
+    });
+  },
+
+  async searchContent(query, opts) {
+    const rows = await readList(() =>
+      getSupabaseClient().rpc('search_file_text', { q: query, prefixes: opts.prefixes, max_results: opts.limit })
+    );
+    return rows.map((row): ContentMatch => ({ path: row.file_path, page: row.page, ...parseSnippet(row.snippet) }));
+  },
+
+  subscribeCatalog(onChange) {
+    const client = getSupabaseClient();
+    const table = { schema: 'public', table: 'storage_files_catalog' } as const;
+    const bucketFilter = `bucket_name=eq.${STORAGE_BUCKET}`;
+    const emit = (type: CatalogChange['type'], row: Partial<CatalogRow>) =>
+      onChange({ type, path: row.file_path ?? '' });
+    const channel = client
+      .channel('storage-files-catalog')
+      .on<CatalogRow>('postgres_changes', { event: 'INSERT', ...table, filter: bucketFilter }, (payload) =>
+        emit('insert', payload.new)
+      )
+      .on<CatalogRow>('postgres_changes', { event: 'UPDATE', ...table, filter: bucketFilter }, (payload) =>
+        emit('update', payload.new)
+      )
+      // Realtime can't filter deletes (the old row only carries the primary key unless the table uses
+      // REPLICA IDENTITY FULL), so subscribe unfiltered and skip rows known to be from another bucket.
+      .on<CatalogRow>('postgres_changes', { event: 'DELETE', ...table }, (payload) => {
+        if (payload.old.bucket_name && payload.old.bucket_name !== STORAGE_BUCKET) return;
+        emit('delete', payload.old);
+      })
+      .subscribe();
+    return () => {
+      void client.removeChannel(channel);
+    };
+  },
+};
@@ -0,0 +1,137 @@
+/**
+ * Accept Invitation page
+ * - Landing page for team invitation emails (/accept-invite?token=...).
+ * - The invite link signs the invited staff member in (detectSessionInUrl); they choose a name and
+ *   password for their own login, then join the pharmacy team via accept_team_invitation.
+ * - Existing members who open the link just confirm.
+ */
+
+import { useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router';
+import { Users } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { authService } from '../services/supabase';
+import { teamService } from '../services/team';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+
+/**
+ * Accept Invitation page component
+ */
+export default function AcceptInvite() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { isLoading, isAuthenticated, user, session, updatePassword, refreshUser } = useAuthStore();
+
+  const token = new URLSearchParams(location.search).get('token') || '';
+  // Accounts created by the invite have no password yet; existing members already have one
+  const needsPassword = !!session?.user.invited_at && !user?.organizationId;
+
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Save credentials (first visit), accept the invitation and enter the member area.
+   */
+  async function handleAccept(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (needsPassword && password.length < 8) {
+      setError('Password must be at least 8 characters.');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      if (needsPassword) {
+        await updatePassword(password);
+        if (firstName.trim() || lastName.trim()) {
+          await authService.updateProfile({ first_name: firstName.trim(), last_name: lastName.trim() });
+        }
+      }
+      await teamService.acceptInvitation(token);
+      await refreshUser();
+      navigate('/dashboard');
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Could not accept the invitation.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] w-full flex items-start justify-center py-10 px-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-blue-600" />
+              Join your pharmacy team
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-slate-600">Checking your invitation…</p>
+            ) : !token ? (
+              <p className="text-sm text-red-600">This invitation link is incomplete. Ask your pharmacy owner to resend it.</p>
+            ) : !isAuthenticated ? (
+              <div className="space-y-4 text-sm text-slate-700">
+                <p>Sign in with the email address the invitation was sent to, then open the link again.</p>
+                <Link to="/login">
+                  <Button>Go to login</Button>
+                </Link>
+              </div>
+            ) : (
+              <form className="space-y-4" onSubmit={handleAccept}>
+                <p className="text-sm text-slate-700">
+                  Signed in as <span className="font-medium">{user?.email}</span>.
+                </p>
+                {needsPassword ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="grid gap-2">
+                        <label htmlFor="invite-first" className="text-sm font-medium">
+                          First name
+                        </label>
+                        <Input id="invite-first" value={firstName} onChange={(e) => setFirstName(e.target.value)} autoComplete="given-name" />
+                      </div>
+                      <div className="grid gap-2">
+                        <label htmlFor="invite-last" className="text-sm font-medium">
+                          Last name
+                        </label>
+                        <Input id="invite-last" value={lastName} onChange={(e) => setLastName(e.target.value)} autoComplete="family-name" />
+                      </div>
+                    </div>
+                    <div className="grid gap-2">
+                      <label htmlFor="invite-password" className="text-sm font-medium">
+                        Choose a password
+                      </label>
+                      <Input
+                        id="invite-password"
+                        type="password"
+                        placeholder="At least 8 characters"
+                        autoComplete="new-password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                      />
+                    </div>
+                  </>
+                ) : null}
+
+                {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Joining…' : 'Accept invitation'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@
  * My Account page
  * - Updated to use AppShell with a fixed MemberSidebar (static frame on gated pages).
  * - Preserves previous content and breadcrumbs inside the AppShell content area.
+ * - Pharmacy Team card: owners manage staff seats and invitations.
+ * - Workstation Lock card: unlock PIN for shared counters.
+ * - Two-Factor card: authenticator app and recovery codes.
  */
 
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
@@ -13,6 +16,9 @@ import SafeText from '../components/common/SafeText';
 import Breadcrumbs from '../components/common/Breadcrumbs';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
+import TeamManagement from '../components/account/TeamManagement';
+import WorkstationLock from '../components/account/WorkstationLock';
+import TwoFactorSettings from '../components/account/TwoFactorSettings';
 
 export default function Account() {
   const { user } = useAuthStore();
@@ -28,7 +34,7 @@ export default function Account() {
         className="mb-2"
       />
       <div className="mb-1 text-2xl font-bold">My Account</div>
-      <div className="text-sm text-gray-600">Manage your profile and billing</div>
+      <div className="text-sm text-gray-600">Manage your profile, billing and pharmacy team</div>
     </div>
   );
 
@@ -115,6 +121,15 @@ export default function Account() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Two-factor authentication */}
+        <TwoFactorSettings />
+
+        {/* Pharmacy team */}
+        <TeamManagement />
+
+        {/* Shared workstation lock */}
+        <WorkstationLock />
       </div>
     </AppShell>
   );
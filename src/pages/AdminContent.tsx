@@ -0,0 +1,83 @@
+/**
+ * Admin Content page
+ * - Catalog file counts per library folder (global sets + each program), so admins can spot
+ *   empty or unsynced folders in storage_files_catalog.
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Badge } from '../components/ui/badge';
+import ErrorState from '../components/common/ErrorState';
+import AdminLayout from '../components/layout/AdminLayout';
+import { adminService } from '../services/admin';
+import { getProgramName, ProgramSlugs } from '../services/storageCatalog';
+
+/** Library folders shown on the page */
+const FOLDERS: Array<{ prefix: string; label: string }> = [
+  { prefix: 'patienthandouts/', label: 'Patient Handouts' },
+  { prefix: 'clinicalguidelines/', label: 'Clinical Guidelines' },
+  { prefix: 'medicalbilling/', label: 'Medical Billing' },
+  ...ProgramSlugs.map((slug) => ({ prefix: `${slug}/`, label: getProgramName(slug) })),
+];
+
+export default function AdminContent() {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  /** Bumped by Retry to reload */
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const values = await Promise.all(FOLDERS.map((f) => adminService.countCatalogFiles(f.prefix)));
+        if (!active) return;
+        setCounts(Object.fromEntries(FOLDERS.map((f, i) => [f.prefix, values[i]])));
+      } catch (e: unknown) {
+        if (active) setError(e);
+      } finally {
+        if (active) setLoading(false);
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [attempt]);
+
+  return (
+    <AdminLayout title="Content" subtitle="Files in the resource catalog by folder" crumbs={[{ label: 'Content' }]}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Library folders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-gray-600">Loading catalog…</p>
+          ) : error ? (
+            <ErrorState error={error} onRetry={() => setAttempt((n) => n + 1)} compact />
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {FOLDERS.map((f) => {
+                const count = counts[f.prefix] ?? 0;
+                return (
+                  <div key={f.prefix} className="flex items-center justify-between gap-3 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{f.label}</p>
+                      <p className="truncate font-mono text-xs text-gray-500">{f.prefix}</p>
+                    </div>
+                    <Badge variant={count === 0 ? 'destructive' : 'secondary'}>
+                      {count} {count === 1 ? 'file' : 'files'}
+                    </Badge>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Admin Members page
+ * - Searchable member directory (profiles) for support and account management.
+ */
+
+import { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Badge } from '../components/ui/badge';
+import ErrorState from '../components/common/ErrorState';
+import AdminLayout from '../components/layout/AdminLayout';
+import { adminService } from '../services/admin';
+import type { Profile } from '../services/supabase';
+
+export default function AdminMembers() {
+  const [search, setSearch] = useState('');
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  /** Bumped by Retry to reload */
+  const [attempt, setAttempt] = useState(0);
+
+  // Debounced search against profiles
+  useEffect(() => {
+    let active = true;
+    const timer = window.setTimeout(async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const rows = await adminService.listMembers(search);
+        if (active) setMembers(rows);
+      } catch (e: unknown) {
+        if (active) setError(e);
+      } finally {
+        if (active) setLoading(false);
+      }
+    }, 250);
+    return () => {
+      active = false;
+      window.clearTimeout(timer);
+    };
+  }, [search, attempt]);
+
+  return (
+    <AdminLayout title="Members" subtitle="Search member accounts" crumbs={[{ label: 'Members' }]}>
+      <div className="relative mb-4 max-w-md">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <Input
+          aria-label="Search members"
+          placeholder="Search by name, email or pharmacy"
+          className="pl-9"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <p className="p-4 text-sm text-gray-600">Loading members…</p>
+          ) : error ? (
+            <ErrorState error={error} onRetry={() => setAttempt((n) => n + 1)} compact />
+          ) : members.length === 0 ? (
+            <p className="p-4 text-sm text-gray-600">No members match your search.</p>
+          ) : (
+            <div className="divide-y">
+              {members.map((m) => {
+                const name = [m.first_name, m.last_name].filter(Boolean).join(' ') || m.email;
+                return (
+                  <div key={m.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{name}</p>
+                      <p className="truncate text-sm text-gray-600">
+                        {m.email}
+                        {m.pharmacy_name ? ` • ${m.pharmacy_name}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-3">
+                      {m.subscription_status ? <Badge variant="secondary">{m.subscription_status}</Badge> : null}
+                      <span className="text-xs text-gray-500">
+                        Joined {new Date(m.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </AdminLayout>
+  );
+}
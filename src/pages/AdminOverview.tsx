@@ -0,0 +1,71 @@
+/**
+ * Admin Overview page
+ * - Landing page of the /admin area: member and content totals with links into each tool.
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router';
+import { FolderCog, Users } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import ErrorState from '../components/common/ErrorState';
+import AdminLayout from '../components/layout/AdminLayout';
+import { adminService } from '../services/admin';
+
+export default function AdminOverview() {
+  const [members, setMembers] = useState<number | null>(null);
+  const [files, setFiles] = useState<number | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  /** Bumped by Retry to reload */
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        setError(null);
+        const [m, f] = await Promise.all([adminService.countMembers(), adminService.countCatalogFiles()]);
+        if (!active) return;
+        setMembers(m);
+        setFiles(f);
+      } catch (e: unknown) {
+        if (active) setError(e);
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [attempt]);
+
+  const cards = [
+    { to: '/admin/members', label: 'Members', value: members, Icon: Users, hint: 'Registered member profiles' },
+    { to: '/admin/content', label: 'Content', value: files, Icon: FolderCog, hint: 'Files in the resource catalog' },
+  ];
+
+  return (
+    <AdminLayout title="Admin" subtitle="Manage members and library content">
+      {error ? (
+        <div className="mb-4">
+          <ErrorState error={error} onRetry={() => setAttempt((n) => n + 1)} compact />
+        </div>
+      ) : null}
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        {cards.map(({ to, label, value, Icon, hint }) => (
+          <Link key={to} to={to} className="block">
+            <Card className="h-full transition-shadow hover:shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Icon className="h-5 w-5 text-blue-600" />
+                  {label}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{value ?? '—'}</div>
+                <p className="text-sm text-gray-600">{hint}</p>
+              </CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </AdminLayout>
+  );
+}
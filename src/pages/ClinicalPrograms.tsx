@@ -18,6 +18,7 @@ import {
 import { BookOpen, FileText, Zap, Award, Loader2 } from 'lucide-react';
 import Breadcrumbs from '../components/common/Breadcrumbs';
 import SafeText from '../components/common/SafeText';
+import ErrorState from '../components/common/ErrorState';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
 import {
@@ -53,7 +54,9 @@ function getProgramVisuals(level?: string) {
 export default function ClinicalPrograms() {
   const [programs, setPrograms] = useState<ProgramListItem[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  /** Bumped by Retry to reload */
+  const [attempt, setAttempt] = useState(0);
 
   /** Load program list (Supabase catalog, no API routes) */
   useEffect(() => {
@@ -64,7 +67,7 @@ export default function ClinicalPrograms() {
         const items = await listProgramsFromStorage();
         setPrograms(items || []);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load programs');
+        setError(err);
         // eslint-disable-next-line no-console
         console.error('Error loading programs (Supabase):', err);
       } finally {
@@ -72,7 +75,7 @@ export default function ClinicalPrograms() {
       }
     }
     load();
-  }, []);
+  }, [attempt]);
 
   /** Map DTO → UI model */
   const programUIItems: ProgramUIItem[] = useMemo(
@@ -151,10 +154,7 @@ export default function ClinicalPrograms() {
               <span className="ml-2 text-gray-600">Loading programs...</span>
             </div>
           ) : error ? (
-            <div className="py-12 text-center">
-              <div className="mb-2 text-red-600">Error loading programs</div>
-              <div className="text-gray-600">{error}</div>
-            </div>
+            <ErrorState error={error} onRetry={() => setAttempt((n) => n + 1)} title="Error loading programs" />
           ) : (
             <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
               {programUIItems.map((program) => {
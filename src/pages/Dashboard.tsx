@@ -1,7 +1,8 @@
 /**
  * Dashboard page (Airtable-free)
- * - Purpose: Removes AirtableStatus usage; keeps existing UI and mock data fetching via Api as-is.
- * - If Api relies on remote services, that is outside Airtable scope here.
+ * - Purpose: Member home: programs with real resource counts, quick access, bookmarks, recent activity and
+ *   announcements, all from the Dashboard Api (services/api).
+ * - Sections load independently: one failing source (e.g., activity while offline) leaves the others up.
  */
 
 import React, { useEffect, useMemo, useState } from 'react';
@@ -19,13 +20,24 @@ import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import {
+  Activity,
   ArrowRight,
+  CalendarCheck,
+  ClipboardCheck,
   Download,
+  Eye,
+  FileSpreadsheet,
   PlayCircle,
   FileText,
+  Star,
+  Stethoscope,
+  TestTubes,
 } from 'lucide-react';
 import { Link } from 'react-router';
 import MemberSidebar from '../components/layout/MemberSidebar';
+import { useEntitlements } from '../hooks/use-entitlements';
+import { ProgramSlugs, type ProgramSlug } from '../services/storageCatalog';
+import { openInViewer, type ViewerFile } from '../stores/viewerStore';
 
 /**
  * Helper: map string icon names to lucide-react components safely.
@@ -33,23 +45,23 @@ import MemberSidebar from '../components/layout/MemberSidebar';
 function iconByName(name?: string) {
   switch ((name || '').trim()) {
     case 'ClipboardCheck':
-      return require('lucide-react').ClipboardCheck;
+      return ClipboardCheck;
     case 'CalendarCheck':
-      return require('lucide-react').CalendarCheck;
+      return CalendarCheck;
     case 'Stethoscope':
-      return require('lucide-react').Stethoscope;
+      return Stethoscope;
     case 'Activity':
-      return require('lucide-react').Activity;
+      return Activity;
     case 'FileText':
-      return require('lucide-react').FileText;
+      return FileText;
     case 'FileSpreadsheet':
-      return require('lucide-react').FileSpreadsheet;
+      return FileSpreadsheet;
     case 'TestTubes':
-      return require('lucide-react').TestTubes;
+      return TestTubes;
     case 'PlayCircle':
-      return require('lucide-react').PlayCircle;
+      return PlayCircle;
     case 'Star':
-      return require('lucide-react').Star;
+      return Star;
     default:
       return ArrowRight;
   }
@@ -66,17 +78,25 @@ const StatChip: React.FC<{ label: string }> = ({ label }) => (
  * Quick access card component (compact, simplified)
  * - Shows icon + title + action button only.
  * - If the item is a video and duration is available, show a small duration line.
+ * - Library files open in the in-app viewer, stepping through `list` (the other tiles).
  */
-const QuickCard: React.FC<{ item: QuickAccessItem }> = ({ item }) => {
+const QuickCard: React.FC<{ item: QuickAccessItem; list: ViewerFile[] }> = ({ item, list }) => {
   const Icon = iconByName(item.icon);
   const isVideo = (item as any)?.mediaType === 'video' || item.cta === 'Watch';
   const duration = (item as any)?.duration as string | undefined;
 
+  const path = item.path;
+
   const content = isVideo ? (
     <>
       <PlayCircle className="mr-2 h-3.5 w-3.5" />
       Watch
     </>
+  ) : path ? (
+    <>
+      <Eye className="mr-2 h-3.5 w-3.5" />
+      View
+    </>
   ) : (
     <>
       <Download className="mr-2 h-3.5 w-3.5" />
@@ -96,7 +116,15 @@ const QuickCard: React.FC<{ item: QuickAccessItem }> = ({ item }) => {
         ) : null}
       </CardHeader>
       <CardContent>
-        {item.url ? (
+        {path ? (
+          <Button
+            variant="secondary"
+            className="h-8 w-full px-3"
+            onClick={() => openInViewer({ path, title: item.title }, list)}
+          >
+            {content}
+          </Button>
+        ) : item.url ? (
           <a href={item.url} target="_blank" rel="noreferrer">
             <Button variant="secondary" className="h-8 w-full px-3">
               {content}
@@ -119,42 +147,72 @@ const QuickCard: React.FC<{ item: QuickAccessItem }> = ({ item }) => {
  */
 export default function Dashboard() {
   const { member } = useAuth();
+  const { programs: entitledPrograms } = useEntitlements();
   const [programs, setPrograms] = useState<ClinicalProgram[]>([]);
   const [quick, setQuick] = useState<QuickAccessItem[]>([]);
   const [bookmarks, setBookmarks] = useState<ResourceItem[]>([]);
   const [activity, setActivity] = useState<RecentActivity[]>([]);
   const [ann, setAnn] = useState<Announcement[]>([]);
 
+  /** Entitled programs in ProgramSlugs order (string key keeps the quick access effect stable) */
+  const entitledKey = ProgramSlugs.filter((slug) => entitledPrograms.has(slug)).join(',');
+
   /**
-   * Load dashboard data in parallel.
+   * Load dashboard data in parallel; each section settles on its own.
    */
   useEffect(() => {
     let mounted = true;
-    async function load() {
-      try {
-        const [p, q, b, a, an] = await Promise.all([
-          Api.getPrograms(),
-          Api.getQuickAccess(),
-          Api.getBookmarkedResources(),
-          Api.getRecentActivity(),
-          Api.getAnnouncements(),
-        ]);
-        if (!mounted) return;
-        setPrograms(p);
-        setQuick(q);
-        setBookmarks(b);
-        setActivity(a);
-        setAnn(an);
-      } catch (e) {
+    const keep = <T,>(set: (value: T) => void) => (value: T) => {
+      if (mounted) set(value);
+    };
+    const report = (label: string) => (e: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error(`Error loading dashboard ${label}:`, e);
+    };
+    Api.getBookmarkedResources().then(keep(setBookmarks), report('bookmarks'));
+    Api.getRecentActivity().then(keep(setActivity), report('recent activity'));
+    Api.getAnnouncements().then(keep(setAnn), report('announcements'));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  /** Program cards and quick access depend on the member's programs (only their files are fetched) */
+  useEffect(() => {
+    let mounted = true;
+    const slugs = (entitledKey ? entitledKey.split(',') : []) as ProgramSlug[];
+    Api.getPrograms(slugs).then(
+      (items) => {
+        if (mounted) setPrograms(items);
+      },
+      (e: unknown) => {
         // eslint-disable-next-line no-console
-        console.error('Error loading dashboard data:', e);
+        console.error('Error loading dashboard programs:', e);
       }
-    }
-    load();
+    );
+    Api.getQuickAccess(slugs).then(
+      (items) => {
+        if (mounted) setQuick(items);
+      },
+      (e: unknown) => {
+        // eslint-disable-next-line no-console
+        console.error('Error loading dashboard quick access:', e);
+      }
+    );
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [entitledKey]);
+
+  /** Library files on the dashboard, for the viewer's Next/Previous */
+  const quickFiles = useMemo(
+    () => quick.flatMap((q): ViewerFile[] => (q.path ? [{ path: q.path, title: q.title }] : [])),
+    [quick]
+  );
+  const bookmarkFiles = useMemo(
+    () => bookmarks.flatMap((b): ViewerFile[] => (b.path ? [{ path: b.path, title: b.name }] : [])),
+    [bookmarks]
+  );
 
   /** Compute subscription color chip */
   const subColor = useMemo(() => {
@@ -215,7 +273,7 @@ export default function Dashboard() {
                         <CardTitle className="text-sm">{p.name}</CardTitle>
                       </div>
                       <Badge variant="secondary" className="text-[11px]">
-                        {p.resourceCount} resources
+                        {p.locked ? 'Not in your plan' : `${p.resourceCount} resources`}
                       </Badge>
                     </div>
                     <div className="text-[12px] text-slate-500">
@@ -235,11 +293,17 @@ export default function Dashboard() {
       {/* Quick access */}
       <section className="mb-6">
         <h2 className="mb-2.5 text-base font-semibold">Quick Access</h2>
-        <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-4">
-          {quick.map((q) => (
-            <QuickCard key={q.id} item={q} />
-          ))}
-        </div>
+        {quick.length === 0 ? (
+          <div className="rounded-md border border-dashed p-4 text-[13px] text-slate-600">
+            Protocol manuals and training videos from your programs will appear here.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-4">
+            {quick.map((q) => (
+              <QuickCard key={q.id} item={q} list={quickFiles} />
+            ))}
+          </div>
+        )}
       </section>
 
       {/* Bookmarked resources */}
@@ -264,6 +328,7 @@ export default function Dashboard() {
                 String((b as any)?.type || '').toLowerCase() === 'video' ||
                 (b.url || '').toLowerCase().match(/\\.(mp4|mov|m4v|webm)$/) != null;
               const duration = (b as any)?.duration as string | undefined;
+              const path = b.path;
 
               return (
                 <Card key={b.id} className="hover:shadow-sm">
@@ -281,7 +346,21 @@ export default function Dashboard() {
                     ) : null}
                   </CardHeader>
                   <CardContent>
-                    {b.url ? (
+                    {path ? (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="h-8 w-full px-3"
+                        onClick={() => openInViewer({ path, title: b.name }, bookmarkFiles)}
+                      >
+                        {isVideo ? (
+                          <PlayCircle className="mr-2 h-3.5 w-3.5" />
+                        ) : (
+                          <Eye className="mr-2 h-3.5 w-3.5" />
+                        )}
+                        {isVideo ? 'Watch' : 'View'}
+                      </Button>
+                    ) : b.url ? (
                       <a href={b.url} target="_blank" rel="noreferrer">
                         <Button size="sm" variant="secondary" className="h-8 w-full px-3">
                           <Download className="mr-2 h-3.5 w-3.5" />
@@ -313,12 +392,18 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="divide-y">
+                {activity.length === 0 ? (
+                  <div className="py-2 text-[13px] text-slate-600">
+                    Nothing yet. Files you open from programs and the Resource Library will show up here.
+                  </div>
+                ) : null}
                 {activity.map((a) => (
                   <div key={a.id} className="flex items-center justify-between py-2">
                     <div>
                       <div className="text-[13px] font-medium">{a.name}</div>
                       <div className="text-[12px] text-slate-500">
-                        {a.program?.toUpperCase()} • {new Date(a.accessedAtISO).toLocaleString()}
+                        {a.program ? `${a.program.toUpperCase()} • ` : ''}
+                        {new Date(a.accessedAtISO).toLocaleString()}
                       </div>
                     </div>
                     {a.url ? (
@@ -350,6 +435,7 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
+                {ann.length === 0 ? <div className="text-[13px] text-slate-600">No announcements right now.</div> : null}
                 {ann.map((an) => (
                   <div key={an.id} className="rounded-md border p-2.5">
                     <div className="text-[13px] font-semibold">{an.title}</div>
@@ -0,0 +1,57 @@
+/**
+ * FileOpen page
+ * - Purpose: Landing point for /file/<storage path> links handed out when the library bucket is private.
+ * - Signs a short-lived URL for the signed-in member and replaces this tab with it, so bookmarked or
+ *   copied links keep working after earlier signed URLs expired (and only for members).
+ * - ?download=1 asks for the file as an attachment; ?page=N opens a PDF at that page.
+ */
+
+import { useEffect, useState } from 'react';
+import { useLocation } from 'react-router';
+import ErrorState from '../components/common/ErrorState';
+import { NotFoundError } from '../lib/errors';
+import { pathFromFileRoute, resolveFileUrl, withPage } from '../services/fileAccess';
+
+export default function FileOpen() {
+  const location = useLocation();
+  const [error, setError] = useState<unknown>(null);
+  /** Bumped by Retry to sign again */
+  const [attempt, setAttempt] = useState(0);
+
+  const path = pathFromFileRoute(location.pathname);
+  const params = new URLSearchParams(location.search);
+  const download = params.get('download') === '1';
+  const page = Number(params.get('page')) || null;
+
+  useEffect(() => {
+    if (!path) {
+      setError(new NotFoundError('Missing file path.'));
+      return;
+    }
+    let active = true;
+    setError(null);
+    resolveFileUrl(path, { download })
+      .then((url) => {
+        if (active) window.location.replace(withPage(url, page));
+      })
+      .catch((e: unknown) => {
+        if (active) setError(e);
+      });
+    return () => {
+      active = false;
+    };
+  }, [path, download, page, attempt]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4">
+      {error ? (
+        <ErrorState error={error} onRetry={() => setAttempt((n) => n + 1)} title="Couldn’t open this file" />
+      ) : (
+        <div className="flex items-center text-slate-600">
+          <div className="h-6 w-6 animate-spin rounded-full border-4 border-slate-300 border-t-slate-900"></div>
+          <span className="ml-3">Opening {path?.split('/').pop() ?? 'file'}…</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Forgot Password page
+ * - Requests a Supabase password reset email; the link lands on /reset-password.
+ * - Always shows the same confirmation so the form doesn't reveal which emails have accounts.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router';
+import { MailCheck } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+
+/**
+ * Forgot Password page component
+ */
+export default function ForgotPassword() {
+  const { requestPasswordReset } = useAuthStore();
+
+  const [email, setEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Send the reset link.
+   */
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await requestPasswordReset(email.trim());
+      setSent(true);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] w-full flex items-start justify-center py-10 px-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Reset your password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sent ? (
+              <div className="space-y-4 text-sm text-slate-700">
+                <p className="flex items-start gap-2">
+                  <MailCheck className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+                  If an account exists for {email.trim()}, a reset link is on its way. The link expires in one hour.
+                </p>
+                <Link to="/login" className="text-xs text-blue-700 hover:underline">
+                  Back to login
+                </Link>
+              </div>
+            ) : (
+              <form className="space-y-4" onSubmit={handleSubmit}>
+                <div className="grid gap-2">
+                  <label htmlFor="forgot-email" className="text-sm font-medium">
+                    Email address
+                  </label>
+                  <Input
+                    id="forgot-email"
+                    type="email"
+                    placeholder="you@example.com"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+
+                {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+                <div className="flex items-center justify-between">
+                  <Link to="/login" className="text-xs text-blue-700 hover:underline">
+                    Back to login
+                  </Link>
+                  <Button type="submit" disabled={submitting}>
+                    {submitting ? 'Sending…' : 'Send reset link'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -3,15 +3,20 @@
  * - Calls the zustand auth store's login(email, password) correctly.
  * - Navigates to /dashboard only on successful authentication.
  * - Shows an inline error message on invalid credentials.
- * - Enhancement: Adds an invisible alt+click bypass area below the login card for quick access in demos.
+ * - Links to password reset (/forgot-password) and passwordless sign-in (/magic-link).
+ * - Accounts with two-factor authentication get the OTP challenge as a second step (also shown when a
+ *   guarded route is opened with a session that hasn't passed it yet).
+ * - Offline fixture mode shows the demo credentials.
  */
 
 import { useState } from 'react';
-import { useNavigate } from 'react-router';
+import { Link, useLocation, useNavigate } from 'react-router';
 import { useAuthStore } from '../stores/authStore';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
+import TwoFactorChallenge from '../components/auth/TwoFactorChallenge';
+import { isFixtureMode } from '../lib/dataSource';
 
 /** Simple form state for email/password */
 interface LoginForm {
@@ -26,7 +31,9 @@ interface LoginForm {
  */
 export default function Login() {
   const navigate = useNavigate();
-  const { login } = useAuthStore();
+  const location = useLocation();
+  const { login, isAuthenticated, mfa } = useAuthStore();
+  const challenge = isAuthenticated && mfa.challengePending;
 
   const [form, setForm] = useState<LoginForm>({ email: '', password: '' });
   const [submitting, setSubmitting] = useState(false);
@@ -43,9 +50,10 @@ export default function Login() {
     try {
       const ok = await login(form.email.trim(), form.password);
       if (ok) {
-        navigate('/dashboard');
+        // With 2FA the store now reports a pending challenge and the OTP step renders instead
+        if (!useAuthStore.getState().mfa.challengePending) navigate('/dashboard');
       } else {
-        setError('Invalid credentials. Use demo@clinicalrxq.com and password.');
+        setError('Invalid email or password.');
       }
     } catch {
       setError('Something went wrong. Please try again.');
@@ -55,20 +63,11 @@ export default function Login() {
   }
 
   /**
-   * Secret bypass: Invisible alt+click area below the card.
-   * - Only triggers when the Alt key is pressed during the click.
-   * - Uses the same login flow with demo credentials for consistency.
+   * After the OTP step: leave /login for the dashboard. When a route guard rendered this page,
+   * the requested page appears by itself, so the route is kept.
    */
-  async function handleSecretBypass(e: React.MouseEvent<HTMLAnchorElement>) {
-    e.preventDefault();
-    if (!e.altKey || submitting) return;
-    try {
-      setSubmitting(true);
-      const ok = await login('demo@clinicalrxq.com', 'password');
-      if (ok) navigate('/dashboard');
-    } finally {
-      setSubmitting(false);
-    }
+  function handleVerified() {
+    if (location.pathname === '/login') navigate('/dashboard');
   }
 
   return (
@@ -76,57 +75,75 @@ export default function Login() {
       <div className="w-full max-w-md">
         <Card>
           <CardHeader>
-            <CardTitle>Member Login</CardTitle>
+            <CardTitle>{challenge ? 'Two-factor verification' : 'Member Login'}</CardTitle>
           </CardHeader>
           <CardContent>
-            <form className="space-y-4" onSubmit={handleSubmit}>
-              <div className="grid gap-2">
-                <label className="text-sm font-medium">Email address</label>
-                <Input
-                  type="email"
-                  placeholder="you@example.com"
-                  value={form.email}
-                  onChange={(e) => setForm((s) => ({ ...s, email: e.target.value }))}
-                  required
-                />
-              </div>
-              <div className="grid gap-2">
-                <label className="text-sm font-medium">Password</label>
-                <Input
-                  type="password"
-                  placeholder="••••••••"
-                  value={form.password}
-                  onChange={(e) => setForm((s) => ({ ...s, password: e.target.value }))}
-                  required
-                />
-              </div>
+            {challenge ? (
+              <TwoFactorChallenge onVerified={handleVerified} />
+            ) : (
+              <>
+                {isFixtureMode() ? (
+                  <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900">
+                    Offline demo mode: sign in as demo@clinicalrxq.test (password demo1234). More demo members are
+                    listed in fixtures/data/users.json.
+                  </div>
+                ) : null}
+                <form className="space-y-4" onSubmit={handleSubmit}>
+                  <div className="grid gap-2">
+                    <label htmlFor="login-email" className="text-sm font-medium">
+                      Email address
+                    </label>
+                    <Input
+                      id="login-email"
+                      type="email"
+                      autoComplete="email"
+                      placeholder="you@example.com"
+                      value={form.email}
+                      onChange={(e) => setForm((s) => ({ ...s, email: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="login-password" className="text-sm font-medium">
+                        Password
+                      </label>
+                      <Link to="/forgot-password" className="text-xs text-blue-700 hover:underline">
+                        Forgot password?
+                      </Link>
+                    </div>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      autoComplete="current-password"
+                      placeholder="••••••••"
+                      value={form.password}
+                      onChange={(e) => setForm((s) => ({ ...s, password: e.target.value }))}
+                      required
+                    />
+                  </div>
 
-              {error ? (
-                <div className="text-xs text-red-600">{error}</div>
-              ) : (
-                <p className="text-xs text-slate-500">
-                  Demo credentials: demo@clinicalrxq.com / password
-                </p>
-              )}
+                  {error ? <div className="text-xs text-red-600">{error}</div> : null}
 
-              <Button type="submit" disabled={submitting}>
-                {submitting ? 'Signing in…' : 'Sign in'}
-              </Button>
-            </form>
+                  <div className="flex items-center justify-between">
+                    <Button type="submit" disabled={submitting}>
+                      {submitting ? 'Signing in…' : 'Sign in'}
+                    </Button>
+                    <Link to="/magic-link" className="text-xs text-blue-700 hover:underline">
+                      Email me a sign-in link
+                    </Link>
+                  </div>
+                </form>
+                <p className="mt-4 text-xs text-slate-600">
+                  New pharmacy?{' '}
+                  <Link to="/register" className="text-blue-700 hover:underline">
+                    Create an account
+                  </Link>
+                </p>
+              </>
+            )}
           </CardContent>
         </Card>
-
-        {/* Invisible alt+click link area (demo bypass).
-           - It's visually hidden (opacity-0) but clickable.
-           - Place cursor below the login card and Alt+click to bypass. */}
-        <a
-          href="#"
-          aria-hidden="true"
-          onClick={handleSecretBypass}
-          className="block mt-2 h-5 w-full opacity-0 pointer-events-auto select-none"
-        >
-          bypass
-        </a>
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+/**
+ * Magic Link page
+ * - Passwordless sign-in: emails a one-time link that lands on /dashboard.
+ * - The session in the link is picked up by the Supabase client (detectSessionInUrl).
+ * - Only existing accounts receive a link; new pharmacies register via /register.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router';
+import { MailCheck } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+
+/**
+ * Magic Link page component
+ */
+export default function MagicLink() {
+  const { sendMagicLink } = useAuthStore();
+
+  const [email, setEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Send the sign-in link.
+   */
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await sendMagicLink(email.trim());
+      setSent(true);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] w-full flex items-start justify-center py-10 px-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Email me a sign-in link</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sent ? (
+              <div className="space-y-4 text-sm text-slate-700">
+                <p className="flex items-start gap-2">
+                  <MailCheck className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+                  Check {email.trim()} for a sign-in link. Open it on this device to continue.
+                </p>
+                <Button variant="outline" className="bg-transparent" onClick={() => setSent(false)}>
+                  Use a different email
+                </Button>
+              </div>
+            ) : (
+              <form className="space-y-4" onSubmit={handleSubmit}>
+                <div className="grid gap-2">
+                  <label htmlFor="magic-email" className="text-sm font-medium">
+                    Email address
+                  </label>
+                  <Input
+                    id="magic-email"
+                    type="email"
+                    placeholder="you@example.com"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+
+                {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+                <div className="flex items-center justify-between">
+                  <Link to="/login" className="text-xs text-blue-700 hover:underline">
+                    Sign in with password
+                  </Link>
+                  <Button type="submit" disabled={submitting}>
+                    {submitting ? 'Sending…' : 'Send link'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,20 @@
  * ProgramDetail page (Supabase-only, storage_files_catalog backed)
  * - Purpose: Display a single clinical program by slug with grouped resources:
  *   Overview, Training Modules, Protocol Manuals, Documentation Forms, Additional Resources.
- * - Data: Supabase Storage via storageCatalog.getProgramResourcesGrouped (no Airtable).
+ * - Data: Supabase Storage via storageCatalog.getProgramResourcesGrouped (no Airtable), through the shared
+ *   catalog query cache (useProgramResources), so revisits render from cache and refresh in the background.
  * - Layout: Blue→cyan gradient hero with glassmorphism container, then a horizontal Tabs nav.
  * - UX: Dense, full-width rows using ProgramResourceRow inside each tab; URL sync via ?tab=.
+ * - Rows sort by name, last update, size or type (?sort=) and are virtualized for long folders.
+ * - Bulk download: tick rows for "Download selected", or "Download all" for a tab, as one ZIP that keeps the
+ *   program's folder structure (services/zipDownload).
+ * - Overview offers a printable binder PDF of the protocols and forms (ProgramBinderCard).
+ * - Folders tab: the program's files by storage folder (FolderBrowser); the open folder is kept in ?dir=.
+ * - Access: Programs outside the member's entitlements show UpgradeRequired and are not fetched.
+ * - Live: catalog changes pushed while the page is open refresh the tabs in place (useCatalogLiveUpdates).
  */
 
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router';
 import { Card, CardContent } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
@@ -16,27 +24,41 @@ import { Link } from 'react-router';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '../components/ui/tabs';
 import Breadcrumbs from '../components/common/Breadcrumbs';
 import SafeText from '../components/common/SafeText';
+import ErrorState from '../components/common/ErrorState';
+import IncompleteListingNotice from '../components/common/IncompleteListingNotice';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
-import ProgramResourceRow from '../components/resources/ProgramResourceRow';
-import {
-  getProgramResourcesGrouped,
-  ProgramSlugs,
-  listProgramsFromStorage,
-  type ProgramSlug,
-} from '../services/storageCatalog';
-import type { StorageFileItem } from '../services/supabaseStorage';
+import ProgramResourceRow, { PROGRAM_ROW_HEIGHT } from '../components/resources/ProgramResourceRow';
+import SortSelect, { BEST_MATCH } from '../components/resources/SortSelect';
+import VirtualList from '../components/common/VirtualList';
+import FolderBrowser, { FOLDER_PARAM } from '../components/resources/FolderBrowser';
+import BulkDownloadBar from '../components/resources/BulkDownloadBar';
+import ProgramBinderCard from '../components/resources/ProgramBinderCard';
+import UpgradeRequired from '../components/auth/UpgradeRequired';
+import { useEntitlements } from '../hooks/use-entitlements';
+import { useProgramResources } from '../hooks/use-catalog';
+import { useCatalogLiveUpdates } from '../hooks/use-catalog-live';
+import { useFileSortParam } from '../hooks/use-file-sort';
+import { useFileSelection } from '../hooks/use-file-selection';
+import { useZipDownload } from '../hooks/use-zip-download';
+import { sortFiles } from '../services/fileSort';
+import { getFolderLabel, getProgramName, ProgramSlugs, type ProgramSlug } from '../services/storageCatalog';
+import type { StorageFileItem, StorageListFailure } from '../services/supabaseStorage';
+
+/** Stable empty group (keeps memoized counts/name stable before data arrives) */
+const EMPTY: StorageFileItem[] = [];
+const EMPTY_FAILURES: StorageListFailure[] = [];
 
 /**
  * Tab identifiers for the ProgramDetail page
  */
-type ProgramTab = 'overview' | 'training' | 'protocols' | 'forms' | 'resources';
+type ProgramTab = 'overview' | 'training' | 'protocols' | 'forms' | 'resources' | 'folders';
 
 /**
  * Normalize a query param value to a valid ProgramTab, or fallback to 'overview'.
  */
 function normalizeTab(tab: string): ProgramTab {
-  if (['overview', 'training', 'protocols', 'forms', 'resources'].includes(tab)) {
+  if (['overview', 'training', 'protocols', 'forms', 'resources', 'folders'].includes(tab)) {
     return tab as ProgramTab;
   }
   return 'overview';
@@ -49,15 +71,61 @@ export default function ProgramDetail() {
   const { programSlug } = useParams<{ programSlug: string }>();
   const location = useLocation();
   const navigate = useNavigate();
+  const { canAccess, planName } = useEntitlements();
+  const [sortParam, setSort] = useFileSortParam();
+  const sort = sortParam ?? 'name';
+  const selection = useFileSelection();
+  const zip = useZipDownload();
+
+  const knownSlug = !!programSlug && ProgramSlugs.includes(programSlug as ProgramSlug);
+  /** Known slug the member's plan doesn't include */
+  const locked = knownSlug && !canAccess(programSlug as ProgramSlug);
+
+  // Locked programs render the upgrade screen; don't fetch their files
+  const query = useProgramResources(knownSlug && !locked ? (programSlug as ProgramSlug) : null);
+  // Admin uploads show up without a reload (rows highlight new files)
+  useCatalogLiveUpdates();
+  const grouped = query.data?.items;
+  /** Storage folders the fallback listing couldn't read (the tabs then show a partial list) */
+  const listingFailures = query.data?.failures ?? EMPTY_FAILURES;
+  const loading = query.isLoading;
+  // A failed background refresh keeps showing the cached files
+  const err = programSlug && !knownSlug ? `Unknown program: ${programSlug}` : null;
+  const loadError = !grouped ? query.error : undefined;
+
+  const training = grouped?.training ?? EMPTY;
+  const protocols = grouped?.protocols ?? EMPTY;
+  const forms = grouped?.forms ?? EMPTY;
+  const resources = grouped?.resources ?? EMPTY;
+  const description = ''; // Storage doesn't have descriptions per se
+
+  /** Every file of the program, for the folder view */
+  const allFiles = useMemo(
+    () => [...training, ...protocols, ...forms, ...resources],
+    [training, protocols, forms, resources]
+  );
+
+  /** Ticked files across all tabs */
+  const selectedFiles = useMemo(
+    () => allFiles.filter((f) => selection.selected.has(f.path)),
+    [allFiles, selection.selected]
+  );
 
-  const [loading, setLoading] = useState(true);
-  const [err, setErr] = useState<string | null>(null);
-  const [name, setName] = useState<string>('');
-  const [description, setDescription] = useState<string>('');
-  const [training, setTraining] = useState<StorageFileItem[]>([]);
-  const [protocols, setProtocols] = useState<StorageFileItem[]>([]);
-  const [forms, setForms] = useState<StorageFileItem[]>([]);
-  const [resources, setResources] = useState<StorageFileItem[]>([]);
+  /** Program name derived from storage (first protocol or training title, fallback to slug) */
+  const name = useMemo(() => {
+    if (!programSlug) return '';
+    if (locked) return getProgramName(programSlug);
+    let programName = programSlug.replace(/[_-]/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+    const firstFile = protocols[0] || training[0];
+    if (firstFile && firstFile.title) {
+      // Extract program name from file title (heuristic)
+      const parts = firstFile.title.split(/[:-]/);
+      if (parts.length > 1) {
+        programName = parts[0].trim();
+      }
+    }
+    return programName;
+  }, [programSlug, locked, protocols, training]);
 
   /** Current tab from URL query param */
   const currentTab = useMemo(() => {
@@ -76,63 +144,6 @@ export default function ProgramDetail() {
     [training, protocols, forms, resources]
   );
 
-  /**
-   * Load program data on mount
-   */
-  useEffect(() => {
-    let mounted = true;
-
-    async function load() {
-      if (!programSlug) return;
-
-      try {
-        setLoading(true);
-        setErr(null);
-
-        // Check if this is a valid slug
-        if (!ProgramSlugs.includes(programSlug as ProgramSlug)) {
-          throw new Error(`Unknown program: ${programSlug}`);
-        }
-
-        // Load resources
-        const grouped = await getProgramResourcesGrouped(programSlug as ProgramSlug);
-
-        // Derive program name from storage (first protocol or resource, fallback to slug)
-        let programName = programSlug.replace(/[_-]/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
-
-        // Try to get a better name from actual files
-        if (grouped.protocols.length > 0 || grouped.training.length > 0) {
-          const firstFile = grouped.protocols[0] || grouped.training[0];
-          if (firstFile && firstFile.title) {
-            // Extract program name from file title (heuristic)
-            const parts = firstFile.title.split(/[:-]/);
-            if (parts.length > 1) {
-              programName = parts[0].trim();
-            }
-          }
-        }
-
-        if (mounted) {
-          setName(programName);
-          setDescription(''); // Storage doesn't have descriptions per se
-          setTraining(grouped.training);
-          setProtocols(grouped.protocols);
-          setForms(grouped.forms);
-          setResources(grouped.resources);
-        }
-      } catch (e: any) {
-        if (mounted) setErr(e?.message || 'Failed to load program.');
-      } finally {
-        if (mounted) setLoading(false);
-      }
-    }
-
-    load();
-    return () => {
-      mounted = false;
-    };
-  }, [programSlug]);
-
   /**
    * Handle tab change by writing it into the URL (?tab=...)
    */
@@ -140,13 +151,14 @@ export default function ProgramDetail() {
     const tab = normalizeTab(next);
     const qs = new URLSearchParams(location.search);
     qs.set('tab', tab);
+    if (tab !== 'folders') qs.delete(FOLDER_PARAM);
     navigate({ pathname: location.pathname, search: qs.toString() }, { replace: false });
   }
 
   /**
    * Render list rows for a group, or an empty state (dense style)
    */
-  function renderRows(items: StorageFileItem[], emptyHint: string) {
+  function renderRows(items: StorageFileItem[], label: string, emptyHint: string) {
     if (items.length === 0) {
       return (
         <div className="rounded-md border border-dashed bg-white p-6 text-center text-sm text-slate-600">
@@ -154,12 +166,39 @@ export default function ProgramDetail() {
         </div>
       );
     }
+    const sorted = sortFiles(items, sort);
     return (
-      <div className="space-y-3">
-        {items.map((i) => (
-          <ProgramResourceRow key={i.path} item={i} />
-        ))}
-      </div>
+      <>
+        <BulkDownloadBar
+          files={sorted}
+          selectedFiles={selectedFiles}
+          selection={selection}
+          zip={zip}
+          selectedName={`${name} - selected.zip`}
+          allName={`${name} - ${label}.zip`}
+          root={programSlug}
+        >
+          <SortSelect
+            value={sort}
+            onChange={(next) => setSort(next === 'name' || next === BEST_MATCH ? null : next)}
+          />
+        </BulkDownloadBar>
+        <VirtualList
+          items={sorted}
+          rowHeight={PROGRAM_ROW_HEIGHT}
+          getKey={(i) => i.path}
+          renderRow={(i) => (
+            <div className="pb-3">
+              <ProgramResourceRow
+                item={i}
+                list={sorted}
+                selected={selection.selected.has(i.path)}
+                onSelectChange={(on) => selection.toggle(i.path, on)}
+              />
+            </div>
+          )}
+        />
+      </>
     );
   }
 
@@ -169,45 +208,46 @@ export default function ProgramDetail() {
       <section className="relative -mx-3 bg-gradient-to-br from-blue-700 via-cyan-500 to-teal-300 px-3 py-10 text-white">
         {/* Remove max-width constraint to achieve full width between sidebar and viewport edge */}
         <div className="w-full">
-            <Breadcrumbs
-              variant="light"
-              items={[
-                { label: 'Dashboard', to: '/dashboard' },
-                { label: 'Clinical Programs', to: '/member-content' },
-                { label: name || 'Program' },
-              ]}
-              className="mb-4"
-            />
+          <Breadcrumbs
+            variant="light"
+            items={[
+              { label: 'Dashboard', to: '/dashboard' },
+              { label: 'Clinical Programs', to: '/member-content' },
+              { label: name || 'Program' },
+            ]}
+            className="mb-4"
+          />
 
-            {/* Glassmorphism container */}
-            <div className="rounded-xl border border-white/25 bg-white/10 p-10 shadow-lg backdrop-blur-md align-center">
-              <h1 className="text-3xl font-bold leading-tight">
-                <SafeText value={name} />
-              </h1>
-              <div className="mt-3 flex flex-wrap items-center gap-2">
-                <Badge variant="secondary" className="bg-white/20 text-white hover:bg-white/30">
-                  Supabase Storage • storage_files_catalog
-                </Badge>
-                {!loading ? (
-                  <span className="text-xs text-white/80">
-                    {counts.training} training • {counts.protocols} protocols • {counts.forms} forms • {counts.resources}{' '}
-                    resources
-                  </span>
-                ) : null}
-              </div>
-              {description ? (
-                <p className="mt-3 max-w-3xl text-sm text-white/90">
-                  <SafeText value={description} />
-                </p>
+          {/* Glassmorphism container */}
+          <div className="rounded-xl border border-white/25 bg-white/10 p-10 shadow-lg backdrop-blur-md align-center">
+            <h1 className="text-3xl font-bold leading-tight">
+              <SafeText value={name} />
+            </h1>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <Badge variant="secondary" className="bg-white/20 text-white hover:bg-white/30">
+                Supabase Storage • storage_files_catalog
+              </Badge>
+              {!loading && !locked ? (
+                <span className="text-xs text-white/80">
+                  {counts.training} training • {counts.protocols} protocols • {counts.forms} forms • {counts.resources}{' '}
+                  resources
+                </span>
               ) : null}
             </div>
+            {description ? (
+              <p className="mt-3 max-w-3xl text-sm text-white/90">
+                <SafeText value={description} />
+              </p>
+            ) : null}
           </div>
         </div>
       </section>
 
       {/* Loading or error */}
       <section className="py-6">
-        {loading ? (
+        {locked ? (
+          <UpgradeRequired programName={name || getProgramName(programSlug ?? '')} planName={planName} />
+        ) : loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="h-8 w-8 animate-spin rounded-full border-4 border-slate-300 border-t-slate-900"></div>
             <span className="ml-3 text-slate-600">Loading program...</span>
@@ -222,13 +262,24 @@ export default function ProgramDetail() {
               </Button>
             </Link>
           </div>
+        ) : loadError ? (
+          <ErrorState
+            error={loadError}
+            // The failure is recorded on the query and shown here
+            onRetry={() => void query.refresh().catch(() => undefined)}
+            title="Failed to load program"
+          />
         ) : (
           <div className="max-w-6xl">
+            <IncompleteListingNotice
+              failures={listingFailures}
+              onRetry={() => void query.refresh().catch(() => undefined)}
+            />
             <Card className="border border-slate-300 bg-white shadow-sm">
               <CardContent className="p-0">
                 <Tabs value={currentTab} onValueChange={handleTabChange}>
                   {/* Horizontal navigation */}
-                  <TabsList className="grid w-full grid-cols-5 rounded-none border-b bg-slate-50">
+                  <TabsList className="grid w-full grid-cols-6 rounded-none border-b bg-slate-50">
                     <TabsTrigger value="overview" className="rounded-none">
                       Overview
                     </TabsTrigger>
@@ -244,6 +295,9 @@ export default function ProgramDetail() {
                     <TabsTrigger value="resources" className="rounded-none">
                       Resources ({counts.resources})
                     </TabsTrigger>
+                    <TabsTrigger value="folders" className="rounded-none">
+                      Folders
+                    </TabsTrigger>
                   </TabsList>
 
                   {/* Overview */}
@@ -282,27 +336,42 @@ export default function ProgramDetail() {
                           <div className="text-slate-600">Resources</div>
                         </div>
                       </div>
+
+                      <ProgramBinderCard programName={name} protocols={protocols} forms={forms} />
                     </div>
                   </TabsContent>
 
                   {/* Training */}
                   <TabsContent value="training" className="px-4 py-4">
-                    {renderRows(training, 'No training modules available yet.')}
+                    {renderRows(training, 'Training', 'No training modules available yet.')}
                   </TabsContent>
 
                   {/* Protocols */}
                   <TabsContent value="protocols" className="px-4 py-4">
-                    {renderRows(protocols, 'No protocol manuals available yet.')}
+                    {renderRows(protocols, 'Protocols', 'No protocol manuals available yet.')}
                   </TabsContent>
 
                   {/* Forms */}
                   <TabsContent value="forms" className="px-4 py-4">
-                    {renderRows(forms, 'No documentation forms available yet.')}
+                    {renderRows(forms, 'Forms', 'No documentation forms available yet.')}
                   </TabsContent>
 
                   {/* Additional Resources */}
                   <TabsContent value="resources" className="px-4 py-4">
-                    {renderRows(resources, 'No additional resources available yet.')}
+                    {renderRows(resources, 'Resources', 'No additional resources available yet.')}
+                  </TabsContent>
+
+                  {/* Folders */}
+                  <TabsContent value="folders" className="px-4 py-4">
+                    <FolderBrowser
+                      items={allFiles}
+                      rootPath={programSlug}
+                      rootLabel={name}
+                      folderLabel={getFolderLabel}
+                      emptyHint="No files available yet."
+                      sort={sort}
+                      onSortChange={(next) => setSort(next === 'name' ? null : next)}
+                    />
                   </TabsContent>
                 </Tabs>
               </CardContent>
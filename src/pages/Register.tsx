@@ -0,0 +1,287 @@
+/**
+ * Member Registration page
+ * - Collects pharmacist and pharmacy details and creates a Supabase Auth account.
+ * - The pharmacy must pass NPI (and optional NCPDP) verification before the form submits (a form check,
+ *   not enforced server-side; see services/npiLookup).
+ * - Sign-up sends a verification email; the member lands on /login after following the link.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router';
+import { BadgeCheck, MailCheck, ShieldAlert } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { authService } from '../services/supabase';
+import { verifyPharmacy, type PharmacyVerification } from '../services/npiLookup';
+import type { RegistrationData } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+
+/** Form state (registration payload + password confirmation) */
+type RegisterForm = RegistrationData & { confirmPassword: string };
+
+const EMPTY_FORM: RegisterForm = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  password: '',
+  confirmPassword: '',
+  licenseNumber: '',
+  phone: '',
+  pharmacyName: '',
+  npi: '',
+  ncpdp: '',
+  address: '',
+  city: '',
+  state: '',
+  zip: '',
+};
+
+/**
+ * Labeled input row
+ */
+function Field({
+  id,
+  label,
+  value,
+  onChange,
+  type = 'text',
+  required,
+  placeholder,
+  autoComplete,
+}: {
+  id: keyof RegisterForm;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  type?: string;
+  required?: boolean;
+  placeholder?: string;
+  autoComplete?: string;
+}) {
+  return (
+    <div className="grid gap-2">
+      <label htmlFor={`register-${id}`} className="text-sm font-medium">
+        {label}
+        {required ? <span className="text-red-600"> *</span> : null}
+      </label>
+      <Input
+        id={`register-${id}`}
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        autoComplete={autoComplete}
+        onChange={(e) => onChange(e.target.value)}
+        required={required}
+      />
+    </div>
+  );
+}
+
+/**
+ * Registration page component
+ */
+export default function Register() {
+  const { register } = useAuthStore();
+
+  const [form, setForm] = useState<RegisterForm>(EMPTY_FORM);
+  const [verification, setVerification] = useState<PharmacyVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [resent, setResent] = useState(false);
+
+  /** Update a field; editing NPI/NCPDP invalidates a previous verification */
+  function update(field: keyof RegisterForm, value: string) {
+    setForm((s) => ({ ...s, [field]: value }));
+    if (field === 'npi' || field === 'ncpdp') setVerification(null);
+  }
+
+  /**
+   * Run the pharmacy lookup and prefill the pharmacy name/location when empty.
+   */
+  async function handleVerify() {
+    setVerifying(true);
+    setError(null);
+    try {
+      const result = await verifyPharmacy({ npi: form.npi, ncpdp: form.ncpdp });
+      setVerification(result);
+      if (result.status === 'verified' && result.record) {
+        const r = result.record;
+        setForm((s) => ({
+          ...s,
+          pharmacyName: s.pharmacyName || r.name,
+          city: s.city || r.city || '',
+          state: s.state || r.state || '',
+          ncpdp: s.ncpdp || r.ncpdp || '',
+        }));
+      }
+    } catch (e: unknown) {
+      setVerification(null);
+      setError(e instanceof Error ? e.message : 'Pharmacy lookup failed. Please try again.');
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  /**
+   * Create the account once the pharmacy is verified.
+   */
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (form.password.length < 8) {
+      setError('Password must be at least 8 characters.');
+      return;
+    }
+    if (form.password !== form.confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+    if (verification?.status !== 'verified') {
+      setError('Please verify your pharmacy NPI before creating the account.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { confirmPassword: _confirm, ...data } = form;
+      const email = data.email.trim();
+      await register({ ...data, email, npi: data.npi.replace(/\D/g, ''), ncpdp: data.ncpdp?.replace(/\D/g, '') });
+      setSentTo(email);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Registration failed. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  /** Re-send the verification email */
+  async function handleResend() {
+    if (!sentTo) return;
+    try {
+      await authService.resendVerification(sentTo, `${window.location.origin}/login`);
+      setResent(true);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Could not resend the email.');
+    }
+  }
+
+  if (sentTo) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] w-full flex items-start justify-center py-10 px-4">
+        <div className="w-full max-w-md">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MailCheck className="h-5 w-5 text-blue-600" />
+                Check your email
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm text-slate-700">
+              <p>
+                We sent a verification link to <span className="font-medium">{sentTo}</span>. Follow the link to
+                activate your account, then sign in.
+              </p>
+              {error ? <div className="text-xs text-red-600">{error}</div> : null}
+              <div className="flex items-center gap-2">
+                <Button variant="outline" className="bg-transparent" onClick={handleResend} disabled={resent}>
+                  {resent ? 'Email sent' : 'Resend email'}
+                </Button>
+                <Link to="/login">
+                  <Button>Go to login</Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const verified = verification?.status === 'verified';
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] w-full flex items-start justify-center py-10 px-4">
+      <div className="w-full max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>Create Member Account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {/* Pharmacist */}
+              <section className="space-y-4">
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-500">Pharmacist</h2>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <Field id="firstName" label="First name" value={form.firstName} onChange={(v) => update('firstName', v)} required autoComplete="given-name" />
+                  <Field id="lastName" label="Last name" value={form.lastName} onChange={(v) => update('lastName', v)} required autoComplete="family-name" />
+                  <Field id="email" label="Email address" type="email" value={form.email} onChange={(v) => update('email', v)} required placeholder="you@example.com" autoComplete="email" />
+                  <Field id="phone" label="Phone" type="tel" value={form.phone ?? ''} onChange={(v) => update('phone', v)} autoComplete="tel" />
+                  <Field id="licenseNumber" label="Pharmacist license #" value={form.licenseNumber ?? ''} onChange={(v) => update('licenseNumber', v)} />
+                </div>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <Field id="password" label="Password" type="password" value={form.password} onChange={(v) => update('password', v)} required placeholder="At least 8 characters" autoComplete="new-password" />
+                  <Field id="confirmPassword" label="Confirm password" type="password" value={form.confirmPassword} onChange={(v) => update('confirmPassword', v)} required autoComplete="new-password" />
+                </div>
+              </section>
+
+              {/* Pharmacy */}
+              <section className="space-y-4">
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-500">Pharmacy</h2>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <Field id="npi" label="Pharmacy NPI" value={form.npi} onChange={(v) => update('npi', v)} required placeholder="10 digits" />
+                  <Field id="ncpdp" label="NCPDP ID" value={form.ncpdp ?? ''} onChange={(v) => update('ncpdp', v)} placeholder="7 digits (optional)" />
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="bg-transparent"
+                    onClick={handleVerify}
+                    disabled={verifying || !form.npi.trim()}
+                  >
+                    {verifying ? 'Verifying…' : 'Verify pharmacy'}
+                  </Button>
+                  {verification ? (
+                    <span
+                      className={[
+                        'inline-flex items-center gap-1 text-xs',
+                        verified ? 'text-green-700' : 'text-red-600',
+                      ].join(' ')}
+                    >
+                      {verified ? <BadgeCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+                      {verification.message}
+                    </span>
+                  ) : null}
+                </div>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <Field id="pharmacyName" label="Pharmacy name" value={form.pharmacyName} onChange={(v) => update('pharmacyName', v)} required autoComplete="organization" />
+                  <Field id="address" label="Street address" value={form.address ?? ''} onChange={(v) => update('address', v)} autoComplete="street-address" />
+                  <Field id="city" label="City" value={form.city ?? ''} onChange={(v) => update('city', v)} autoComplete="address-level2" />
+                  <div className="grid grid-cols-2 gap-4">
+                    <Field id="state" label="State" value={form.state ?? ''} onChange={(v) => update('state', v)} autoComplete="address-level1" />
+                    <Field id="zip" label="ZIP" value={form.zip ?? ''} onChange={(v) => update('zip', v)} autoComplete="postal-code" />
+                  </div>
+                </div>
+              </section>
+
+              {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+              <div className="flex items-center justify-between">
+                <Link to="/login" className="text-xs text-blue-700 hover:underline">
+                  Already a member? Sign in
+                </Link>
+                <Button type="submit" disabled={submitting || !verified}>
+                  {submitting ? 'Creating account…' : 'Create account'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
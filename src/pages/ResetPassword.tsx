@@ -0,0 +1,127 @@
+/**
+ * Reset Password page
+ * - Landing page for Supabase password reset links.
+ * - The recovery token arrives in the URL and is exchanged by the client (detectSessionInUrl),
+ *   which emits PASSWORD_RECOVERY → authStore.passwordRecovery.
+ * - Expired/invalid links show the error from the URL and a way to request a new one.
+ */
+
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router';
+import { useAuthStore } from '../stores/authStore';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+
+/**
+ * Read an error description from the redirect URL (hash or query), if any.
+ */
+function readLinkError(): string | null {
+  if (typeof window === 'undefined') return null;
+  const hash = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const query = new URLSearchParams(window.location.search);
+  const desc = hash.get('error_description') || query.get('error_description');
+  return desc ? desc.replace(/\+/g, ' ') : null;
+}
+
+/**
+ * Reset Password page component
+ */
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const { isLoading, isAuthenticated, passwordRecovery, updatePassword } = useAuthStore();
+
+  // Captured on first render, before the Supabase client consumes the URL fragment
+  const [linkError] = useState<string | null>(readLinkError);
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Save the new password and continue into the member area.
+   */
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters.');
+      return;
+    }
+    if (password !== confirm) {
+      setError('Passwords do not match.');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await updatePassword(password);
+      navigate('/dashboard');
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Could not update your password.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const canReset = passwordRecovery || isAuthenticated;
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] w-full flex items-start justify-center py-10 px-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Choose a new password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-slate-600">Checking your reset link…</p>
+            ) : !canReset ? (
+              <div className="space-y-4 text-sm text-slate-700">
+                <p className="text-red-600">{linkError || 'This reset link is invalid or has expired.'}</p>
+                <Link to="/forgot-password">
+                  <Button>Request a new link</Button>
+                </Link>
+              </div>
+            ) : (
+              <form className="space-y-4" onSubmit={handleSubmit}>
+                <div className="grid gap-2">
+                  <label htmlFor="reset-password" className="text-sm font-medium">
+                    New password
+                  </label>
+                  <Input
+                    id="reset-password"
+                    type="password"
+                    placeholder="At least 8 characters"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <label htmlFor="reset-confirm" className="text-sm font-medium">
+                    Confirm new password
+                  </label>
+                  <Input
+                    id="reset-confirm"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirm}
+                    onChange={(e) => setConfirm(e.target.value)}
+                    required
+                  />
+                </div>
+
+                {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Saving…' : 'Save password'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,26 @@
 /**
  * Resource Library page
  * - Restored inside AppShell + MemberSidebar.
- * - Filters sync with URL query (?cat=handouts|clinical|billing) so sidebar links work.
- * - Minimal results list (icon + name + one action).
+ * - Facets: multi-select category, program, file type and sub-folder (lib/facets) with live counts.
+ *   The selection lives in the URL (?cat=handouts,clinical&program=hba1c&type=pdf&folder=forms), so a
+ *   filtered view can be bookmarked or shared; the sidebar's ?cat=handouts links keep working.
+ * - Minimal results list (icon + name + size/date, View/Play in the in-app viewer + Download), sortable (?sort=) and virtualized for large views.
+ * - Folders view (?view=folders&dir=...): the same results as a collapsible storage folder tree with breadcrumbs
+ *   (components/resources/FolderBrowser), e.g. handouts by condition.
  * - Data source: Supabase storage-backed helpers (storageCatalog). No serverless dependency.
+ * - Program files are limited to the programs in the member's plan (useEntitlements).
+ * - Data comes from the shared catalog query cache (use-catalog), so revisits render instantly.
+ * - Live: catalog changes pushed while the page is open refresh the list and highlight new files.
+ * - Search: ranked, typo-tolerant matching (lib/searchIndex) over the whole library whatever filters are set;
+ *   hits inside the active facets come first, and members can opt in to seeing only those. Matches are
+ *   highlighted in the title and the program/folder line.
+ * - "Inside documents" mode searches the text extracted from PDFs/DOCX (scripts/extract-text.mjs) and shows
+ *   matching snippets with their page; opening a hit shows the document at that page.
+ * - List rows can be ticked (kept across filter changes) and downloaded together as one ZIP.
  */
 
-import { useEffect, useMemo, useState } from 'react';
-import { useLocation, useNavigate } from 'react-router';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router';
 import { Card, CardContent } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -20,15 +33,66 @@ import {
   Play,
   Download,
   Search,
+  Eye,
+  List,
+  FolderTree,
 } from 'lucide-react';
+import ErrorState from '../components/common/ErrorState';
+import IncompleteListingNotice from '../components/common/IncompleteListingNotice';
+import Highlight from '../components/common/Highlight';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
+import { useEntitlements } from '../hooks/use-entitlements';
+import { useContentSearch, useGlobalCategory, useProgramsResources } from '../hooks/use-catalog';
 import {
+  getFolderLabel,
+  getProgramName,
+  ProgramCategoryLabels,
   ProgramSlugs,
-  getProgramResourcesGrouped,
+  type DocumentMatch,
+  type ProgramCategory,
   type ProgramSlug,
-  getGlobalCategory,
 } from '../services/storageCatalog';
+import { buildSearchIndex, searchIndex, type MatchRange } from '../lib/searchIndex';
+import {
+  applyFacets,
+  facetCounts,
+  toggleFacet,
+  type FacetCounts,
+  type FacetDef,
+  type FacetSelection,
+} from '../lib/facets';
+import { Api } from '../services/api';
+import { useCatalogLiveUpdates } from '../hooks/use-catalog-live';
+import { useCatalogUpdatesStore } from '../stores/catalogUpdatesStore';
+import FileLink from '../components/resources/FileLink';
+import NewFileBadge from '../components/resources/NewFileBadge';
+import FolderBrowser, { FOLDER_PARAM } from '../components/resources/FolderBrowser';
+import { openInViewer, type ViewerFile } from '../stores/viewerStore';
+import SortSelect, { BEST_MATCH } from '../components/resources/SortSelect';
+import VirtualList from '../components/common/VirtualList';
+import BulkDownloadBar from '../components/resources/BulkDownloadBar';
+import type { StorageFileItem } from '../services/supabaseStorage';
+import { FILE_TYPE_LABELS, fileTypeOf, sortFiles, type FileType } from '../services/fileSort';
+import { useFileSortParam } from '../hooks/use-file-sort';
+import { useFileSelection } from '../hooks/use-file-selection';
+import { useZipDownload } from '../hooks/use-zip-download';
+import { formatFileSize, formatShortDate } from '../lib/format';
+
+/** Library categories (the global top-level folders; program files are one category) */
+type LibraryCategory = 'handouts' | 'clinical' | 'billing' | 'programs';
+
+/** Facet keys (also the URL parameter names) */
+type FacetKey = 'cat' | 'program' | 'type' | 'folder';
+
+const FACET_KEYS: FacetKey[] = ['cat', 'program', 'type', 'folder'];
+
+const CATEGORY_LABELS: Record<LibraryCategory, string> = {
+  handouts: 'Patient Handouts',
+  clinical: 'Clinical Guidelines',
+  billing: 'Medical Billing',
+  programs: 'Program Files',
+};
 
 /** Unified shape for items rendered in results */
 interface ResultItem {
@@ -36,11 +100,123 @@ interface ResultItem {
   name: string;
   url?: string;
   mimeType?: string;
-  source: 'global' | 'program';
+  cat: LibraryCategory;
+  /** Library folder label, e.g. "Patient Handouts" or "Protocol Manuals" */
+  category: string;
+  /** Program name for program files */
+  program?: string;
+  programSlug?: ProgramSlug;
+  fileType: FileType;
+  /** Sub-folder below the top-level folder (lowercase), e.g. "forms" */
+  folder?: string;
+  /** The catalog item (sorting, folder view) */
+  file: StorageFileItem;
+}
+
+/** Search results shown at most */
+const MAX_SEARCH_RESULTS = 200;
+
+/** Height of a results row (VirtualList) */
+const RESULT_ROW_HEIGHT = 61;
+
+/**
+ * Display label for a sub-folder facet value.
+ */
+function folderLabel(folder: string): string {
+  return (
+    ProgramCategoryLabels[folder as ProgramCategory] ??
+    folder.replace(/[_-]+/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase())
+  );
+}
+
+/**
+ * Map catalog items to ResultItems.
+ * @param folder sub-folder for every item (program categories); otherwise taken from the path
+ */
+function mapItems(
+  items: StorageFileItem[] | undefined,
+  cat: LibraryCategory,
+  category: string,
+  programSlug?: ProgramSlug,
+  folder?: string
+): ResultItem[] {
+  return (items ?? []).map((i) => {
+    const parts = i.path.split('/');
+    return {
+      id: i.path,
+      name: i.title,
+      url: i.url,
+      mimeType: i.mimeType,
+      cat,
+      category,
+      program: programSlug ? getProgramName(programSlug) : undefined,
+      programSlug,
+      fileType: fileTypeOf(i),
+      folder: folder ?? (parts.length > 2 ? parts[1].toLowerCase() : undefined),
+      file: i,
+    };
+  });
+}
+
+/** Facets over library items */
+const FACET_DEFS: Record<FacetKey, FacetDef<ResultItem>> = {
+  cat: { get: (r) => r.cat },
+  program: { get: (r) => r.programSlug },
+  type: { get: (r) => r.fileType },
+  folder: { get: (r) => r.folder },
+};
+
+/** Fields the library search looks at (title first: it breaks ties) */
+const SEARCH_FIELDS = {
+  title: { get: (r: ResultItem) => r.name, weight: 3 },
+  program: { get: (r: ResultItem) => r.program, weight: 2 },
+  category: { get: (r: ResultItem) => r.category, weight: 2 },
+  path: { get: (r: ResultItem) => r.id, weight: 1 },
+};
+
+/** What the search box looks at */
+type SearchMode = 'titles' | 'content';
+
+/** How results are laid out: one list, or by storage folder (?view=folders) */
+type ResultsView = 'list' | 'folders';
+
+/** Shortest query sent to content search */
+const MIN_CONTENT_QUERY = 2;
+/** Pause in typing before a content search runs */
+const CONTENT_SEARCH_DEBOUNCE_MS = 300;
+
+/** Row to render, with highlight ranges when searching */
+interface ResultRow {
+  item: ResultItem;
+  matches?: Record<string, MatchRange[]>;
+}
+
+/** Quick filter cards: each one is a preset facet selection */
+const PRESETS: Record<string, Partial<FacetSelection<FacetKey>>> = {
+  all: {},
+  handouts: { cat: ['handouts'] },
+  clinical: { cat: ['clinical'] },
+  billing: { cat: ['billing'] },
+  programs: { cat: ['programs'] },
+  videos: { type: ['video'] },
+};
+
+/**
+ * Full selection from a preset (unset facets empty).
+ */
+function presetSelection(preset: Partial<FacetSelection<FacetKey>>): FacetSelection<FacetKey> {
+  return { cat: [], program: [], type: [], folder: [], ...preset };
 }
 
-/** Supported filters */
-type FilterKey = 'all' | 'handouts' | 'clinical' | 'billing' | 'program' | 'videos';
+/**
+ * True when the selection is exactly the preset.
+ */
+function isPreset(selection: FacetSelection<FacetKey>, preset: Partial<FacetSelection<FacetKey>>): boolean {
+  const full = presetSelection(preset);
+  return FACET_KEYS.every(
+    (k) => selection[k].length === full[k].length && selection[k].every((v) => full[k].includes(v))
+  );
+}
 
 /** Determine if a URL or mime represents a video. */
 function isVideo({ url, mimeType }: { url?: string; mimeType?: string }): boolean {
@@ -64,45 +240,74 @@ function FileKindIcon({ isVid }: { isVid: boolean }) {
 }
 
 /**
- * SidebarCheckboxFilters
- * - Purpose: Compact, grouped checkbox filters shown in the sidebar.
- * - Behavior: Single-select model mapped to the page's FilterKey (clicking any checkbox sets that filter).
- * - Groups:
- *   - Global categories: Patient handouts, Clinical guidelines, Medical billing
- *   - Content types: Program files, Videos
- * - Change: Adds "Clear Filters" action and removes "All resources" row (reset only via the action).
+ * FacetSidebar
+ * - Purpose: Multi-select checkbox facets with live counts.
+ * - Groups: Category, Program (the member's programs), File type, Folder. Values with no matching
+ *   files are hidden unless selected.
  */
-function SidebarCheckboxFilters({
-  value,
-  onChange,
+function FacetSidebar({
+  selection,
+  counts,
+  programs,
+  onToggle,
+  onClear,
 }: {
-  value: FilterKey;
-  onChange: (next: FilterKey) => void;
+  selection: FacetSelection<FacetKey>;
+  counts: FacetCounts<FacetKey>;
+  programs: readonly ProgramSlug[];
+  onToggle: (key: FacetKey, value: string) => void;
+  onClear: () => void;
 }) {
   /** Render one checkbox row */
-  function Row({
-    label,
-    checked,
-    onClick,
-  }: {
-    label: string;
-    checked: boolean;
-    onClick: () => void;
-  }) {
+  function Row({ facet, value, label }: { facet: FacetKey; value: string; label: string }) {
+    const checked = selection[facet].includes(value);
+    const count = counts[facet].get(value) ?? 0;
     return (
       <label className="flex cursor-pointer items-center gap-2 rounded-md px-1 py-1 hover:bg-slate-50">
         <input
           type="checkbox"
           className="h-4 w-4 rounded border-slate-300 text-blue-600"
           checked={checked}
-          onChange={onClick}
-          aria-checked={checked}
+          onChange={() => onToggle(facet, value)}
         />
-        <span className="text-sm text-slate-700">{label}</span>
+        <span className={`flex-1 text-sm ${count || checked ? 'text-slate-700' : 'text-slate-400'}`}>{label}</span>
+        <span className="text-xs tabular-nums text-slate-500">{count}</span>
       </label>
     );
   }
 
+  /** Values worth listing: with matches, or selected */
+  const visible = (facet: FacetKey, values: string[]) =>
+    values.filter((v) => (counts[facet].get(v) ?? 0) > 0 || selection[facet].includes(v));
+
+  const groups: Array<{ facet: FacetKey; title: string; rows: Array<{ value: string; label: string }> }> = [
+    {
+      facet: 'cat',
+      title: 'Category',
+      rows: (Object.keys(CATEGORY_LABELS) as LibraryCategory[]).map((v) => ({ value: v, label: CATEGORY_LABELS[v] })),
+    },
+    {
+      facet: 'program',
+      title: 'Program',
+      rows: visible('program', [...programs]).map((v) => ({ value: v, label: getProgramName(v) })),
+    },
+    {
+      facet: 'type',
+      title: 'File type',
+      rows: visible('type', Object.keys(FILE_TYPE_LABELS)).map((v) => ({
+        value: v,
+        label: FILE_TYPE_LABELS[v as FileType],
+      })),
+    },
+    {
+      facet: 'folder',
+      title: 'Folder',
+      rows: visible('folder', Array.from(new Set([...counts.folder.keys(), ...selection.folder])))
+        .sort((a, b) => folderLabel(a).localeCompare(folderLabel(b)))
+        .map((v) => ({ value: v, label: folderLabel(v) })),
+    },
+  ];
+
   return (
     <div className="space-y-4" aria-label="Content filters">
       {/* Top action bar with Clear Filters */}
@@ -110,7 +315,7 @@ function SidebarCheckboxFilters({
         <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Filters</div>
         <button
           type="button"
-          onClick={() => onChange('all')}
+          onClick={onClear}
           className="rounded px-2 py-1 text-xs text-blue-700 hover:bg-blue-50"
           aria-label="Clear all filters"
         >
@@ -118,47 +323,64 @@ function SidebarCheckboxFilters({
         </button>
       </div>
 
-      <div>
-        <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
-          Global categories
-        </div>
-        <div className="space-y-1">
-          {/* Removed "All resources" row per request */}
-          <Row
-            label="Patient handouts"
-            checked={value === 'handouts'}
-            onClick={() => onChange('handouts')}
-          />
-          <Row
-            label="Clinical guidelines"
-            checked={value === 'clinical'}
-            onClick={() => onChange('clinical')}
-          />
-          <Row
-            label="Medical billing"
-            checked={value === 'billing'}
-            onClick={() => onChange('billing')}
-          />
-        </div>
-      </div>
+      {groups
+        .filter((g) => g.rows.length)
+        .map((g) => (
+          <div key={g.facet}>
+            <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">{g.title}</div>
+            <div className="space-y-1">
+              {g.rows.map((r) => (
+                <Row key={r.value} facet={g.facet} value={r.value} label={r.label} />
+              ))}
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
 
-      <div>
-        <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
-          Content types
-        </div>
-        <div className="space-y-1">
-          <Row
-            label="Program files"
-            checked={value === 'program'}
-            onClick={() => onChange('program')}
-          />
-          <Row
-            label="Videos"
-            checked={value === 'videos'}
-            onClick={() => onChange('videos')}
-          />
+/**
+ * DocumentResults
+ * - Content search hits: one row per document, with up to a few matching snippets and their pages.
+ */
+function DocumentResults({ documents }: { documents: DocumentMatch[] }) {
+  /** The viewer steps through the matching documents, each at its best page */
+  const list: ViewerFile[] = documents.map((d) => ({ path: d.path, title: d.title, page: d.pages[0]?.page }));
+  return (
+    <div className="divide-y divide-slate-200">
+      {documents.map((doc, index) => (
+        <div key={doc.path} className="px-4 py-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex min-w-0 items-center gap-3">
+              <FileKindIcon isVid={false} />
+              <div className="min-w-0">
+                <div className="truncate text-sm font-medium text-slate-800">{doc.title}</div>
+                <div className="truncate text-xs text-slate-500">{doc.path.split('/').slice(0, -1).join(' / ')}</div>
+              </div>
+            </div>
+            <Button size="sm" variant="outline" className="bg-transparent" onClick={() => openInViewer(list[index], list)}>
+              <Eye className="mr-2 h-4 w-4" />
+              View
+            </Button>
+          </div>
+          <ul className="mt-2 space-y-1 pl-11">
+            {doc.pages.map((hit, i) => (
+              <li key={`${hit.page ?? 'doc'}:${i}`} className="text-xs text-slate-600">
+                {hit.page ? (
+                  <button
+                    type="button"
+                    onClick={() => openInViewer({ ...list[index], page: hit.page }, list)}
+                    className="mr-2 font-medium text-blue-700 hover:underline"
+                  >
+                    p. {hit.page}
+                  </button>
+                ) : null}
+                <Highlight text={hit.snippet} ranges={hit.ranges} />
+              </li>
+            ))}
+          </ul>
         </div>
-      </div>
+      ))}
     </div>
   );
 }
@@ -199,202 +421,187 @@ function QuickFilterCard({
 }
 
 /**
- * Sync filter with URL query (?cat=handouts|clinical|billing)
+ * Facet selection stored in the URL (one comma-separated parameter per facet).
+ * - Unknown categories, programs and file types are dropped; changes replace the history entry.
  */
-function useFilterFromQuery(): [FilterKey, (next: FilterKey, nav?: (url: string) => void) => void] {
-  const location = useLocation();
-
-  const current: FilterKey = (() => {
-    const cat = new URLSearchParams(location.search).get('cat')?.toLowerCase();
-    if (cat === 'handouts' || cat === 'clinical' || cat === 'billing') return cat;
-    return 'all';
-  })() as FilterKey;
-
-  function set(next: FilterKey, nav?: (url: string) => void) {
-    if (next === 'handouts' || next === 'clinical' || next === 'billing') {
-      nav?.(`/resources?cat=${next}`);
-    } else {
-      nav?.('/resources');
-    }
-  }
+function useFacetParams(): [FacetSelection<FacetKey>, (next: FacetSelection<FacetKey>) => void] {
+  const [params, setParams] = useSearchParams();
+
+  const selection = useMemo(() => {
+    const read = (key: FacetKey, allowed?: readonly string[]) => {
+      const values = (params.get(key) ?? '')
+        .split(',')
+        .map((v) => v.trim().toLowerCase())
+        .filter((v) => v && (!allowed || allowed.includes(v)));
+      return Array.from(new Set(values));
+    };
+    return {
+      cat: read('cat', Object.keys(CATEGORY_LABELS)),
+      program: read('program', ProgramSlugs),
+      type: read('type', Object.keys(FILE_TYPE_LABELS)),
+      folder: read('folder'),
+    };
+  }, [params]);
+
+  const setSelection = useCallback(
+    (next: FacetSelection<FacetKey>) => {
+      setParams(
+        (prev) => {
+          const out = new URLSearchParams(prev);
+          for (const key of FACET_KEYS) {
+            if (next[key].length) out.set(key, next[key].join(','));
+            else out.delete(key);
+          }
+          return out;
+        },
+        { replace: true }
+      );
+    },
+    [setParams]
+  );
 
-  return [current, set];
+  return [selection, setSelection];
 }
 
 /**
  * Resource Library page component
  */
 export default function Resources() {
-  const navigate = useNavigate();
-  const [filterFromQuery, setFilterFromQuery] = useFilterFromQuery();
-
-  // Local UI state for filter (includes 'program' and 'videos' which are not part of ?cat)
-  const [filter, setFilter] = useState<FilterKey>(filterFromQuery);
-
-  // Sync local filter when URL query changes
-  useEffect(() => {
-    if (filter === 'program' || filter === 'videos') return;
-    setFilter(filterFromQuery);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filterFromQuery]);
-
-  // Search term
+  const [selection, setSelection] = useFacetParams();
+  const [params, setParams] = useSearchParams();
+  const [sortParam, setSort] = useFileSortParam();
+  /** Files ticked for a bulk download (separate from the facet selection) */
+  const fileSelection = useFileSelection();
+  const zip = useZipDownload();
+  const view: ResultsView = params.get('view') === 'folders' ? 'folders' : 'list';
+  const { programs: entitledPrograms } = useEntitlements();
+
+  // Search term and mode
   const [q, setQ] = useState('');
-
-  // Loading/error states
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Data caches
-  const [globalHandouts, setGlobalHandouts] = useState<ResultItem[]>([]);
-  const [globalClinical, setGlobalClinical] = useState<ResultItem[]>([]);
-  const [globalBilling, setGlobalBilling] = useState<ResultItem[]>([]);
-  const [programFiles, setProgramFiles] = useState<ResultItem[]>([]);
-  const [programLoaded, setProgramLoaded] = useState(false);
-
-  /** Map storage item to ResultItem */
-  function mapGlobal(items: { path: string; title: string; url: string; mimeType?: string }[]): ResultItem[] {
-    return items.map((i) => ({
-      id: i.path,
-      name: i.title,
-      url: i.url,
-      mimeType: i.mimeType,
-      source: 'global' as const,
-    }));
-  }
-
-  /** Lazy-load global categories on demand */
+  const [searchMode, setSearchMode] = useState<SearchMode>('titles');
+  const searching = searchMode === 'titles' && q.trim().length > 0;
+  /** Opt-in: limit search hits to the active facets (by default they only rank first) */
+  const [withinFilters, setWithinFilters] = useState(false);
+  /** Search hits default to relevance order, everything else to name */
+  const sort = sortParam ?? (searching ? BEST_MATCH : 'name');
+
+  /** Content search runs once typing pauses */
+  const [contentTerm, setContentTerm] = useState('');
   useEffect(() => {
-    let cancelled = false;
-
-    async function ensure(cat: 'handouts' | 'clinical' | 'billing') {
-      try {
-        setLoading(true);
-        setError(null);
-        if (cat === 'handouts' && globalHandouts.length === 0) {
-          const items = await getGlobalCategory('handouts');
-          if (!cancelled) setGlobalHandouts(mapGlobal(items));
-        }
-        if (cat === 'clinical' && globalClinical.length === 0) {
-          const items = await getGlobalCategory('guidelines');
-          if (!cancelled) setGlobalClinical(mapGlobal(items));
-        }
-        if (cat === 'billing' && globalBilling.length === 0) {
-          const items = await getGlobalCategory('billing');
-          if (!cancelled) setGlobalBilling(mapGlobal(items));
-        }
-      } catch (e: any) {
-        if (!cancelled) setError(e?.message || 'Failed to load resources');
-      } finally {
-        if (!cancelled) setLoading(false);
-      }
-    }
-
-    if (filter === 'handouts') ensure('handouts');
-    if (filter === 'clinical') ensure('clinical');
-    if (filter === 'billing') ensure('billing');
+    const timer = window.setTimeout(() => setContentTerm(q.trim()), CONTENT_SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [q]);
+
+  /** Facet counts cover the whole library, so every category loads (each is cached) */
+  const handoutsQuery = useGlobalCategory('handouts');
+  const clinicalQuery = useGlobalCategory('guidelines');
+  const billingQuery = useGlobalCategory('billing');
+
+  /** Program files across the member's entitled ProgramSlugs (one catalog query for all of them) */
+  const entitledSlugs = useMemo(
+    () => (ProgramSlugs as readonly ProgramSlug[]).filter((slug) => entitledPrograms.has(slug)),
+    [entitledPrograms]
+  );
+  const programQuery = useProgramsResources(entitledSlugs);
 
-    return () => {
-      cancelled = true;
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filter]);
+  const contentSearch = useContentSearch(
+    searchMode === 'content' && contentTerm.length >= MIN_CONTENT_QUERY ? contentTerm : null,
+    entitledSlugs
+  );
 
-  /** Lazy load program files aggregated across all ProgramSlugs */
-  useEffect(() => {
-    let cancelled = false;
-    async function loadAllProgramFiles() {
-      try {
-        setLoading(true);
-        setError(null);
-        const all: ResultItem[] = [];
-        await Promise.all((ProgramSlugs as readonly ProgramSlug[]).map(async (slug) => {
-          const grouped = await getProgramResourcesGrouped(slug);
-          const append = (items: { path: string; title: string; url: string; mimeType?: string }[]) => {
-            for (const it of items) {
-              all.push({
-                id: it.path,
-                name: it.title,
-                url: it.url,
-                mimeType: it.mimeType,
-                source: 'program',
-              });
-            }
-          };
-          append(grouped.forms);
-          append(grouped.protocols);
-          append(grouped.resources);
-          append(grouped.training);
-        }));
-        if (cancelled) return;
-        const map = new Map<string, ResultItem>();
-        all.forEach((r) => map.set(r.id, r));
-        setProgramFiles(Array.from(map.values()));
-        setProgramLoaded(true);
-      } catch (e: any) {
-        if (!cancelled) setError(e?.message || 'Failed to load program files');
-      } finally {
-        if (!cancelled) setLoading(false);
+  // Admin uploads show up without a reload, highlighted until opened
+  useCatalogLiveUpdates();
+  const fresh = useCatalogUpdatesStore((s) => s.fresh);
+  const dismissFresh = useCatalogUpdatesStore((s) => s.dismiss);
+
+  /** Every file the member can see, de-duplicated by path */
+  const allItems = useMemo(() => {
+    const map = new Map<string, ResultItem>();
+    const add = (rows: ResultItem[]) => rows.forEach((r) => map.set(r.id, r));
+    add(mapItems(handoutsQuery.data?.items, 'handouts', CATEGORY_LABELS.handouts));
+    add(mapItems(clinicalQuery.data?.items, 'clinical', CATEGORY_LABELS.clinical));
+    add(mapItems(billingQuery.data?.items, 'billing', CATEGORY_LABELS.billing));
+    for (const [slug, grouped] of Object.entries(programQuery.data?.items ?? {})) {
+      for (const [folder, label] of Object.entries(ProgramCategoryLabels) as [ProgramCategory, string][]) {
+        add(mapItems(grouped[folder], 'programs', label, slug as ProgramSlug, folder));
       }
     }
+    return Array.from(map.values());
+  }, [billingQuery.data, clinicalQuery.data, handoutsQuery.data, programQuery.data]);
+
+  /** Spinner only when nothing is cached yet; errors only when there's nothing to show */
+  const activeQueries = [handoutsQuery, clinicalQuery, billingQuery, programQuery];
+  const loading = activeQueries.some((query) => query.isLoading);
+  const error = activeQueries.find((query) => query.error && query.data === undefined)?.error ?? null;
+  // A failed retry is recorded on the query and shown by ErrorState
+  const retry = () => activeQueries.forEach((query) => void query.refresh().catch(() => undefined));
+  /** Storage folders the fallback listing couldn't read (the library is then partial) */
+  const listingFailures = activeQueries.flatMap((query) => query.data?.failures ?? []);
+
+  /** Index over every file (rebuilt only when the underlying data changes) */
+  const index = useMemo(() => buildSearchIndex(allItems, SEARCH_FIELDS), [allItems]);
+
+  /** Search hits (whole library, best first), or everything when not searching */
+  const candidates: ResultRow[] = useMemo(() => {
+    if (!searching) return allItems.map((item) => ({ item }));
+    return searchIndex(index, q).map(({ item, matches }) => ({ item, matches }));
+  }, [allItems, index, q, searching]);
+
+  /** Counts reflect the search, so they tell how many hits each value would show */
+  const counts = useMemo(
+    () =>
+      facetCounts(
+        candidates.map((r) => r.item),
+        FACET_DEFS,
+        selection
+      ),
+    [candidates, selection]
+  );
 
-    if ((filter === 'program' || filter === 'videos') && !programLoaded) {
-      loadAllProgramFiles();
-    }
-    return () => {
-      cancelled = true;
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filter, programLoaded]);
-
-  /** Build display list based on active filter */
-  const items: ResultItem[] = useMemo(() => {
-    if (filter === 'handouts') return globalHandouts;
-    if (filter === 'clinical') return globalClinical;
-    if (filter === 'billing') return globalBilling;
-    if (filter === 'program') return programFiles;
-
-    // videos: merge all known sets and filter by video
-    if (filter === 'videos') {
-      const merged = [...globalHandouts, ...globalClinical, ...globalBilling, ...programFiles];
-      const seen = new Set<string>();
-      const deduped = merged.filter((r) => {
-        const k = `${r.id}::${r.url || ''}`;
-        if (seen.has(k)) return false;
-        seen.add(k);
-        return true;
-      });
-      return deduped.filter((r) => isVideo({ url: r.url, mimeType: r.mimeType }));
-    }
+  /** Search hits inside the active facets (everything when none are set) */
+  const inFilters = useMemo(
+    () => new Set(applyFacets(candidates.map((r) => r.item), FACET_DEFS, selection)),
+    [candidates, selection]
+  );
 
-    // all: union of any already-loaded global sets
-    const base = [...globalHandouts, ...globalClinical, ...globalBilling];
-    const seen = new Set<string>();
-    return base.filter((r) => {
-      const k = r.id;
-      if (seen.has(k)) return false;
-      seen.add(k);
-      return true;
-    });
-  }, [filter, globalBilling, globalClinical, globalHandouts, programFiles]);
-
-  /** Apply search by name */
-  const filtered = useMemo(() => {
-    const term = q.trim().toLowerCase();
-    if (!term) return items;
-    return items.filter((r) => r.name.toLowerCase().includes(term));
-  }, [items, q]);
-
-  /** Handlers: update both state and URL where applicable */
-  function go(next: FilterKey) {
-    setFilter(next);
-    // sync URL for the three global categories; clear for others
-    if (next === 'handouts' || next === 'clinical' || next === 'billing') {
-      setFilterFromQuery(next, (url) => navigate(url));
-    } else {
-      setFilterFromQuery('all', (url) => navigate(url));
-    }
-  }
+  /** Browsing: the facets filter. Searching: they rank hits first, and only filter when opted in. */
+  const rows: ResultRow[] = useMemo(() => {
+    const inside = candidates.filter((r) => inFilters.has(r.item));
+    const kept =
+      !searching || withinFilters ? inside : [...inside, ...candidates.filter((r) => !inFilters.has(r.item))];
+    const top = searching ? kept.slice(0, MAX_SEARCH_RESULTS) : kept;
+    return sort === BEST_MATCH ? top : sortFiles(top, sort, (r) => r.item.file);
+  }, [candidates, inFilters, searching, withinFilters, sort]);
+
+  /** Files in list order, for the viewer's Next/Previous */
+  const listFiles = useMemo(() => rows.map((r) => r.item.file), [rows]);
+
+  /** Ticked files, including ones the current filters hide */
+  const selectedFiles = useMemo(
+    () => allItems.filter((r) => fileSelection.selected.has(r.id)).map((r) => r.file),
+    [allItems, fileSelection.selected]
+  );
+
+  const filtersActive = FACET_KEYS.some((k) => selection[k].length);
+  /** Search hits outside the active facets (listed after the others, or hidden when searching within them) */
+  const outsideMatches = searching && filtersActive ? candidates.length - inFilters.size : 0;
+
+  const clearFilters = () => setSelection(presetSelection({}));
+
+  /** Switch layouts; leaving the folder view forgets the open folder */
+  const setView = (next: ResultsView) =>
+    setParams(
+      (prev) => {
+        const out = new URLSearchParams(prev);
+        if (next === 'folders') out.set('view', 'folders');
+        else {
+          out.delete('view');
+          out.delete(FOLDER_PARAM);
+        }
+        return out;
+      },
+      { replace: true }
+    );
 
   return (
     <AppShell sidebar={<MemberSidebar />}>
@@ -411,12 +618,41 @@ export default function Resources() {
           <div className="relative">
             <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
             <Input
-              placeholder="Search resources by name…"
+              placeholder={
+                searchMode === 'content'
+                  ? 'Search inside documents, e.g. CPT 83036 or USMEC…'
+                  : 'Search all resources by name, program or folder…'
+              }
               className="pl-9"
               value={q}
               onChange={(e) => setQ(e.target.value)}
             />
           </div>
+          <div className="mt-2 flex items-center gap-2 text-xs" role="radiogroup" aria-label="Search mode">
+            <span className="text-slate-500">Search in:</span>
+            {(
+              [
+                ['titles', 'File names'],
+                ['content', 'Inside documents'],
+              ] as const
+            ).map(([mode, label]) => (
+              <button
+                key={mode}
+                type="button"
+                role="radio"
+                aria-checked={searchMode === mode}
+                onClick={() => setSearchMode(mode)}
+                className={[
+                  'rounded-full border px-3 py-1',
+                  searchMode === mode
+                    ? 'border-blue-300 bg-blue-50 text-blue-700'
+                    : 'border-slate-200 text-slate-600 hover:bg-slate-50',
+                ].join(' ')}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Quick filter cards */}
@@ -425,98 +661,275 @@ export default function Resources() {
             title="All Resources"
             subtitle="Browse everything"
             Icon={Grid2x2}
-            active={filter === 'all'}
-            onClick={() => go('all')}
+            active={isPreset(selection, PRESETS.all)}
+            onClick={clearFilters}
           />
           <QuickFilterCard
             title="Patient Handouts"
             subtitle="Patient-facing PDFs"
             Icon={FileText}
-            active={filter === 'handouts'}
-            onClick={() => go('handouts')}
+            active={isPreset(selection, PRESETS.handouts)}
+            onClick={() => setSelection(presetSelection(PRESETS.handouts))}
           />
           <QuickFilterCard
             title="Clinical Guidelines"
             subtitle="Reference docs"
             Icon={BookText}
-            active={filter === 'clinical'}
-            onClick={() => go('clinical')}
+            active={isPreset(selection, PRESETS.clinical)}
+            onClick={() => setSelection(presetSelection(PRESETS.clinical))}
           />
           <QuickFilterCard
             title="Medical Billing"
             subtitle="Codes &amp; forms"
             Icon={FileSpreadsheet}
-            active={filter === 'billing'}
-            onClick={() => go('billing')}
+            active={isPreset(selection, PRESETS.billing)}
+            onClick={() => setSelection(presetSelection(PRESETS.billing))}
           />
           <QuickFilterCard
             title="Program Files"
             subtitle="All training assets"
             Icon={LibraryBig}
-            active={filter === 'program'}
-            onClick={() => go('program')}
+            active={isPreset(selection, PRESETS.programs)}
+            onClick={() => setSelection(presetSelection(PRESETS.programs))}
           />
           <QuickFilterCard
             title="Videos"
             subtitle="Watch training"
             Icon={Play}
-            active={filter === 'videos'}
-            onClick={() => go('videos')}
+            active={isPreset(selection, PRESETS.videos)}
+            onClick={() => setSelection(presetSelection(PRESETS.videos))}
           />
         </div>
 
         <div className="grid grid-cols-1 gap-6 md:grid-cols-4">
           {/* Sidebar filters */}
           <aside className="md:col-span-1">
-            <SidebarCheckboxFilters value={filter} onChange={go} />
+            <FacetSidebar
+              selection={selection}
+              counts={counts}
+              programs={entitledSlugs}
+              onToggle={(key, value) => setSelection(toggleFacet(selection, key, value))}
+              onClear={clearFilters}
+            />
           </aside>
 
           {/* Results */}
           <section className="md:col-span-3">
+            {searchMode === 'titles' ? (
+              <div className="mb-3 flex items-center justify-end gap-1">
+                <div className="mr-auto">
+                  <SortSelect
+                    value={sort}
+                    allowBestMatch={searching}
+                    onChange={(next) => setSort(next === BEST_MATCH || (next === 'name' && !searching) ? null : next)}
+                  />
+                </div>
+                {(
+                  [
+                    ['list', 'List', List],
+                    ['folders', 'Folders', FolderTree],
+                  ] as const
+                ).map(([mode, label, Icon]) => (
+                  <Button
+                    key={mode}
+                    size="sm"
+                    variant="outline"
+                    role="radio"
+                    aria-checked={view === mode}
+                    onClick={() => setView(mode)}
+                    className={view === mode ? 'border-blue-300 bg-blue-50 text-blue-700' : 'bg-transparent'}
+                  >
+                    <Icon className="mr-2 h-4 w-4" />
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            ) : null}
+            {searchMode === 'titles' ? <IncompleteListingNotice failures={listingFailures} onRetry={retry} /> : null}
             <Card>
               <CardContent className="p-0">
-                {loading ? (
+                {searchMode === 'content' ? (
+                  contentTerm.length < MIN_CONTENT_QUERY ? (
+                    <div className="p-6 text-sm text-slate-600">
+                      Type a term to search the text of PDFs and Word documents.
+                    </div>
+                  ) : contentSearch.isLoading ? (
+                    <div className="p-6 text-sm text-slate-600">Searching documents…</div>
+                  ) : contentSearch.error && !contentSearch.data ? (
+                    <ErrorState
+                      error={contentSearch.error}
+                      onRetry={() => void contentSearch.refresh().catch(() => undefined)}
+                      compact
+                    />
+                  ) : !contentSearch.data?.length ? (
+                    <div className="p-6 text-sm text-slate-600">No documents mention “{contentTerm}”.</div>
+                  ) : (
+                    <DocumentResults documents={contentSearch.data} />
+                  )
+                ) : loading ? (
                   <div className="p-6 text-sm text-slate-600">Loading…</div>
                 ) : error ? (
-                  <div className="p-6 text-sm text-red-600">{error}</div>
-                ) : filtered.length === 0 ? (
-                  <div className="p-6 text-sm text-slate-600">No results.</div>
+                  <ErrorState error={error} onRetry={retry} compact />
+                ) : rows.length === 0 ? (
+                  <div className="p-6 text-sm text-slate-600">
+                    {searching ? `No resources match “${q.trim()}”` : 'No results'}
+                    {filtersActive && (!searching || withinFilters) ? ' with these filters.' : '.'}
+                    {outsideMatches > 0 ? (
+                      <>
+                        {' '}
+                        {outsideMatches} {outsideMatches === 1 ? 'match is' : 'matches are'} outside them.{' '}
+                        <button
+                          type="button"
+                          className="text-blue-700 hover:underline"
+                          onClick={() => setWithinFilters(false)}
+                        >
+                          Show all matches
+                        </button>
+                      </>
+                    ) : null}
+                  </div>
+                ) : view === 'folders' ? (
+                  <div className="p-4">
+                    <FolderBrowser
+                      items={rows.map((r) => r.item.file)}
+                      rootLabel="All folders"
+                      folderLabel={getFolderLabel}
+                      sort={sort === BEST_MATCH ? 'name' : sort}
+                    />
+                  </div>
                 ) : (
-                  <div className="divide-y divide-slate-200">
-                    {filtered.map((item) => {
-                      const isVid = isVideo({ url: item.url, mimeType: item.mimeType });
-                      return (
-                        <div key={`${item.source}:${item.id}`} className="flex items-center justify-between px-4 py-3">
-                          <div className="flex min-w-0 items-center gap-3">
-                            <FileKindIcon isVid={isVid} />
-                            <div className="truncate text-sm font-medium text-slate-800">{item.name}</div>
-                          </div>
-                          <div className="shrink-0">
-                            {item.url ? (
-                              <a href={item.url} target="_blank" rel="noreferrer">
-                                <Button size="sm" variant="outline" className="bg-transparent">
-                                  {isVid ? (
-                                    <>
-                                      <Play className="mr-2 h-4 w-4" />
-                                      Play
-                                    </>
-                                  ) : (
+                  <div>
+                    {searching ? (
+                      <div className="border-b border-slate-200 px-4 py-2 text-xs text-slate-500">
+                        {rows.length === MAX_SEARCH_RESULTS ? `Top ${MAX_SEARCH_RESULTS}` : rows.length}{' '}
+                        {rows.length === 1 ? 'match' : 'matches'}
+                        {filtersActive && withinFilters ? ' with these filters' : ' across all categories'}
+                        {outsideMatches > 0 ? (
+                          withinFilters ? (
+                            <>
+                              {' '}
+                              ({outsideMatches} more outside them ·{' '}
+                              <button
+                                type="button"
+                                className="text-blue-700 hover:underline"
+                                onClick={() => setWithinFilters(false)}
+                              >
+                                show all
+                              </button>
+                              )
+                            </>
+                          ) : !inFilters.size ? (
+                            ' (none with these filters)'
+                          ) : (
+                            <>
+                              {' '}
+                              ({inFilters.size} with these filters first ·{' '}
+                              <button
+                                type="button"
+                                className="text-blue-700 hover:underline"
+                                onClick={() => setWithinFilters(true)}
+                              >
+                                only show those
+                              </button>
+                              )
+                            </>
+                          )
+                        ) : null}
+                      </div>
+                    ) : null}
+                    <div className="px-4 pt-3">
+                      <BulkDownloadBar
+                        files={listFiles}
+                        selectedFiles={selectedFiles}
+                        selection={fileSelection}
+                        zip={zip}
+                        selectedName="ClinicalRxQ library.zip"
+                      />
+                    </div>
+                    <VirtualList
+                      items={rows}
+                      rowHeight={RESULT_ROW_HEIGHT}
+                      getKey={(r) => r.item.id}
+                      renderRow={({ item, matches }) => {
+                        const isVid = isVideo({ url: item.url, mimeType: item.mimeType });
+                        const details = [formatFileSize(item.file.size), formatShortDate(item.file.updatedAt)].filter(
+                          Boolean
+                        );
+                        return (
+                          <div
+                            className={`flex h-full items-center justify-between border-b border-slate-200 px-4 ${
+                              fresh[item.id] ? 'bg-amber-50' : ''
+                            }`}
+                          >
+                            <div className="flex min-w-0 items-center gap-3">
+                              <input
+                                type="checkbox"
+                                className="h-4 w-4 shrink-0 rounded border-slate-300 text-blue-600"
+                                checked={fileSelection.selected.has(item.id)}
+                                disabled={!item.url}
+                                onChange={(e) => fileSelection.toggle(item.id, e.target.checked)}
+                                aria-label={`Select ${item.name}`}
+                              />
+                              <FileKindIcon isVid={isVid} />
+                              <div className="min-w-0">
+                                <div className="truncate text-sm font-medium text-slate-800">
+                                  <Highlight text={item.name} ranges={matches?.title} />
+                                </div>
+                                <div className="truncate text-xs text-slate-500">
+                                  {item.program ? (
                                     <>
-                                      <Download className="mr-2 h-4 w-4" />
-                                      Download
+                                      <Highlight text={item.program} ranges={matches?.program} />
+                                      {' · '}
                                     </>
-                                  )}
+                                  ) : null}
+                                  <Highlight text={item.category} ranges={matches?.category} />
+                                  {details.length ? ` · ${details.join(' · ')}` : null}
+                                </div>
+                              </div>
+                              <NewFileBadge path={item.id} />
+                            </div>
+                            <div className="flex shrink-0 items-center gap-2">
+                              {!item.url ? (
+                                <Button size="sm" variant="outline" disabled className="bg-transparent">
+                                  Unavailable
                                 </Button>
-                              </a>
-                            ) : (
-                              <Button size="sm" variant="outline" disabled className="bg-transparent">
-                                Unavailable
-                              </Button>
-                            )}
+                              ) : (
+                                <>
+                                  {isVid ? null : (
+                                    <FileLink
+                                      path={item.id}
+                                      download
+                                      onOpen={() => {
+                                        dismissFresh(item.id);
+                                        void Api.recordFileOpened(item.id);
+                                      }}
+                                    >
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="bg-transparent px-2"
+                                        aria-label={`Download ${item.name}`}
+                                      >
+                                        <Download className="h-4 w-4" />
+                                      </Button>
+                                    </FileLink>
+                                  )}
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="bg-transparent"
+                                    onClick={() => openInViewer(item.file, listFiles)}
+                                  >
+                                    {isVid ? <Play className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+                                    {isVid ? 'Play' : 'View'}
+                                  </Button>
+                                </>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                      );
-                    })}
+                        );
+                      }}
+                    />
                   </div>
                 )}
               </CardContent>
@@ -0,0 +1,50 @@
+/**
+ * Admin services (Supabase SDK)
+ * - Purpose: Read-side queries for the /admin area (member directory, content counts).
+ * - RLS must grant these reads to users whose app_metadata.role is 'admin'; the client-side
+ *   AdminRoute guard is only for navigation.
+ */
+
+import { fromTable, readCount, readList, STORAGE_BUCKET } from '../lib/supabase';
+import type { Profile } from './supabase';
+
+/**
+ * Admin services
+ */
+export const adminService = {
+  /**
+   * List member profiles, newest first.
+   * @param search matches email, name or pharmacy name (case-insensitive)
+   */
+  async listMembers(search = '', limit = 100): Promise<Profile[]> {
+    const term = search.trim().replace(/[,()%]/g, ' ');
+    return readList(() => {
+      const query = fromTable('profiles')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (!term) return query;
+      const like = `%${term}%`;
+      return query.or(
+        `email.ilike.${like},first_name.ilike.${like},last_name.ilike.${like},pharmacy_name.ilike.${like}`
+      );
+    });
+  },
+
+  /** Total number of member profiles */
+  async countMembers(): Promise<number> {
+    return readCount(() => fromTable('profiles').select('id', { count: 'exact', head: true }));
+  },
+
+  /**
+   * Count catalog files, optionally under a folder prefix (e.g., "testandtreat/").
+   */
+  async countCatalogFiles(prefix?: string): Promise<number> {
+    return readCount(() => {
+      const query = fromTable('storage_files_catalog')
+        .select('id', { count: 'exact', head: true })
+        .eq('bucket_name', STORAGE_BUCKET);
+      return prefix ? query.ilike('file_path', `${prefix}%`) : query;
+    });
+  },
+};
@@ -1,191 +1,195 @@
 /**
- * Api mock service
- * - Purpose: Provide Dashboard with realistic demo data without external dependencies.
- * - Replace these methods with real integrations when ready.
+ * Dashboard Api
+ * - Purpose: Data for the Dashboard, read from the real sources.
+ *   - Programs: names/descriptions from storageCatalog, resource counts and last update from the catalog
+ *     (one query for every program, shared with the program pages through the query cache).
+ *   - Quick access: each entitled program's protocol manual and first training video from the catalog.
+ *   - Bookmarks and recent activity: the signed-in user's own rows. Library files are stored with
+ *     resource_type 'file' and the storage path as resource_id / resource_name.
+ *   - Announcements: the "announcements" table (published, not expired, newest first).
+ * - Everything reads through the configured data source, so it also works on the offline fixtures
+ *   (bookmarks/activity need a Supabase session and come back empty there).
  */
 
 import { Announcement, ClinicalProgram, QuickAccessItem, RecentActivity, ResourceItem } from './types';
-import { buildPublicUrl } from '../supabaseStorage';
+import { buildFileUrl, isVideo, stripOneExtension, type StorageFileItem } from '../supabaseStorage';
+import { listProgramsFromStorage, type ProgramSlug } from '../storageCatalog';
+import { activityService, bookmarkService } from '../supabase';
+import { fetchProgramsResources } from '../../hooks/use-catalog';
+import { getDataSource } from '../../lib/dataSource';
+
+/** Bookmark/activity resource_type for library files (resource id/name is the storage path) */
+export const FILE_RESOURCE_TYPE = 'file';
+
+/** Dashboard icon per program (lucide icon names, see Dashboard iconByName) */
+const ProgramIcons: Record<ProgramSlug, string> = {
+  mtmthefuturetoday: 'ClipboardCheck',
+  timemymeds: 'CalendarCheck',
+  testandtreat: 'Stethoscope',
+  hba1c: 'Activity',
+  oralcontraceptives: 'TestTubes',
+};
+
+/** Short labels for top-level folders (shown next to bookmarks and activity) */
+const FolderCodes: Record<string, string> = {
+  mtmthefuturetoday: 'MTM',
+  timemymeds: 'TMM',
+  testandtreat: 'TNT',
+  hba1c: 'A1C',
+  oralcontraceptives: 'OC',
+  patienthandouts: 'Handouts',
+  clinicalguidelines: 'Guidelines',
+  medicalbilling: 'Billing',
+};
+
+/** Quick access tiles shown at most */
+const MAX_QUICK_ACCESS = 4;
+/** Announcements shown at most */
+const MAX_ANNOUNCEMENTS = 5;
+
+/**
+ * Catalog tree for the given programs (cached; only ever the member's entitled programs).
+ */
+async function programTree(programs: readonly ProgramSlug[]) {
+  return (await fetchProgramsResources(programs)).items;
+}
 
 /**
- * Simulate async latency
+ * Resource item for a storage path (bookmarks, activity).
  */
-function wait(ms: number) {
-  return new Promise((res) => setTimeout(res, ms));
+function fileResource(id: string, path: string): ResourceItem {
+  const filename = path.split('/').pop() || path;
+  return {
+    id,
+    name: stripOneExtension(filename),
+    program: FolderCodes[path.split('/')[0]?.toLowerCase() ?? ''],
+    url: buildFileUrl(path),
+    path,
+  };
+}
+
+/**
+ * Newest updatedAt among items (undefined when none carry a date).
+ */
+function latestUpdate(items: StorageFileItem[]): string | undefined {
+  let latest: string | undefined;
+  for (const item of items) {
+    if (item.updatedAt && (!latest || Date.parse(item.updatedAt) > Date.parse(latest))) latest = item.updatedAt;
+  }
+  return latest;
 }
 
 /**
  * Api methods
  */
 export const Api = {
-  /** Get Clinical Programs
-   * Normalized to canonical ProgramSlugs used by routes and storage:
-   * - mtmthefuturetoday
-   * - timemymeds
-   * - testandtreat
-   * - hba1c
-   * - oralcontraceptives
+  /**
+   * Get Clinical Programs (canonical ProgramSlugs); resource counts only for entitled programs, whose files
+   * are the only ones fetched.
+   * @param entitled programs the member can open (useEntitlements), in ProgramSlugs order
    */
-  async getPrograms(): Promise<ClinicalProgram[]> {
-    await wait(200);
-    return [
-      {
-        slug: 'mtmthefuturetoday',
-        name: 'MTM The Future Today',
-        description:
-          'Team-based Medication Therapy Management with proven protocols and technician workflows.',
-        icon: 'ClipboardCheck',
-        resourceCount: 18,
-        lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 3).toISOString(),
-      },
-      {
-        slug: 'timemymeds',
-        name: 'TimeMyMeds',
-        description:
-          'Appointment-based care via synchronization workflows that unlock clinical service delivery.',
-        icon: 'CalendarCheck',
-        resourceCount: 12,
-        lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 10).toISOString(),
-      },
-      {
-        slug: 'testandtreat',
-        name: 'Test & Treat Services',
-        description:
-          'CLIA-waived testing and treatment plans for Flu, Strep, and COVID-19.',
-        icon: 'Stethoscope',
-        resourceCount: 15,
-        lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 6).toISOString(),
-      },
-      {
-        slug: 'hba1c',
-        name: 'HbA1c Testing',
-        description:
-          'POC A1c testing integrated with diabetes care and MTM workflows.',
-        icon: 'Activity',
-        resourceCount: 9,
-        lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 18).toISOString(),
-      },
-      {
-        slug: 'oralcontraceptives',
-        name: 'Oral Contraceptives',
-        description:
-          'From patient intake to billing—simplified, step-by-step service workflows.',
-        icon: 'TestTubes',
-        resourceCount: 11,
-        lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 12).toISOString(),
-      },
-    ];
+  async getPrograms(entitled: readonly ProgramSlug[]): Promise<ClinicalProgram[]> {
+    const [programs, tree] = await Promise.all([listProgramsFromStorage(), programTree(entitled)]);
+    return programs.map((p) => {
+      const g = entitled.includes(p.slug) ? tree[p.slug] : undefined;
+      const files = g ? [...g.forms, ...g.protocols, ...g.resources, ...g.training] : [];
+      return {
+        slug: p.slug,
+        name: p.name,
+        description: p.description ?? '',
+        icon: ProgramIcons[p.slug],
+        resourceCount: files.length,
+        lastUpdatedISO: latestUpdate(files),
+        locked: !entitled.includes(p.slug),
+      };
+    });
   },
 
-  /** Get Quick Access tiles */
-  async getQuickAccess(): Promise<QuickAccessItem[]> {
-    await wait(150);
-    return [
-      {
-        id: 'qa-1',
-        title: 'CMR Pharmacist Protocol',
-        subtitle: 'MTM Protocols',
-        cta: 'Download',
-        icon: 'FileText',
-        url: buildPublicUrl('mtmthefuturetoday/protocols/MTMTFT%20Pharmacist%20Protocol.pdf'),
-        external: true,
-      },
-      {
-        id: 'qa-2',
-        title: 'Technician Training Module 1',
-        subtitle: 'Onboarding',
-        cta: 'Watch',
-        icon: 'PlayCircle',
-        url: buildPublicUrl('mtmthefuturetoday/training/1%20Introduction%20to%20MTM.mp4'),
-        external: true,
-      },
-      {
-        id: 'qa-3',
-        title: 'A1c Patient Handout',
-        subtitle: 'Diabetes Care',
-        cta: 'Download',
-        icon: 'FileText',
-        url: buildPublicUrl('patienthandouts/Diabetes/Checking%20your%20Blood%20Sugar.pdf'),
-        external: true,
-      },
-      {
-        id: 'qa-4',
-        title: 'Flu Test Workflow',
-        subtitle: 'Test & Treat',
-        cta: 'Download',
-        icon: 'TestTubes',
-        url: buildPublicUrl('testandtreat/protocols/Test%20and%20Treat%20Protocol%20Manual.pdf'),
-        external: true,
-      },
-    ];
+  /**
+   * Get Quick Access tiles: protocol manual + first training video of each entitled program.
+   * @param programs programs the member can open (useEntitlements)
+   */
+  async getQuickAccess(programs: readonly ProgramSlug[]): Promise<QuickAccessItem[]> {
+    if (!programs.length) return [];
+    const tree = await programTree(programs);
+    const names = new Map((await listProgramsFromStorage()).map((p) => [p.slug, p.name]));
+
+    const tiles: QuickAccessItem[] = [];
+    for (const slug of programs) {
+      const g = tree[slug];
+      if (!g) continue;
+      const protocol = g.protocols[0];
+      const video = g.training.find((t) => isVideo(t));
+      if (protocol) {
+        tiles.push({
+          id: protocol.path,
+          title: protocol.title,
+          subtitle: names.get(slug),
+          cta: 'Download',
+          icon: 'FileText',
+          url: protocol.url,
+          path: protocol.path,
+          external: true,
+        });
+      }
+      if (video) {
+        tiles.push({
+          id: video.path,
+          title: video.title,
+          subtitle: names.get(slug),
+          cta: 'Watch',
+          icon: 'PlayCircle',
+          url: video.url,
+          path: video.path,
+          external: true,
+        });
+      }
+    }
+    // Spread across programs before taking a second tile from any one of them
+    const protocols = tiles.filter((t) => t.cta === 'Download');
+    const videos = tiles.filter((t) => t.cta === 'Watch');
+    return [...protocols, ...videos].slice(0, MAX_QUICK_ACCESS);
   },
 
-  /** Get Bookmarked resources for current user */
+  /** Get Bookmarked resources for current user (newest first) */
   async getBookmarkedResources(): Promise<ResourceItem[]> {
-    await wait(120);
-    return [
-      {
-        id: 'bm-1',
-        name: 'Pharmacist CMR Worksheet',
-        program: 'MTM',
-        url: buildPublicUrl('mtmthefuturetoday/Forms/utilityforms/Pharmacist%20CMR%20Worksheet.pdf'),
-      },
-      {
-        id: 'bm-2',
-        name: 'TimeMyMeds Protocol',
-        program: 'TMM',
-        url: buildPublicUrl('timemymeds/protocols/TimeMyMeds%20Protocol.pdf'),
-      },
-      {
-        id: 'bm-3',
-        name: 'A1c Result CPT Code Billing',
-        program: 'A1C',
-        url: buildPublicUrl('hba1c/resources/A1c%20Result%20CPT%20Code%20Billing.pdf'),
-      },
-      {
-        id: 'bm-4',
-        name: 'Strep Treatment – Peds',
-        program: 'TNT',
-        url: buildPublicUrl('testandtreat/forms/Flu/Flu%20Treatment-Peds.pdf'),
-      },
-    ];
+    const rows = await bookmarkService.getUserBookmarks();
+    return rows.map((b) =>
+      b.resource_type === FILE_RESOURCE_TYPE ? fileResource(b.id, b.resource_id) : { id: b.id, name: b.resource_id }
+    );
   },
 
-  /** Get recent activity list */
+  /** Get recent activity list for current user (newest first) */
   async getRecentActivity(): Promise<RecentActivity[]> {
-    await wait(160);
-    const now = Date.now();
-    return [
-      {
-        id: 'ra-1',
-        name: 'CMR Interview Guide',
-        program: 'MTM',
-        accessedAtISO: new Date(now - 1000 * 60 * 60).toISOString(),
-        url: buildPublicUrl('mtmthefuturetoday/resources/MTMTFT%20Pharmacist%20Form%20Explanations.pdf'),
-      },
-      {
-        id: 'ra-2',
-        name: 'Sync Schedule Template',
-        program: 'TMM',
-        accessedAtISO: new Date(now - 1000 * 60 * 60 * 5).toISOString(),
-        url: buildPublicUrl('timemymeds/forms/Enrollment%20Form.pdf'),
-      },
-      {
-        id: 'ra-3',
-        name: 'A1c Tech Checklist',
-        program: 'A1C',
-        accessedAtISO: new Date(now - 1000 * 60 * 60 * 22).toISOString(),
-        url: buildPublicUrl('hba1c/protocols/Hemoglobin%20A1c%20Testing%20Protocol.pdf'),
-      },
-    ];
+    const rows = await activityService.getRecentActivity(10);
+    return rows.map((a) => ({
+      ...(a.resource_type === FILE_RESOURCE_TYPE
+        ? fileResource(a.id, a.resource_name)
+        : { id: a.id, name: a.resource_name }),
+      accessedAtISO: a.accessed_at,
+    }));
   },
 
-  /** Get announcements */
+  /** Get current announcements (published, not expired) */
   async getAnnouncements(): Promise<Announcement[]> {
-    await wait(100);
-    return [
-      { id: 'an-1', title: 'New: Prescriber Communication Forms', body: 'Standardized outreach templates now available in all MTM programs.', dateISO: new Date().toISOString() },
-      { id: 'an-2', title: 'Sync Workflow Update', body: 'Checklist updated for latest payer guidance. Please review by month end.', dateISO: new Date(Date.now() - 86400 * 1000 * 4).toISOString() },
-    ];
+    // Scheduled and expired rows are filtered out by the query, so they can't use up the limit
+    const rows = await getDataSource().selectRows('announcements', {
+      liveAt: { start: 'published_at', end: 'expires_at', at: new Date().toISOString() },
+      orderBy: 'published_at',
+      ascending: false,
+      limit: MAX_ANNOUNCEMENTS,
+    });
+    return rows.map((r) => ({ id: r.id, title: r.title, body: r.body, dateISO: r.published_at }));
+  },
+
+  /**
+   * Record that the user opened a library file (feeds "Recently Accessed"; best-effort).
+   */
+  async recordFileOpened(path: string): Promise<void> {
+    try {
+      await activityService.logActivity(path, FILE_RESOURCE_TYPE);
+    } catch {
+      // Not signed in to Supabase (e.g., offline fixtures) or RLS denial: opening the file matters more
+    }
   },
 };
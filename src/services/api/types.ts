@@ -1,5 +1,5 @@
 /**
- * Types for the mocked Api service used by Dashboard
+ * Types for the Dashboard Api service
  */
 
 /** Announcement item */
@@ -18,6 +18,8 @@ export interface ClinicalProgram {
   icon: string; // lucide icon name
   resourceCount: number;
   lastUpdatedISO?: string;
+  /** Not in the member's plan (no files fetched, so no count) */
+  locked?: boolean;
 }
 
 /** Quick access item */
@@ -29,6 +31,8 @@ export interface QuickAccessItem {
   icon: string; // lucide icon name
   /** Direct URL to open (public file or route) */
   url?: string;
+  /** Storage path of a library file (opens in the in-app viewer) */
+  path?: string;
   /** If true, open in a new tab (external link) */
   external?: boolean;
 }
@@ -39,6 +43,8 @@ export interface ResourceItem {
   name: string;
   program?: string; // program code/name
   url?: string;
+  /** Storage path of a library file (opens in the in-app viewer) */
+  path?: string;
 }
 
 /** Recent activity item */
@@ -0,0 +1,89 @@
+/**
+ * Program entitlements
+ * - Purpose: Decide which clinical programs (ProgramSlug) a member may open, from their subscription.
+ * - Plans either bundle programs (PlanPrograms) or are sold à la carte via Subscription.programs;
+ *   the two are combined, so add-ons on top of a bundle also unlock.
+ * - Legacy program ids stored on older subscriptions are normalized to ProgramSlugs.
+ * - Admins are entitled to everything; inactive or expired subscriptions to nothing.
+ * - This only shapes what the hub fetches, lists and signs. The real boundary is the bucket and catalog RLS
+ *   (see scripts/extract-text.mjs for the matching entitled_file_prefixes() function): anything checked
+ *   here can be bypassed by calling Supabase directly.
+ */
+
+import type { Subscription, User } from '../types';
+import { ProgramSlugs, type ProgramSlug } from './storageCatalog';
+
+/** Programs bundled with each plan (keys are normalized plan names) */
+const PlanPrograms: Record<string, readonly ProgramSlug[]> = {
+  premium: ProgramSlugs,
+  allaccess: ProgramSlugs,
+};
+
+/** Legacy/alternate program ids → canonical ProgramSlug */
+const ProgramAliases: Record<string, ProgramSlug> = {
+  'mtm-future-today': 'mtmthefuturetoday',
+  'mtm-the-future-today': 'mtmthefuturetoday',
+  'time-my-meds': 'timemymeds',
+  'test-treat': 'testandtreat',
+  'test-and-treat': 'testandtreat',
+  'a1c': 'hba1c',
+  'hba1c-testing': 'hba1c',
+  'oral-contraceptives': 'oralcontraceptives',
+};
+
+/** Normalize a plan name for lookup ("All Access" → "allaccess") */
+function planKey(planName: string): string {
+  return planName.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Normalize a stored program id to a ProgramSlug (null when unknown).
+ */
+export function toProgramSlug(id: string): ProgramSlug | null {
+  const lower = id.trim().toLowerCase();
+  if ((ProgramSlugs as readonly string[]).includes(lower)) return lower as ProgramSlug;
+  return ProgramAliases[lower] ?? null;
+}
+
+/**
+ * True when the subscription is active and not past its end date.
+ */
+export function isSubscriptionCurrent(sub: Subscription | undefined, now: Date = new Date()): boolean {
+  if (!sub || sub.status !== 'active') return false;
+  return new Date(sub.endDate).getTime() >= now.getTime();
+}
+
+/**
+ * Resolve the set of programs a user may access.
+ */
+export function getEntitledPrograms(user: User | null | undefined): Set<ProgramSlug> {
+  const out = new Set<ProgramSlug>();
+  if (!user) return out;
+  if (user.role === 'admin') return new Set(ProgramSlugs);
+
+  const sub = user.subscription;
+  if (!sub || !isSubscriptionCurrent(sub)) return out;
+
+  for (const slug of PlanPrograms[planKey(sub.planName)] ?? []) out.add(slug);
+  for (const id of sub.programs ?? []) {
+    const slug = toProgramSlug(id);
+    if (slug) out.add(slug);
+  }
+  return out;
+}
+
+/**
+ * Check access to a single program.
+ */
+export function canAccessProgram(user: User | null | undefined, slug: ProgramSlug): boolean {
+  return getEntitledPrograms(user).has(slug);
+}
+
+/**
+ * Check access to a library file: program files need the program, the global library is open to members.
+ */
+export function canOpenFile(user: User | null | undefined, path: string): boolean {
+  const top = path.replace(/^\/+/, '').split('/')[0]?.toLowerCase() ?? '';
+  const slug = (ProgramSlugs as readonly string[]).includes(top) ? (top as ProgramSlug) : null;
+  return !slug || canAccessProgram(user, slug);
+}
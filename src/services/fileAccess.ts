@@ -0,0 +1,151 @@
+/**
+ * Library file access
+ * - Purpose: Hand out links to library files according to config/storage.
+ *   - public: the bucket's permanent public URL.
+ *   - signed: the in-app /file/<path> route. A signed URL valid for a few minutes is created only when a
+ *     member opens the file; the route requires sign-in, so a copied link is useless to non-members.
+ * - Signed URLs are cached per file and disposition and replaced shortly before they expire, so an
+ *   expired link is never handed out: reopening a file after the TTL just signs a new one.
+ * - Program files are only signed for members entitled to the program (the check set by stores/authStore
+ *   from services/entitlements), so a typed /file/<path> can't open a locked program. That check is a
+ *   convenience; the storage bucket's RLS is what actually keeps the files private.
+ */
+
+import { getSignedUrlTtl, getStorageAccess } from '../config/storage';
+import { getDataSource } from '../lib/dataSource';
+import { PermissionDeniedError } from '../lib/errors';
+
+/** Route that resolves a file to a fresh signed URL (see pages/FileOpen) */
+export const FILE_ROUTE_PREFIX = '/file/';
+
+/** Re-sign when less than this is left on a cached URL */
+const REFRESH_MARGIN_MS = 30_000;
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+const signedUrls = new Map<string, CachedUrl>();
+const pending = new Map<string, Promise<string>>();
+/** Whether the signed-in member may open a path (nothing until a member is known) */
+let canOpen: (path: string) => boolean = () => false;
+
+function normalize(path: string): string {
+  return path.replace(/^\/+/, '');
+}
+
+/**
+ * True when library files are served from a private bucket.
+ */
+export function usesSignedUrls(): boolean {
+  return getStorageAccess() === 'signed' && getDataSource().kind === 'supabase';
+}
+
+/**
+ * Stable link for a file, safe to render in an href (public URL, or the /file route for private buckets).
+ */
+export function fileHref(path: string): string {
+  const clean = normalize(path);
+  if (!usesSignedUrls()) return getDataSource().publicUrl(clean);
+  return FILE_ROUTE_PREFIX + clean.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Storage path behind a /file route path (null for other paths and malformed escapes).
+ */
+export function pathFromFileRoute(pathname: string): string | null {
+  if (!pathname.startsWith(FILE_ROUTE_PREFIX)) return null;
+  const rest = pathname.slice(FILE_ROUTE_PREFIX.length);
+  if (!rest) return null;
+  try {
+    return rest.split('/').map(decodeURIComponent).join('/');
+  } catch {
+    // e.g. /file/%E0%A4%A: shown as not found rather than crashing the page
+    return null;
+  }
+}
+
+/**
+ * Set the entitlement check applied before a file URL is handed out.
+ */
+export function setFileAccessCheck(check: (path: string) => boolean) {
+  canOpen = check;
+}
+
+/**
+ * Cached signed URL for a file if it is still good for a while (synchronous, for click handlers).
+ */
+export function cachedFileUrl(path: string, opts: { download?: boolean } = {}): string | undefined {
+  if (!canOpen(normalize(path))) return undefined;
+  if (!usesSignedUrls()) return getDataSource().publicUrl(normalize(path));
+  const hit = signedUrls.get(`${opts.download ? 'dl' : 'view'}:${normalize(path)}`);
+  return hit && hit.expiresAt - Date.now() > REFRESH_MARGIN_MS ? hit.url : undefined;
+}
+
+/**
+ * URL to open a file with right now (signs a fresh URL for private buckets when needed).
+ * @param opts.download ask the browser to save the file instead of showing it
+ */
+export async function resolveFileUrl(path: string, opts: { download?: boolean } = {}): Promise<string> {
+  const cached = cachedFileUrl(path, opts);
+  if (cached) return cached;
+
+  const clean = normalize(path);
+  if (!canOpen(clean)) throw new PermissionDeniedError(`Not entitled to ${clean}`);
+  const key = `${opts.download ? 'dl' : 'view'}:${clean}`;
+  let request = pending.get(key);
+  if (!request) {
+    const ttl = getSignedUrlTtl();
+    const issuedAt = Date.now();
+    request = getDataSource()
+      .signedUrl(clean, ttl, { download: opts.download })
+      .then((url) => {
+        signedUrls.set(key, { url, expiresAt: issuedAt + ttl * 1000 });
+        return url;
+      })
+      .finally(() => {
+        pending.delete(key);
+      });
+    pending.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * URL that opens a PDF at a page (browser viewers honor #page=N).
+ */
+export function withPage(url: string, page?: number | null): string {
+  return page ? `${url.split('#')[0]}#page=${page}` : url;
+}
+
+/**
+ * Open a file in a new tab.
+ * - The tab is opened synchronously (inside the click) so popup blockers allow it, then pointed at the
+ *   signed URL once it is ready. Rejects (and closes the tab) when the URL can't be created.
+ * @param opts.page PDF page to open at
+ */
+export async function openFile(path: string, opts: { download?: boolean; page?: number | null } = {}): Promise<void> {
+  const cached = cachedFileUrl(path, opts);
+  if (cached) {
+    window.open(withPage(cached, opts.page), '_blank', 'noopener,noreferrer');
+    return;
+  }
+  const tab = window.open('about:blank', '_blank');
+  if (tab) tab.opener = null;
+  try {
+    const url = withPage(await resolveFileUrl(path, opts), opts.page);
+    if (tab) tab.location.href = url;
+    else window.location.assign(url);
+  } catch (e: unknown) {
+    tab?.close();
+    throw e;
+  }
+}
+
+/**
+ * Forget cached signed URLs (e.g., on sign-out).
+ */
+export function clearFileUrls() {
+  signedUrls.clear();
+}
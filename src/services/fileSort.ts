@@ -0,0 +1,115 @@
+/**
+ * File types and sort orders for library lists
+ * - Purpose: One definition of "type" (PDF, video, ...) and of the sort options shared by Resources,
+ *   ProgramDetail and the folder view.
+ * - Files without a size or modified date sort after the others in either direction; ties fall back to
+ *   the name, so lists stay stable between refreshes.
+ */
+
+import { isDoc, isPdf, isSpreadsheet, isVideo, type StorageFileItem } from './supabaseStorage';
+
+/** File type of a library item */
+export type FileType = 'pdf' | 'video' | 'spreadsheet' | 'doc' | 'other';
+
+export const FILE_TYPE_LABELS: Record<FileType, string> = {
+  pdf: 'PDF',
+  video: 'Video',
+  spreadsheet: 'Spreadsheet',
+  doc: 'Word document',
+  other: 'Other',
+};
+
+/**
+ * File type of a catalog item.
+ */
+export function fileTypeOf(item: StorageFileItem): FileType {
+  if (isVideo(item)) return 'video';
+  if (isPdf(item)) return 'pdf';
+  if (isSpreadsheet(item)) return 'spreadsheet';
+  if (isDoc(item)) return 'doc';
+  return 'other';
+}
+
+/** Sort orders (also the ?sort= URL values) */
+export type FileSort = 'name' | 'name-desc' | 'newest' | 'oldest' | 'largest' | 'smallest' | 'type';
+
+export const FILE_SORT_LABELS: Record<FileSort, string> = {
+  name: 'Name (A–Z)',
+  'name-desc': 'Name (Z–A)',
+  newest: 'Recently updated',
+  oldest: 'Oldest first',
+  largest: 'Largest first',
+  smallest: 'Smallest first',
+  type: 'Type',
+};
+
+/**
+ * True for a known sort value (e.g., read from the URL).
+ */
+export function isFileSort(value: unknown): value is FileSort {
+  // Own keys only: "toString" or "constructor" from a URL must not count
+  return typeof value === 'string' && Object.hasOwn(FILE_SORT_LABELS, value);
+}
+
+function nameOf(item: StorageFileItem): string {
+  return item.title || item.filename;
+}
+
+function compareNames(a: StorageFileItem, b: StorageFileItem): number {
+  return nameOf(a).localeCompare(nameOf(b), undefined, { sensitivity: 'base', numeric: true });
+}
+
+/** Compare optional numbers; missing values go last whatever the direction */
+function compareOptional(a: number | undefined, b: number | undefined, descending: boolean): number {
+  const aMissing = a === undefined || Number.isNaN(a);
+  const bMissing = b === undefined || Number.isNaN(b);
+  if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  return descending ? b - a : a - b;
+}
+
+function modifiedAt(item: StorageFileItem): number | undefined {
+  return item.updatedAt ? Date.parse(item.updatedAt) : undefined;
+}
+
+/** Order of types in the "Type" sort */
+const TYPE_ORDER: FileType[] = ['pdf', 'doc', 'spreadsheet', 'video', 'other'];
+
+/**
+ * Comparator for a sort order.
+ */
+export function compareFiles(sort: FileSort): (a: StorageFileItem, b: StorageFileItem) => number {
+  switch (sort) {
+    case 'name':
+      return compareNames;
+    case 'name-desc':
+      return (a, b) => compareNames(b, a);
+    case 'newest':
+    case 'oldest':
+      return (a, b) => compareOptional(modifiedAt(a), modifiedAt(b), sort === 'newest') || compareNames(a, b);
+    case 'largest':
+    case 'smallest':
+      return (a, b) => compareOptional(a.size, b.size, sort === 'largest') || compareNames(a, b);
+    case 'type':
+      return (a, b) =>
+        TYPE_ORDER.indexOf(fileTypeOf(a)) - TYPE_ORDER.indexOf(fileTypeOf(b)) || compareNames(a, b);
+    default: {
+      // Unreachable for typed callers; an unchecked value still gets a comparator
+      const unknown: never = sort;
+      void unknown;
+      return compareNames;
+    }
+  }
+}
+
+/**
+ * Sorted copy of a list.
+ * @param pick the catalog item behind each entry (for lists of wrappers, e.g. search hits)
+ */
+export function sortFiles<T>(
+  items: readonly T[],
+  sort: FileSort,
+  pick: (entry: T) => StorageFileItem = (entry) => entry as unknown as StorageFileItem
+): T[] {
+  const compare = compareFiles(sort);
+  return [...items].sort((a, b) => compare(pick(a), pick(b)));
+}
@@ -0,0 +1,130 @@
+/**
+ * Two-factor authentication service (Supabase Auth MFA, TOTP)
+ * - Purpose: Enroll authenticator apps, run the post-login OTP challenge and manage recovery codes.
+ * - A session with a verified factor starts at AAL1 after the password step and reaches AAL2 once a
+ *   code is verified; paid-content RLS policies should check auth.jwt()->>'aal' = 'aal2' where the
+ *   owner requires 2FA.
+ * - Recovery codes: a generate_mfa_recovery_codes RPC returns fresh plaintext codes once (it should store
+ *   only hashes). An "mfa-recover" Edge Function consumes a code and removes the user's factors with the
+ *   service role, so the member signs in at AAL1 and sets 2FA up again.
+ * - Neither the RPC nor the Edge Function is in this repo. They are deployed separately and must do the
+ *   hashing, single use and rate limiting themselves; without them, recovery codes don't work.
+ */
+
+import { fromTable, getSupabaseClient, unwrap } from '../lib/supabase';
+
+/** Issuer label shown in authenticator apps */
+const TOTP_ISSUER = 'ClinicalRxQ';
+
+/** Assurance state of the current session */
+export interface MfaStatus {
+  /** The user has a verified TOTP factor */
+  enrolled: boolean;
+  /** The session still has to pass the OTP challenge (AAL1 → AAL2) */
+  challengePending: boolean;
+  /** The status couldn't be read; the session is held at the challenge step until a retry succeeds */
+  unavailable?: boolean;
+}
+
+/** Pending TOTP enrollment */
+export interface TotpEnrollment {
+  factorId: string;
+  /** Image src for the QR code */
+  qrCode: string;
+  /** Secret for manual entry */
+  secret: string;
+}
+
+/**
+ * Normalize the enrollment QR code into an image src (older servers return raw SVG markup).
+ */
+function toQrSrc(qr: string): string {
+  return qr.startsWith('data:') ? qr : `data:image/svg+xml;utf-8,${encodeURIComponent(qr)}`;
+}
+
+/**
+ * Two-factor services
+ */
+export const mfaService = {
+  /**
+   * Read the session's assurance levels (decoded from the access token; no network call).
+   */
+  async getStatus(): Promise<MfaStatus> {
+    const { data, error } = await getSupabaseClient().auth.mfa.getAuthenticatorAssuranceLevel();
+    if (error) throw error;
+    return {
+      enrolled: data.nextLevel === 'aal2',
+      challengePending: data.nextLevel === 'aal2' && data.currentLevel !== 'aal2',
+    };
+  },
+
+  /** Id of the first verified TOTP factor (null when none) */
+  async getVerifiedFactorId(): Promise<string | null> {
+    const { data, error } = await getSupabaseClient().auth.mfa.listFactors();
+    if (error) throw error;
+    return data.totp[0]?.id ?? null;
+  },
+
+  /**
+   * Start enrolling an authenticator app.
+   * - Abandoned (unverified) enrollments are removed first so a retry doesn't collide.
+   */
+  async enrollTotp(): Promise<TotpEnrollment> {
+    const client = getSupabaseClient();
+    const { data: factors, error: listError } = await client.auth.mfa.listFactors();
+    if (listError) throw listError;
+    for (const f of factors.all) {
+      if (f.factor_type === 'totp' && f.status === 'unverified') {
+        await client.auth.mfa.unenroll({ factorId: f.id });
+      }
+    }
+
+    const { data, error } = await client.auth.mfa.enroll({
+      factorType: 'totp',
+      issuer: TOTP_ISSUER,
+      friendlyName: `Authenticator ${new Date().toISOString().slice(0, 10)}`,
+    });
+    if (error) throw error;
+    return { factorId: data.id, qrCode: toQrSrc(data.totp.qr_code), secret: data.totp.secret };
+  },
+
+  /**
+   * Verify a code for a factor (finishes enrollment, or passes the login challenge).
+   */
+  async verifyCode(factorId: string, code: string): Promise<void> {
+    const { error } = await getSupabaseClient().auth.mfa.challengeAndVerify({ factorId, code: code.trim() });
+    if (error) throw error;
+  },
+
+  /** Remove a factor (turns 2FA off when it's the last one; requires an AAL2 session) */
+  async unenroll(factorId: string): Promise<void> {
+    const { error } = await getSupabaseClient().auth.mfa.unenroll({ factorId });
+    if (error) throw error;
+  },
+
+  /**
+   * Replace the user's recovery codes; the returned plaintext codes are shown once.
+   */
+  async generateRecoveryCodes(): Promise<string[]> {
+    return (await unwrap(getSupabaseClient().rpc('generate_mfa_recovery_codes'))) ?? [];
+  },
+
+  /**
+   * Sign in with a recovery code instead of an OTP.
+   * - Removes the user's factors server-side, then refreshes the session to drop the AAL2 requirement.
+   */
+  async recoverWithCode(code: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client.functions.invoke('mfa-recover', {
+      body: { code: code.trim().toUpperCase() },
+    });
+    if (error) throw new Error(error.message || 'That recovery code was not accepted.');
+    const { error: refreshError } = await client.auth.refreshSession();
+    if (refreshError) throw refreshError;
+  },
+
+  /** Owners: require (or stop requiring) 2FA for every member of the team */
+  async setTeamRequirement(organizationId: string, required: boolean): Promise<void> {
+    await unwrap(fromTable('organizations').update({ require_mfa: required }).eq('id', organizationId));
+  },
+};
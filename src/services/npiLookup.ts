@@ -0,0 +1,188 @@
+/**
+ * Pharmacy NPI / NCPDP verification
+ * - Purpose: Confirm that a registering pharmacy exists and is active before creating the account.
+ * - Pluggable lookup: the registry implementation calls the "npi-lookup" Edge Function (NPPES has no CORS),
+ *   the fixture implementation answers from a local JSON dataset for demos and offline work.
+ * - Selection: VITE_NPI_LOOKUP env -> localStorage NPI_LOOKUP -> 'registry'.
+ *     localStorage.setItem('NPI_LOOKUP', 'fixture')
+ * - Not a gate: this runs in the browser only, to catch typos on the registration form. Nothing on the
+ *   server re-checks the NPI/NCPDP sent as sign-up metadata, so anyone calling signUp directly can register
+ *   made-up numbers; treat profile npi/ncpdp as unverified until a server-side check exists.
+ */
+
+import { getSupabaseClient } from '../lib/supabase';
+import fixturePharmacies from '../fixtures/pharmacies.json';
+
+/** Pharmacy record returned by a lookup */
+export interface PharmacyRecord {
+  /** 10-digit National Provider Identifier */
+  npi: string;
+  /** 7-digit NCPDP Provider ID, when known */
+  ncpdp?: string;
+  /** Organization (legal or DBA) name */
+  name: string;
+  city?: string;
+  state?: string;
+  /** Primary NUCC taxonomy code (pharmacies are 3336*) */
+  taxonomy?: string;
+  /** False when the NPI has been deactivated */
+  active: boolean;
+}
+
+/** Lookup contract implemented by the registry and fixture sources */
+export interface NpiLookup {
+  findByNpi(npi: string): Promise<PharmacyRecord | null>;
+  findByNcpdp(ncpdp: string): Promise<PharmacyRecord | null>;
+}
+
+/** Outcome of verifyPharmacy */
+export interface PharmacyVerification {
+  status: 'verified' | 'invalid' | 'not_found' | 'inactive' | 'mismatch';
+  message: string;
+  record?: PharmacyRecord;
+}
+
+/** Strip everything but digits */
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Validate an NPI check digit (Luhn over the "80840" card-issuer prefix + 10 digits).
+ */
+export function isValidNpi(npi: string): boolean {
+  const d = digits(npi);
+  if (d.length !== 10) return false;
+  const all = `80840${d}`;
+  let sum = 0;
+  for (let i = 0; i < all.length; i++) {
+    let n = Number(all[all.length - 1 - i]);
+    if (i % 2 === 1) {
+      n *= 2;
+      if (n > 9) n -= 9;
+    }
+    sum += n;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Validate an NCPDP Provider ID check digit.
+ * - (d1 + d3 + d5) + 2 × (d2 + d4 + d6); the units digit must equal d7.
+ */
+export function isValidNcpdp(ncpdp: string): boolean {
+  const d = digits(ncpdp);
+  if (d.length !== 7) return false;
+  const n = d.split('').map(Number);
+  const total = n[0] + n[2] + n[4] + 2 * (n[1] + n[3] + n[5]);
+  return total % 10 === n[6];
+}
+
+/**
+ * Fixture-backed lookup (local dataset).
+ */
+export function createFixtureNpiLookup(records: PharmacyRecord[]): NpiLookup {
+  return {
+    async findByNpi(npi: string) {
+      const d = digits(npi);
+      return records.find((r) => r.npi === d) ?? null;
+    },
+    async findByNcpdp(ncpdp: string) {
+      const d = digits(ncpdp);
+      return records.find((r) => r.ncpdp === d) ?? null;
+    },
+  };
+}
+
+/**
+ * Registry-backed lookup via the "npi-lookup" Edge Function.
+ * - The function proxies NPPES (and the NCPDP dataDirect feed for NCPDP IDs) and returns PharmacyRecord | null.
+ */
+export function createRegistryNpiLookup(): NpiLookup {
+  async function invoke(body: { npi?: string; ncpdp?: string }): Promise<PharmacyRecord | null> {
+    const { data, error } = await getSupabaseClient().functions.invoke<{ pharmacy: PharmacyRecord | null }>(
+      'npi-lookup',
+      { body }
+    );
+    if (error) throw new Error(error.message || 'Pharmacy lookup failed.');
+    return data?.pharmacy ?? null;
+  }
+  return {
+    findByNpi: (npi: string) => invoke({ npi: digits(npi) }),
+    findByNcpdp: (ncpdp: string) => invoke({ ncpdp: digits(ncpdp) }),
+  };
+}
+
+/**
+ * Read the configured lookup mode.
+ */
+function getNpiLookupMode(): 'registry' | 'fixture' {
+  const envMode = (import.meta as any)?.env?.VITE_NPI_LOOKUP as string | undefined;
+  let lsMode = '';
+  try {
+    lsMode = typeof window !== 'undefined' ? window.localStorage.getItem('NPI_LOOKUP') || '' : '';
+  } catch {
+    lsMode = '';
+  }
+  const mode = ((envMode && envMode.trim()) || lsMode.trim()).toLowerCase();
+  return mode === 'fixture' ? 'fixture' : 'registry';
+}
+
+let activeLookup: NpiLookup | null = null;
+
+/**
+ * Get the active lookup (configured once, overridable via setNpiLookup).
+ */
+export function getNpiLookup(): NpiLookup {
+  if (!activeLookup) {
+    activeLookup =
+      getNpiLookupMode() === 'fixture'
+        ? createFixtureNpiLookup(fixturePharmacies as PharmacyRecord[])
+        : createRegistryNpiLookup();
+  }
+  return activeLookup;
+}
+
+/**
+ * Replace the active lookup (e.g., a fixture dataset in demos).
+ */
+export function setNpiLookup(lookup: NpiLookup | null): void {
+  activeLookup = lookup;
+}
+
+/**
+ * Verify a pharmacy by NPI, cross-checking the NCPDP ID when one is given.
+ * - Only pharmacy taxonomies (3336*) are accepted.
+ */
+export async function verifyPharmacy(
+  input: { npi: string; ncpdp?: string },
+  lookup: NpiLookup = getNpiLookup()
+): Promise<PharmacyVerification> {
+  const npi = digits(input.npi);
+  const ncpdp = digits(input.ncpdp ?? '');
+
+  if (!isValidNpi(npi)) {
+    return { status: 'invalid', message: 'NPI must be 10 digits with a valid check digit.' };
+  }
+  if (ncpdp && !isValidNcpdp(ncpdp)) {
+    return { status: 'invalid', message: 'NCPDP ID must be 7 digits with a valid check digit.' };
+  }
+
+  const record = await lookup.findByNpi(npi);
+  if (!record) {
+    return { status: 'not_found', message: 'No pharmacy is registered under this NPI.' };
+  }
+  if (record.taxonomy && !record.taxonomy.startsWith('3336')) {
+    return { status: 'mismatch', message: 'This NPI is not registered to a pharmacy.', record };
+  }
+  if (!record.active) {
+    return { status: 'inactive', message: 'This NPI has been deactivated.', record };
+  }
+  if (ncpdp) {
+    const byNcpdp = record.ncpdp ? record : await lookup.findByNcpdp(ncpdp);
+    if (!byNcpdp || byNcpdp.ncpdp !== ncpdp || byNcpdp.npi !== npi) {
+      return { status: 'mismatch', message: 'The NCPDP ID does not match this NPI.', record };
+    }
+  }
+  return { status: 'verified', message: `Verified: ${record.name}`, record };
+}
@@ -0,0 +1,316 @@
+/**
+ * Program binder PDF
+ * - Purpose: One printable PDF of a program's protocols and forms (getProgramResourcesGrouped), for the
+ *   physical binder pharmacies keep for inspectors.
+ * - Layout: cover page (pharmacy and program name, date), table of contents with page numbers, then one
+ *   divider page per section followed by its documents (by name). Every page after the cover gets a
+ *   "Program · Page N of M" footer so the contents' page numbers can be found on paper.
+ * - PDFs are merged page by page; PNG/JPEG images get a page of their own. Anything else (videos,
+ *   spreadsheets, Word files) and files that can't be downloaded or read are skipped, returned in `skipped`
+ *   and listed at the end of the contents.
+ * - Built entirely in the browser with pdf-lib; file URLs come from services/fileAccess (signed on demand).
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { resolveFileUrl } from './fileAccess';
+import { sortFiles } from './fileSort';
+import { ProgramCategoryLabels, type ProgramCategory, type ProgramResourcesGrouped } from './storageCatalog';
+import { isDoc, isPdf, isSpreadsheet, isVideo, type StorageFileItem } from './supabaseStorage';
+
+/** Sections of the binder, in order */
+const BINDER_SECTIONS = ['protocols', 'forms'] as const satisfies readonly ProgramCategory[];
+
+/** US Letter, in PDF points */
+const PAGE_SIZE: [number, number] = [612, 792];
+const MARGIN = 54;
+/** Contents lines per page (the first page also holds the heading) */
+const TOC_LINE_HEIGHT = 18;
+const TOC_LINES_PER_PAGE = Math.floor((PAGE_SIZE[1] - 2 * MARGIN - 60) / TOC_LINE_HEIGHT);
+
+const INK = rgb(0.06, 0.09, 0.16);
+const MUTED = rgb(0.39, 0.45, 0.55);
+const BRAND = rgb(0.15, 0.39, 0.92);
+
+export interface BinderProgress {
+  /** Files processed (merged or skipped) */
+  done: number;
+  total: number;
+  /** Path being added */
+  current: string | null;
+}
+
+/** A file left out of the binder */
+export interface SkippedFile {
+  file: StorageFileItem;
+  /** Short reason, e.g. "Video" or "Download failed" */
+  reason: string;
+}
+
+export interface ProgramBinder {
+  bytes: Uint8Array;
+  pageCount: number;
+  /** Documents merged */
+  included: number;
+  skipped: SkippedFile[];
+}
+
+interface BuildBinderOptions {
+  programName: string;
+  pharmacyName: string;
+  onProgress?: (progress: BinderProgress) => void;
+  signal?: AbortSignal;
+}
+
+/** How a file goes into the binder */
+type BinderKind = 'pdf' | 'png' | 'jpg' | null;
+
+function binderKind(file: StorageFileItem): BinderKind {
+  const lower = file.filename.toLowerCase();
+  if (isPdf(file) || file.mimeType === 'application/pdf') return 'pdf';
+  if (lower.endsWith('.png') || file.mimeType === 'image/png') return 'png';
+  if (lower.endsWith('.jpg') || lower.endsWith('.jpeg') || file.mimeType === 'image/jpeg') return 'jpg';
+  return null;
+}
+
+/** Reason shown for a file type that can't be merged */
+function unsupportedReason(file: StorageFileItem): string {
+  if (isVideo(file)) return 'Video';
+  if (isSpreadsheet(file)) return 'Spreadsheet';
+  if (isDoc(file)) return 'Word document';
+  return 'Unsupported file type';
+}
+
+/**
+ * Text the standard PDF fonts can draw (WinAnsi): accents are dropped, typographic punctuation becomes
+ * ASCII, anything else is removed.
+ */
+function pdfText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '');
+}
+
+/** Cut text to a width, ending with "..." when shortened */
+function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  if (font.widthOfTextAtSize(text, size) <= width) return text;
+  let end = text.length;
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}...`, size) > width) end--;
+  return `${text.slice(0, end).trimEnd()}...`;
+}
+
+/** Draw text centered horizontally on the page */
+function drawCentered(page: PDFPage, text: string, y: number, font: PDFFont, size: number, color = INK) {
+  const line = fitText(pdfText(text), font, size, page.getWidth() - 2 * MARGIN);
+  page.drawText(line, { x: (page.getWidth() - font.widthOfTextAtSize(line, size)) / 2, y, size, font, color });
+}
+
+/** One line of the contents */
+interface TocLine {
+  text: string;
+  /** Printed page number (none for headings without pages and skipped files) */
+  page?: number;
+  style: 'section' | 'entry' | 'note';
+}
+
+/** A section's documents, loaded */
+interface LoadedSection {
+  title: string;
+  docs: Array<{ file: StorageFileItem; pdf: PDFDocument }>;
+}
+
+async function fetchBytes(path: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const response = await fetch(await resolveFileUrl(path), { signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.arrayBuffer();
+}
+
+/** A single-page PDF holding an image, scaled to fit the page margins */
+async function imageDocument(bytes: ArrayBuffer, kind: 'png' | 'jpg'): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const image = kind === 'png' ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+  const page = pdf.addPage(PAGE_SIZE);
+  const scale = Math.min(1, (PAGE_SIZE[0] - 2 * MARGIN) / image.width, (PAGE_SIZE[1] - 2 * MARGIN) / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  page.drawImage(image, { x: (PAGE_SIZE[0] - width) / 2, y: (PAGE_SIZE[1] - height) / 2, width, height });
+  return pdf;
+}
+
+function isAbort(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError';
+}
+
+/**
+ * Build the binder PDF for a program from its grouped files.
+ * - Rejects with an AbortError when `signal` aborts, and with an Error when no document could be merged.
+ */
+export async function buildProgramBinder(
+  grouped: Pick<ProgramResourcesGrouped, 'protocols' | 'forms'>,
+  opts: BuildBinderOptions
+): Promise<ProgramBinder> {
+  const { programName, pharmacyName, onProgress, signal } = opts;
+  const sections = BINDER_SECTIONS.map((key) => ({
+    title: ProgramCategoryLabels[key],
+    files: sortFiles(grouped[key], 'name'),
+  }));
+
+  const progress: BinderProgress = {
+    done: 0,
+    total: sections.reduce((sum, s) => sum + s.files.length, 0),
+    current: null,
+  };
+  const report = () => onProgress?.({ ...progress });
+  report();
+
+  // Read every file first, so a section whose files all fail gets no divider
+  const skipped: SkippedFile[] = [];
+  const loaded: LoadedSection[] = [];
+  for (const section of sections) {
+    const docs: LoadedSection['docs'] = [];
+    for (const file of section.files) {
+      signal?.throwIfAborted();
+      progress.current = file.path;
+      report();
+      const kind = binderKind(file);
+      if (!kind) {
+        skipped.push({ file, reason: unsupportedReason(file) });
+      } else {
+        let bytes: ArrayBuffer | null = null;
+        try {
+          bytes = await fetchBytes(file.path, signal);
+        } catch (e: unknown) {
+          if (isAbort(e)) throw e;
+          skipped.push({ file, reason: 'Download failed' });
+        }
+        if (bytes) {
+          try {
+            docs.push({ file, pdf: kind === 'pdf' ? await PDFDocument.load(bytes) : await imageDocument(bytes, kind) });
+          } catch {
+            skipped.push({ file, reason: kind === 'pdf' ? 'Protected or damaged PDF' : 'Unreadable image' });
+          }
+        }
+      }
+      progress.done++;
+      report();
+    }
+    if (docs.length) loaded.push({ title: section.title, docs });
+  }
+
+  const included = loaded.reduce((sum, s) => sum + s.docs.length, 0);
+  if (!included) throw new Error('None of the protocols or forms could be added to the binder.');
+
+  const binder = await PDFDocument.create();
+  const regular = await binder.embedFont(StandardFonts.Helvetica);
+  const bold = await binder.embedFont(StandardFonts.HelveticaBold);
+  const prepared = new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+  binder.setTitle(pdfText(`${programName} - Protocol Binder`));
+  binder.setAuthor(pdfText(pharmacyName));
+  binder.setCreator('ClinicalRxQ');
+
+  // Body: dividers and documents; page indexes are fixed up once the front matter's size is known
+  const toc: Array<Omit<TocLine, 'page'> & { bodyIndex?: number }> = [];
+  for (const section of loaded) {
+    toc.push({ text: section.title, style: 'section', bodyIndex: binder.getPageCount() });
+    const divider = binder.addPage(PAGE_SIZE);
+    divider.drawRectangle({ x: 0, y: PAGE_SIZE[1] / 2 - 90, width: PAGE_SIZE[0], height: 4, color: BRAND });
+    drawCentered(divider, section.title, PAGE_SIZE[1] / 2 - 20, bold, 30);
+    drawCentered(
+      divider,
+      `${section.docs.length} ${section.docs.length === 1 ? 'document' : 'documents'}`,
+      PAGE_SIZE[1] / 2 - 50,
+      regular,
+      13,
+      MUTED
+    );
+
+    for (const { file, pdf } of section.docs) {
+      toc.push({ text: file.title || file.filename, style: 'entry', bodyIndex: binder.getPageCount() });
+      const pages = await binder.copyPages(pdf, pdf.getPageIndices());
+      pages.forEach((page) => binder.addPage(page));
+    }
+  }
+  if (skipped.length) {
+    toc.push({ text: 'Not included (open these in the member hub)', style: 'section' });
+    skipped.forEach(({ file, reason }) =>
+      toc.push({ text: `${file.title || file.filename} (${reason})`, style: 'note' })
+    );
+  }
+
+  // Front matter: cover + contents pages
+  const tocPages = Math.ceil(toc.length / TOC_LINES_PER_PAGE);
+  const offset = 1 + tocPages;
+  const lines: TocLine[] = toc.map(({ bodyIndex, ...line }) => ({
+    ...line,
+    page: bodyIndex === undefined ? undefined : bodyIndex + offset + 1,
+  }));
+
+  const cover = binder.insertPage(0, PAGE_SIZE);
+  cover.drawRectangle({ x: 0, y: PAGE_SIZE[1] - 160, width: PAGE_SIZE[0], height: 160, color: BRAND });
+  drawCentered(cover, 'ClinicalRxQ', PAGE_SIZE[1] - 90, bold, 22, rgb(1, 1, 1));
+  drawCentered(cover, pharmacyName, PAGE_SIZE[1] / 2 + 80, bold, 26);
+  drawCentered(cover, programName, PAGE_SIZE[1] / 2 + 30, regular, 20);
+  drawCentered(cover, 'Protocol Binder', PAGE_SIZE[1] / 2, regular, 14, MUTED);
+  drawCentered(
+    cover,
+    loaded.map((s) => `${s.docs.length} ${s.title.toLowerCase()}`).join(' · '),
+    PAGE_SIZE[1] / 2 - 60,
+    regular,
+    11,
+    MUTED
+  );
+  drawCentered(cover, `Prepared ${prepared}`, MARGIN, regular, 10, MUTED);
+
+  const right = PAGE_SIZE[0] - MARGIN;
+  for (let p = 0; p < tocPages; p++) {
+    const page = binder.insertPage(1 + p, PAGE_SIZE);
+    let y = PAGE_SIZE[1] - MARGIN - 20;
+    page.drawText(p === 0 ? 'Contents' : 'Contents (continued)', { x: MARGIN, y, size: 20, font: bold, color: INK });
+    y -= 40;
+    for (const line of lines.slice(p * TOC_LINES_PER_PAGE, (p + 1) * TOC_LINES_PER_PAGE)) {
+      const font = line.style === 'section' ? bold : regular;
+      const size = line.style === 'section' ? 12 : 10.5;
+      const x = line.style === 'section' ? MARGIN : MARGIN + 14;
+      const color = line.style === 'note' ? MUTED : INK;
+      const number = line.page === undefined ? '' : String(line.page);
+      const numberWidth = font.widthOfTextAtSize(number, size);
+      const text = fitText(pdfText(line.text), font, size, right - x - numberWidth - 40);
+      page.drawText(text, { x, y, size, font, color });
+      if (number) {
+        page.drawText(number, { x: right - numberWidth, y, size, font, color });
+        // Dot leader between the title and its page number
+        const from = x + font.widthOfTextAtSize(text, size) + 6;
+        const to = right - numberWidth - 6;
+        const dot = regular.widthOfTextAtSize('.', size);
+        if (to > from) {
+          page.drawText('.'.repeat(Math.floor((to - from) / dot)), { x: from, y, size, font: regular, color: MUTED });
+        }
+      }
+      y -= TOC_LINE_HEIGHT;
+    }
+  }
+
+  // Footers (rotated source pages are left alone; the text would land sideways)
+  const pageCount = binder.getPageCount();
+  const footerName = pdfText(programName);
+  binder.getPages().forEach((page, i) => {
+    if (i === 0 || page.getRotation().angle % 360 !== 0) return;
+    const text = `${footerName} · Page ${i + 1} of ${pageCount}`;
+    const { width } = page.getSize();
+    page.drawText(text, {
+      x: (width - regular.widthOfTextAtSize(text, 8)) / 2,
+      y: 18,
+      size: 8,
+      font: regular,
+      color: MUTED,
+    });
+  });
+
+  progress.current = null;
+  report();
+  return { bytes: await binder.save(), pageCount, included, skipped };
+}
@@ -1,7 +1,11 @@
 /**
  * Storage catalog (domain-specific helpers)
- * - Primary source: Supabase PostgREST table "storage_files_catalog" (bucket_name === "clinicalrxqfiles").
- * - Fallback: Supabase Storage REST recursive listing (unchanged).
+ * - Primary source: table "storage_files_catalog" (bucket_name === "clinicalrxqfiles"), read through the
+ *   configured data source (lib/dataSource: live Supabase or offline fixtures). Each call is a single
+ *   prefix-OR query, so a program tree or several programs come back in one round trip and are grouped
+ *   client-side.
+ * - Fallback: Storage recursive listing (paged; folders that fail to list are returned in `failures`, so pages
+ *   can say the listing is incomplete).
  * - Purpose: Provide high-level queries aligned with your exact folder structure.
  * - Includes the full, fixed program slug list including "timemymeds".
  * - UI constraint: Titles remove only the last extension; preserve original name/casing.
@@ -14,9 +18,11 @@ import {
   listGlobalHandouts,
   StorageFileItem,
   stripOneExtension,
-  buildPublicUrl,
+  buildFileUrl,
+  type StorageListFailure,
 } from './supabaseStorage';
-import { getSupabaseAnonKey, getSupabaseUrl } from '../config/supabaseConfig';
+import { usesSignedUrls } from './fileAccess';
+import { getDataSource, type CatalogRow, type ContentMatch } from '../lib/dataSource';
 
 /** Fixed program slugs present in the bucket (must match folder names exactly) */
 export const ProgramSlugs = [
@@ -29,60 +35,16 @@ export const ProgramSlugs = [
 
 export type ProgramSlug = typeof ProgramSlugs[number];
 
-/**
- * Internal: POSTGREST GET wrapper for /rest/v1
- * - Uses centralized Supabase URL + anon key.
- */
-async function pgSelect<T>(pathAndQuery: string): Promise<T> {
-  const base = getSupabaseUrl();
-  const anon = getSupabaseAnonKey();
-  if (!base) {
-    throw new Error('Supabase URL is not configured. Set VITE_SUPABASE_URL or localStorage SUPABASE_URL.');
-  }
-  const url = `${base}/rest/v1${pathAndQuery}`;
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: {
-      apikey: anon,
-      Authorization: `Bearer ${anon}`,
-      Accept: 'application/json',
-    },
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(text || `PostgREST error: ${res.status}`);
-  }
-  // Some 204 responses may occur, but selects should generally return JSON
-  if (res.status === 204) return [] as unknown as T;
-  return (await res.json()) as T;
-}
-
-/**
- * Row shape from storage_files_catalog
- */
-interface StorageCatalogRow {
-  id: string;
-  bucket_name: string;
-  file_name: string;
-  file_path: string;
-  file_url?: string | null;
-  file_size?: number | null;
-  mime_type?: string | null;
-  last_modified?: string | null;
-  created_at?: string | null;
-  updated_at?: string | null;
-}
-
 /**
  * Map DB row → UI StorageFileItem
  * - Title is filename without only the last extension.
- * - URL uses file_url if present; otherwise constructs from bucket + path.
+ * - URL uses file_url if present (public bucket only); otherwise the file link for the path.
  */
-function mapRowToItem(row: StorageCatalogRow): StorageFileItem {
+function mapRowToItem(row: CatalogRow): StorageFileItem {
   const filename = row.file_name;
   const title = stripOneExtension(filename);
   const path = row.file_path.replace(/^\/+/, ''); // normalize
-  const url = row.file_url && row.file_url.trim().length > 0 ? row.file_url : buildPublicUrl(path);
+  const url = !usesSignedUrls() && row.file_url && row.file_url.trim().length > 0 ? row.file_url : buildFileUrl(path);
   return {
     path,
     url,
@@ -90,83 +52,96 @@ function mapRowToItem(row: StorageCatalogRow): StorageFileItem {
     title,
     mimeType: row.mime_type || undefined,
     size: typeof row.file_size === 'number' ? row.file_size : undefined,
+    updatedAt: row.last_modified || row.updated_at || undefined,
   };
 }
 
+/** Program sub-folders, as used in the UI */
+export type ProgramCategory = 'forms' | 'protocols' | 'resources' | 'training';
+
+/** Program files grouped by sub-folder */
+export type ProgramResourcesGrouped = Record<ProgramCategory, StorageFileItem[]>;
+
+/** Files from a catalog query, plus storage folders that couldn't be listed (storage fallback only) */
+export interface CatalogListing<T> {
+  items: T;
+  failures: StorageListFailure[];
+}
+
+const PROGRAM_CATEGORIES: readonly ProgramCategory[] = ['forms', 'protocols', 'resources', 'training'];
+
 /**
  * Query helper: list files whose file_path starts with any of the given prefixes (case-insensitive).
- * - Performs multiple ilike queries (one per prefix) and merges results uniquely by file_path.
+ * - One data-source call for all prefixes; results are unique by file_path and sorted by it.
  */
 async function listCatalogByPrefixes(prefixes: string[]): Promise<StorageFileItem[]> {
   if (!prefixes.length) return [];
-  const bucket = 'clinicalrxqfiles';
-  const results: Record<string, StorageFileItem> = {};
+  const rows = await getDataSource().listCatalog(prefixes);
 
-  for (const p of prefixes) {
-    const encoded = encodeURIComponent(`${p}%`);
-    // Build query: select * where bucket_name=eq.clinicalrxqfiles and file_path ilike prefix%
-    const path = `/storage_files_catalog?select=*&bucket_name=eq.${encodeURIComponent(
-      bucket
-    )}&file_path=ilike.${encoded}&order=file_path.asc`;
-    const rows = await pgSelect<StorageCatalogRow[]>(path);
-    for (const r of rows) {
-      const item = mapRowToItem(r);
-      results[item.path] = item;
-    }
+  const results = new Map<string, StorageFileItem>();
+  for (const r of rows) {
+    const item = mapRowToItem(r);
+    results.set(item.path, item);
   }
-
-  return Object.values(results);
+  return Array.from(results.values());
 }
 
 /**
- * Catalog-backed category lists (prefer DB, fall back to Storage listing)
+ * Group program files by "<slug>/<category>/..." (category folder matched case-insensitively).
+ * - Files outside the four category folders are not shown, as before.
  */
-async function catalogGlobalHandouts(): Promise<StorageFileItem[]> {
-  return listCatalogByPrefixes(['patienthandouts/']);
-}
-async function catalogGlobalGuidelines(): Promise<StorageFileItem[]> {
-  return listCatalogByPrefixes(['clinicalguidelines/']);
-}
-async function catalogGlobalBilling(): Promise<StorageFileItem[]> {
-  return listCatalogByPrefixes(['medicalbilling/']);
+function groupProgramFiles(slugs: readonly ProgramSlug[], items: StorageFileItem[]): Record<ProgramSlug, ProgramResourcesGrouped> {
+  const out = {} as Record<ProgramSlug, ProgramResourcesGrouped>;
+  for (const slug of slugs) out[slug] = { forms: [], protocols: [], resources: [], training: [] };
+
+  for (const item of items) {
+    const [top, folder] = item.path.split('/');
+    const slug = slugs.find((s) => s.toLowerCase() === top?.toLowerCase());
+    const category = PROGRAM_CATEGORIES.find((c) => c === folder?.toLowerCase());
+    if (slug && category) out[slug][category].push(item);
+  }
+  return out;
 }
 
 /**
- * Catalog-backed program category
- * - Handles case variants for "forms" ("forms" and "Forms").
+ * Storage fallback results: report folders that couldn't be listed.
+ * - Some files listed: return them with the failures (better than hiding the whole category).
+ * - Nothing listed: throw, so the page shows an error instead of an empty library.
  */
-async function catalogProgramCategory(
-  programSlug: string,
-  category: 'forms' | 'protocols' | 'resources' | 'training'
-): Promise<StorageFileItem[]> {
-  const candidates = category === 'forms' ? ['forms', 'Forms'] : [category];
-  const prefixes = candidates.map((c) => `${programSlug}/${c}/`);
-  return listCatalogByPrefixes(prefixes);
+function fromStorageListing<T>(items: T, failures: StorageListFailure[], hasItems: boolean): CatalogListing<T> {
+  if (failures.length && !hasItems) {
+    const summary = failures.map((f) => `${f.prefix} (${f.message})`).join('; ');
+    throw new Error(`Could not list storage folders: ${summary}`);
+  }
+  return { items, failures };
 }
 
+/** Top-level folders of the global library */
+const GLOBAL_PREFIXES = {
+  handouts: 'patienthandouts/',
+  guidelines: 'clinicalguidelines/',
+  billing: 'medicalbilling/',
+} as const;
+
 /**
  * Aggregate set for "All resources"
- * - Lightweight union of global sets + optionally a single selected program to keep things performant.
+ * - Global sets + optionally a single selected program, in one catalog query.
  * - Prefers DB catalog; falls back to storage listing if DB unavailable.
  */
-export async function getAllResources(params?: { includeProgram?: ProgramSlug }): Promise<StorageFileItem[]> {
+export async function getAllResources(params?: {
+  includeProgram?: ProgramSlug;
+}): Promise<CatalogListing<StorageFileItem[]>> {
+  const program = params?.includeProgram;
   try {
-    const [handouts, guidelines, billing] = await Promise.all([
-      catalogGlobalHandouts(),
-      catalogGlobalGuidelines(),
-      catalogGlobalBilling(),
-    ]);
-    const base = [...handouts, ...guidelines, ...billing];
+    const prefixes: string[] = Object.values(GLOBAL_PREFIXES);
+    if (program) prefixes.push(`${program}/`);
+    const items = await listCatalogByPrefixes(prefixes);
+    if (!program) return { items, failures: [] };
 
-    if (!params?.includeProgram) return base;
-
-    const [forms, protocols, resources, training] = await Promise.all([
-      catalogProgramCategory(params.includeProgram, 'forms'),
-      catalogProgramCategory(params.includeProgram, 'protocols'),
-      catalogProgramCategory(params.includeProgram, 'resources'),
-      catalogProgramCategory(params.includeProgram, 'training'),
-    ]);
-    return [...base, ...forms, ...protocols, ...resources, ...training];
+    // Keep only the program's category folders, as the grouped view does
+    const { forms, protocols, resources, training } = groupProgramFiles([program], items)[program];
+    const globals = items.filter((i) => !i.path.toLowerCase().startsWith(`${program}/`));
+    return { items: [...globals, ...forms, ...protocols, ...resources, ...training], failures: [] };
   } catch {
     // Fallback: storage recursive listing
     const [handouts, guidelines, billing] = await Promise.all([
@@ -174,11 +149,15 @@ export async function getAllResources(params?: { includeProgram?: ProgramSlug })
       listGlobalGuidelines(),
       listGlobalBilling(),
     ]);
-    const base = [...handouts, ...guidelines, ...billing];
-    if (!params?.includeProgram) return base;
+    const items = [...handouts.items, ...guidelines.items, ...billing.items];
+    const failures = [...handouts.failures, ...guidelines.failures, ...billing.failures];
 
-    const { forms, protocols, resources, training } = await listAllForProgram(params.includeProgram);
-    return [...base, ...forms, ...protocols, ...resources, ...training];
+    if (program) {
+      const grouped = await listAllForProgram(program);
+      items.push(...grouped.forms, ...grouped.protocols, ...grouped.resources, ...grouped.training);
+      failures.push(...grouped.failures);
+    }
+    return fromStorageListing(items, failures, items.length > 0);
   }
 }
 
@@ -186,55 +165,82 @@ export async function getAllResources(params?: { includeProgram?: ProgramSlug })
  * Get resources for a single global category.
  * - Prefers DB catalog; falls back to storage listing.
  */
-export async function getGlobalCategory(cat: 'handouts' | 'guidelines' | 'billing'): Promise<StorageFileItem[]> {
+export async function getGlobalCategory(cat: keyof typeof GLOBAL_PREFIXES): Promise<CatalogListing<StorageFileItem[]>> {
   try {
-    switch (cat) {
-      case 'handouts':
-        return catalogGlobalHandouts();
-      case 'guidelines':
-        return catalogGlobalGuidelines();
-      case 'billing':
-        return catalogGlobalBilling();
-      default:
-        return [];
-    }
+    return { items: await listCatalogByPrefixes([GLOBAL_PREFIXES[cat]]), failures: [] };
   } catch {
-    switch (cat) {
-      case 'handouts':
-        return listGlobalHandouts();
-      case 'guidelines':
-        return listGlobalGuidelines();
-      case 'billing':
-        return listGlobalBilling();
-      default:
-        return [];
-    }
+    const listing =
+      cat === 'handouts' ? listGlobalHandouts() : cat === 'guidelines' ? listGlobalGuidelines() : listGlobalBilling();
+    const { items, failures } = await listing;
+    return fromStorageListing(items, failures, items.length > 0);
   }
 }
 
 /**
- * Get all resources for a program, grouped.
- * - Prefers DB catalog; falls back to storage listing.
+ * Get all resources for several programs, grouped per program.
+ * - One catalog query for the whole set of program trees; grouped client-side.
+ * - Prefers DB catalog; falls back to storage listing per program.
  */
-export async function getProgramResourcesGrouped(slug: ProgramSlug): Promise<{
-  forms: StorageFileItem[];
-  protocols: StorageFileItem[];
-  resources: StorageFileItem[];
-  training: StorageFileItem[];
-}> {
+export async function getProgramsResourcesGrouped(
+  slugs: readonly ProgramSlug[]
+): Promise<CatalogListing<Record<ProgramSlug, ProgramResourcesGrouped>>> {
+  if (!slugs.length) return { items: {} as Record<ProgramSlug, ProgramResourcesGrouped>, failures: [] };
   try {
-    const [forms, protocols, resources, training] = await Promise.all([
-      catalogProgramCategory(slug, 'forms'),
-      catalogProgramCategory(slug, 'protocols'),
-      catalogProgramCategory(slug, 'resources'),
-      catalogProgramCategory(slug, 'training'),
-    ]);
-    return { forms, protocols, resources, training };
+    const items = await listCatalogByPrefixes(slugs.map((slug) => `${slug}/`));
+    return { items: groupProgramFiles(slugs, items), failures: [] };
   } catch {
-    return listAllForProgram(slug);
+    const listed = await Promise.all(slugs.map((slug) => listAllForProgram(slug)));
+    const out = {} as Record<ProgramSlug, ProgramResourcesGrouped>;
+    slugs.forEach((slug, i) => {
+      const { forms, protocols, resources, training } = listed[i];
+      out[slug] = { forms, protocols, resources, training };
+    });
+    const failures = listed.flatMap((l) => l.failures);
+    const hasItems = listed.some((l) => l.forms.length + l.protocols.length + l.resources.length + l.training.length > 0);
+    return fromStorageListing(out, failures, hasItems);
   }
 }
 
+/**
+ * Get all resources for a program, grouped.
+ * - Prefers DB catalog; falls back to storage listing.
+ */
+export async function getProgramResourcesGrouped(slug: ProgramSlug): Promise<CatalogListing<ProgramResourcesGrouped>> {
+  const { items, failures } = await getProgramsResourcesGrouped([slug]);
+  return { items: items[slug], failures };
+}
+
+/** Pages shown per document in content search */
+const MAX_PAGES_PER_DOCUMENT = 3;
+
+/** A document whose text matches a content search, with its best pages */
+export interface DocumentMatch {
+  path: string;
+  /** Filename without extension */
+  title: string;
+  pages: Array<Omit<ContentMatch, 'path'>>;
+}
+
+/**
+ * Search inside documents (extracted PDF/DOCX text) across the global library and the given programs.
+ * - Page hits are grouped per document, best documents first.
+ */
+export async function searchDocuments(query: string, programs: readonly ProgramSlug[]): Promise<DocumentMatch[]> {
+  const prefixes = [...Object.values(GLOBAL_PREFIXES), ...programs.map((slug) => `${slug}/`)];
+  const matches = await getDataSource().searchContent(query, { prefixes, limit: 100 });
+
+  const documents = new Map<string, DocumentMatch>();
+  for (const { path, ...page } of matches) {
+    let doc = documents.get(path);
+    if (!doc) {
+      doc = { path, title: stripOneExtension(path.split('/').pop() || path), pages: [] };
+      documents.set(path, doc);
+    }
+    if (doc.pages.length < MAX_PAGES_PER_DOCUMENT) doc.pages.push(page);
+  }
+  return Array.from(documents.values());
+}
+
 /**
  * Program list items for the Programs page.
  * - Purpose: Provide a friendly list of available programs with stable slugs used by ProgramDetail.
@@ -278,6 +284,40 @@ const ProgramMeta: Record<
   },
 };
 
+/**
+ * Friendly program name for a slug (falls back to the slug itself).
+ */
+export function getProgramName(slug: string): string {
+  return ProgramMeta[slug as ProgramSlug]?.name ?? slug;
+}
+
+/** Display names of the program sub-folders (as on the program tabs) */
+export const ProgramCategoryLabels: Record<ProgramCategory, string> = {
+  training: 'Training Modules',
+  protocols: 'Protocol Manuals',
+  forms: 'Documentation Forms',
+  resources: 'Additional Resources',
+};
+
+/** Display names of the global library folders */
+const GlobalFolderLabels: Record<string, string> = {
+  patienthandouts: 'Patient Handouts',
+  clinicalguidelines: 'Clinical Guidelines',
+  medicalbilling: 'Medical Billing',
+};
+
+/**
+ * Friendly name for a well-known folder ("hba1c" → program name, "hba1c/forms" → "Documentation Forms").
+ * - Returns undefined for other folders (e.g., condition folders inside handouts).
+ */
+export function getFolderLabel(path: string): string | undefined {
+  const [top, sub, ...rest] = path.toLowerCase().split('/').filter(Boolean);
+  if (!top || rest.length) return undefined;
+  const isProgram = (ProgramSlugs as readonly string[]).includes(top);
+  if (!sub) return GlobalFolderLabels[top] ?? (isProgram ? getProgramName(top) : undefined);
+  return isProgram ? ProgramCategoryLabels[sub as ProgramCategory] : undefined;
+}
+
 /**
  * List available programs.
  * - Returns friendly name + description with correct slug used by ProgramDetail and Storage.
@@ -1,161 +1,52 @@
 /**
- * Supabase data service via REST (no SDK)
- * - Provides typed helpers for Programs, Program Detail, Resource Library, etc.
- * - Keeps exports compatible with existing pages (programService, resourceLibraryService, authService stubs).
+ * Supabase data services
+ * - Provides typed helpers for Programs, Program Detail, Resource Library, auth/profile, bookmarks
+ *   and activity, all through the shared data layer (lib/supabase).
+ * - Content reads (programs, library tables) go through the configured data source (lib/dataSource), so
+ *   they also work against the offline fixtures.
+ * - Keeps exports compatible with existing pages (programService, resourceLibraryService).
+ * - Entity types are the table rows from lib/database.types.
  *
  * IMPORTANT:
- * - Requires VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to be set, OR a localStorage override.
- * - RLS must allow read access with the anon key for relevant tables.
+ * - RLS must allow signed-in members to read the content tables.
  */
 
-import { getSupabaseAnonKey, getSupabaseUrl } from '../config/supabaseConfig';
+import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
+import { getDataSource } from '../lib/dataSource';
+import { AuthExpiredError } from '../lib/errors';
+import { fromTable, getSupabaseClient, read, readList, unwrap, type TableRow, type TableUpdate } from '../lib/supabase';
 
 /** Program entity */
-export interface Program {
-  id: string;
-  slug: string;
-  name: string;
-  description?: string;
-  overview?: string;
-  experience_level?: string;
-  created_at: string;
-  updated_at: string;
-}
-
+export type Program = TableRow<'programs'>;
 /** Training module entity */
-export interface TrainingModule {
-  id: string;
-  program_id: string;
-  name: string;
-  length?: string;
-  link?: string;
-  file_path?: string;
-  sort_order: number;
-  created_at: string;
-  updated_at: string;
-}
-
+export type TrainingModule = TableRow<'training_modules'>;
 /** Protocol manual entity */
-export interface ProtocolManual {
-  id: string;
-  program_id: string;
-  name: string;
-  file_path?: string;
-  link?: string;
-  created_at: string;
-  updated_at: string;
-}
-
+export type ProtocolManual = TableRow<'protocol_manuals'>;
 /** Documentation form entity */
-export interface DocumentationForm {
-  id: string;
-  program_id: string;
-  name: string;
-  category?: string;
-  file_path?: string;
-  link?: string;
-  created_at: string;
-  updated_at: string;
-}
-
+export type DocumentationForm = TableRow<'documentation_forms'>;
 /** Additional resource entity */
-export interface AdditionalResource {
-  id: string;
-  program_id: string;
-  name: string;
-  file_path?: string;
-  link?: string;
-  created_at: string;
-  updated_at: string;
-}
+export type AdditionalResource = TableRow<'additional_resources'>;
 
 /** Resource library entities */
-export interface PatientHandout {
-  id: string;
-  name: string;
-  file_path?: string;
-  created_at: string;
-  updated_at: string;
-}
-export interface ClinicalGuideline {
-  id: string;
-  name: string;
-  file_path?: string;
-  link?: string;
-  created_at: string;
-  updated_at: string;
-}
-export interface MedicalBillingResource {
-  id: string;
-  name: string;
-  file_path?: string;
-  created_at: string;
-  updated_at: string;
-}
-
-/** Profile/auth-related entities (stub for now) */
-export interface Profile {
-  id: string;
-  email: string;
-  first_name?: string;
-  last_name?: string;
-  pharmacy_name?: string;
-  subscription_status?: string;
-  created_at: string;
-  updated_at: string;
-}
-export interface Bookmark {
-  id: string;
-  user_id: string;
-  resource_type: string;
-  resource_id: string;
-  created_at: string;
-}
-export interface RecentActivity {
-  id: string;
-  user_id: string;
-  resource_name: string;
-  resource_type: string;
-  accessed_at: string;
-}
+export type PatientHandout = TableRow<'patient_handouts'>;
+export type ClinicalGuideline = TableRow<'clinical_guidelines'>;
+export type MedicalBillingResource = TableRow<'medical_billing_resources'>;
 
+/** Profile/auth-related entities */
+export type Profile = TableRow<'profiles'>;
 /**
- * Internal fetch helper with auth headers for Supabase REST.
- * - Uses centralized config helpers with env/localStorage/fallback support.
+ * Subscription row (programs lists à la carte add-ons).
+ * - Individual plans are keyed by user_id; team plans by organization_id and shared by all members.
  */
-async function sbFetch<T>(endpoint: string, init: RequestInit = {}): Promise<T> {
-  const base = getSupabaseUrl();
-  const anon = getSupabaseAnonKey();
-
-  if (!base) {
-    throw new Error('Supabase URL is not configured. Set VITE_SUPABASE_URL or localStorage SUPABASE_URL.');
-  }
-
-  const url = `${base}/rest/v1${endpoint}`;
-  const headers: HeadersInit = {
-    Authorization: `Bearer ${anon}`,
-    apikey: anon,
-    'Content-Type': 'application/json',
-    ...(init.headers || {}),
-  };
-
-  const res = await fetch(url, { ...init, headers });
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(text || `Supabase error: ${res.status}`);
-  }
-  // Some Supabase endpoints return no body (204)
-  if (res.status === 204) return undefined as unknown as T;
-  return (await res.json()) as T;
-}
+export type SubscriptionRow = TableRow<'subscriptions'>;
+export type Bookmark = TableRow<'bookmarks'>;
+export type RecentActivity = TableRow<'recent_activity'>;
 
 /**
  * Storage helper to construct public URLs (for public buckets only).
  */
 export function getStorageUrl(bucket: string, path: string): string {
-  const base = getSupabaseUrl();
-  if (!base) return '';
-  return `${base}/storage/v1/object/public/${bucket}/${path}`;
+  return getSupabaseClient().storage.from(bucket).getPublicUrl(path).data.publicUrl;
 }
 
 /**
@@ -164,13 +55,13 @@ export function getStorageUrl(bucket: string, path: string): string {
 export const programService = {
   /** Get all programs ordered by name */
   async getAll(): Promise<Program[]> {
-    return sbFetch<Program[]>('/programs?select=*&order=name.asc');
+    return getDataSource().selectRows('programs', { orderBy: 'name' });
   },
 
   /** Get program by slug */
   async getBySlug(slug: string): Promise<Program | null> {
-    const rows = await sbFetch<Program[]>(`/programs?slug=eq.${encodeURIComponent(slug)}&limit=1`);
-    return rows?.[0] || null;
+    const [program] = await getDataSource().selectRows('programs', { eq: { slug }, limit: 1 });
+    return program ?? null;
   },
 
   /** Get program with all related rows */
@@ -184,19 +75,12 @@ export const programService = {
     const program = await this.getBySlug(slug);
     if (!program) return null;
 
+    const source = getDataSource();
     const [modules, manuals, forms, resources] = await Promise.all([
-      sbFetch<TrainingModule[]>(
-        `/training_modules?program_id=eq.${encodeURIComponent(program.id)}&order=sort_order.asc`
-      ),
-      sbFetch<ProtocolManual[]>(
-        `/protocol_manuals?program_id=eq.${encodeURIComponent(program.id)}`
-      ),
-      sbFetch<DocumentationForm[]>(
-        `/documentation_forms?program_id=eq.${encodeURIComponent(program.id)}`
-      ),
-      sbFetch<AdditionalResource[]>(
-        `/additional_resources?program_id=eq.${encodeURIComponent(program.id)}`
-      ),
+      source.selectRows('training_modules', { eq: { program_id: program.id }, orderBy: 'sort_order' }),
+      source.selectRows('protocol_manuals', { eq: { program_id: program.id } }),
+      source.selectRows('documentation_forms', { eq: { program_id: program.id } }),
+      source.selectRows('additional_resources', { eq: { program_id: program.id } }),
     ]);
 
     return { program, modules, manuals, forms, resources };
@@ -209,17 +93,17 @@ export const programService = {
 export const resourceLibraryService = {
   /** Get patient handouts */
   async getPatientHandouts(): Promise<PatientHandout[]> {
-    return sbFetch<PatientHandout[]>('/patient_handouts?select=*&order=name.asc');
+    return getDataSource().selectRows('patient_handouts', { orderBy: 'name' });
   },
 
   /** Get clinical guidelines */
   async getClinicalGuidelines(): Promise<ClinicalGuideline[]> {
-    return sbFetch<ClinicalGuideline[]>('/clinical_guidelines?select=*&order=name.asc');
+    return getDataSource().selectRows('clinical_guidelines', { orderBy: 'name' });
   },
 
   /** Get medical billing resources */
   async getMedicalBillingResources(): Promise<MedicalBillingResource[]> {
-    return sbFetch<MedicalBillingResource[]>('/medical_billing_resources?select=*&order=name.asc');
+    return getDataSource().selectRows('medical_billing_resources', { orderBy: 'name' });
   },
 
   /** Merge all resources with category label (optional filter) */
@@ -227,7 +111,7 @@ export const resourceLibraryService = {
     Array<{
       id: string;
       name: string;
-      file_path?: string;
+      file_path: string | null;
       category: 'handouts' | 'clinical' | 'billing';
     }>
   > {
@@ -246,76 +130,191 @@ export const resourceLibraryService = {
 };
 
 /**
- * Auth/profile/bookmark/activity stubs (no SDK). We'll wire real auth next.
+ * Auth/profile services (Supabase Auth via the shared SDK client).
+ * - Sessions are persisted and refreshed by the client configured in getSupabaseClient().
+ * - Profile rows live in "profiles" (id = auth.users.id); RLS must allow a user to read/update their own row.
  */
 export const authService = {
-  /** Return a temporary mock profile so ProtectedRoute can pass during development */
+  /** Load the profile row for the signed-in user (null when signed out or no row exists) */
   async getCurrentProfile(): Promise<Profile | null> {
-    // TODO: Implement real GoTrue endpoints (auth/v1) for full auth
-    return {
-      id: 'mock-user',
-      email: 'member@example.com',
-      first_name: 'Clinical',
-      last_name: 'Member',
-      pharmacy_name: 'Demo Pharmacy',
-      subscription_status: 'Active',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+    const session = await this.getSession();
+    if (!session) return null;
+    return read(() => fromTable('profiles').select('*').eq('id', session.user.id).maybeSingle());
   },
 
-  /** No-op update (mock) */
-  async updateProfile(updates: Partial<Profile>): Promise<Profile> {
-    const current = await this.getCurrentProfile();
-    return { ...current!, ...updates };
+  /**
+   * Load the most recent subscription row for the signed-in user.
+   * @param organizationId team the user belongs to (team plans cover every member)
+   */
+  async getCurrentSubscription(organizationId?: string): Promise<SubscriptionRow | null> {
+    const session = await this.getSession();
+    if (!session) return null;
+
+    const owner = organizationId
+      ? `user_id.eq.${session.user.id},organization_id.eq.${organizationId}`
+      : `user_id.eq.${session.user.id}`;
+    return read(() =>
+      fromTable('subscriptions').select('*').or(owner).order('end_date', { ascending: false }).limit(1).maybeSingle()
+    );
   },
 
-  /** Mock sign-up */
-  async signUp(email: string, _password: string, _metadata: Record<string, any>) {
-    return { user: { id: 'mock-user' }, session: null };
+  /** Update the signed-in user's profile row */
+  async updateProfile(updates: TableUpdate<'profiles'>): Promise<Profile> {
+    const session = await this.getSession();
+    if (!session) throw new AuthExpiredError('Not signed in.');
+
+    const profile = await unwrap(
+      fromTable('profiles')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', session.user.id)
+        .select('*')
+        .single()
+    );
+    if (!profile) throw new Error('Profile not found.');
+    return profile;
+  },
+
+  /**
+   * Create an account; metadata is stored on the auth user (raw_user_meta_data).
+   * - With email confirmation enabled the returned session is null until the link is clicked.
+   * @param redirectTo where the verification link lands (must be in the project's redirect allow-list)
+   */
+  async signUp(email: string, password: string, metadata: Record<string, unknown>, redirectTo?: string) {
+    const { data, error } = await getSupabaseClient().auth.signUp({
+      email,
+      password,
+      options: { data: metadata, emailRedirectTo: redirectTo },
+    });
+    if (error) throw error;
+    return data;
+  },
+
+  /** Re-send the sign-up verification email */
+  async resendVerification(email: string, redirectTo?: string) {
+    const { error } = await getSupabaseClient().auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: redirectTo },
+    });
+    if (error) throw error;
+  },
+
+  /** Password sign-in; throws AuthError on failure */
+  async signIn(email: string, password: string) {
+    const { data, error } = await getSupabaseClient().auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Email a password reset link.
+   * - The link signs the user in with a recovery session (picked up via detectSessionInUrl).
+   */
+  async requestPasswordReset(email: string, redirectTo: string) {
+    const { error } = await getSupabaseClient().auth.resetPasswordForEmail(email, { redirectTo });
+    if (error) throw error;
   },
 
-  /** Mock sign-in */
-  async signIn(email: string, _password: string) {
-    return { user: { id: 'mock-user' }, session: null };
+  /** Set a new password for the signed-in (or recovery-session) user */
+  async updatePassword(password: string) {
+    const { data, error } = await getSupabaseClient().auth.updateUser({ password });
+    if (error) throw error;
+    return data.user;
   },
 
-  /** Mock sign-out */
+  /**
+   * Email a passwordless sign-in link (existing accounts only).
+   */
+  async sendMagicLink(email: string, redirectTo: string) {
+    const { error } = await getSupabaseClient().auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo, shouldCreateUser: false },
+    });
+    if (error) throw error;
+  },
+
+  /** Sign out and clear the persisted session */
   async signOut() {
-    // no-op
+    const { error } = await getSupabaseClient().auth.signOut();
+    if (error) throw error;
+  },
+
+  /** Current session from storage (refreshed by the client when near expiry) */
+  async getSession(): Promise<Session | null> {
+    const { data, error } = await getSupabaseClient().auth.getSession();
+    if (error) throw error;
+    return data.session;
   },
 
-  /** Mock session getter */
-  async getSession() {
-    return null;
+  /**
+   * Subscribe to auth state changes (sign-in, sign-out, token refresh).
+   * @returns unsubscribe function
+   */
+  onAuthStateChange(callback: (event: AuthChangeEvent, session: Session | null) => void): () => void {
+    const { data } = getSupabaseClient().auth.onAuthStateChange(callback);
+    return () => data.subscription.unsubscribe();
   },
 };
 
-/** Bookmark services (stubs) */
+/**
+ * Current user id (throws when signed out).
+ */
+async function requireUserId(): Promise<string> {
+  const session = await authService.getSession();
+  if (!session) throw new AuthExpiredError('Not signed in.');
+  return session.user.id;
+}
+
+/** Bookmark services ("bookmarks" rows owned by the signed-in user) */
 export const bookmarkService = {
   async getUserBookmarks(): Promise<Bookmark[]> {
-    return [];
+    const userId = await requireUserId();
+    return readList(() =>
+      fromTable('bookmarks').select('*').eq('user_id', userId).order('created_at', { ascending: false })
+    );
   },
-  async addBookmark(resourceType: string, resourceId: string) {
-    return {
-      id: crypto.randomUUID(),
-      user_id: 'mock-user',
-      resource_type: resourceType,
-      resource_id: resourceId,
-      created_at: new Date().toISOString(),
-    } as Bookmark;
+  async addBookmark(resourceType: string, resourceId: string): Promise<Bookmark> {
+    const userId = await requireUserId();
+    const row = await unwrap(
+      fromTable('bookmarks')
+        .upsert(
+          { user_id: userId, resource_type: resourceType, resource_id: resourceId },
+          { onConflict: 'user_id,resource_type,resource_id' }
+        )
+        .select('*')
+        .single()
+    );
+    if (!row) throw new Error('Bookmark was not saved.');
+    return row;
   },
-  async removeBookmark(_resourceType: string, _resourceId: string) {
-    // no-op
+  async removeBookmark(resourceType: string, resourceId: string) {
+    const userId = await requireUserId();
+    await unwrap(
+      fromTable('bookmarks')
+        .delete()
+        .eq('user_id', userId)
+        .eq('resource_type', resourceType)
+        .eq('resource_id', resourceId)
+    );
   },
 };
 
-/** Activity services (stubs) */
+/** Activity services ("recent_activity" rows owned by the signed-in user) */
 export const activityService = {
-  async logActivity(_resourceName: string, _resourceType: string) {
-    // no-op
+  async logActivity(resourceName: string, resourceType: string) {
+    const userId = await requireUserId();
+    await unwrap(
+      fromTable('recent_activity').insert({ user_id: userId, resource_name: resourceName, resource_type: resourceType })
+    );
   },
-  async getRecentActivity(_limit = 10): Promise<RecentActivity[]> {
-    return [];
+  async getRecentActivity(limit = 10): Promise<RecentActivity[]> {
+    const userId = await requireUserId();
+    return readList(() =>
+      fromTable('recent_activity')
+        .select('*')
+        .eq('user_id', userId)
+        .order('accessed_at', { ascending: false })
+        .limit(limit)
+    );
   },
 };
@@ -1,31 +1,19 @@
 /**
- * Supabase Storage service (REST-based)
- * - Purpose: List and resolve public URLs for files in the single bucket "clinicalrxqfiles".
+ * Supabase Storage service
+ * - Purpose: List and resolve URLs for files in the single bucket "clinicalrxqfiles".
+ * - File links come from services/fileAccess: public URLs, or in-app links that sign on open when the
+ *   bucket is private.
+ * - Goes through the configured data source (lib/dataSource): the live bucket, or the offline fixtures.
  * - Honors your exact folder structure from file_list.md (no extra roots).
  * - Provides safe, flattened file items usable directly in UI (no objects rendered by mistake).
  */
 
-import { getSupabaseUrl, getSupabaseAnonKey } from '../config/supabaseConfig';
+import { getDataSource, type StorageObject } from '../lib/dataSource';
+import { STORAGE_BUCKET } from '../lib/supabase';
+import { fileHref } from './fileAccess';
 
 /** Fixed bucket name per user requirement (case-sensitive) */
-export const SUPABASE_BUCKET = 'clinicalrxqfiles';
-
-/** Minimal file object returned by REST list */
-interface SupaListObject {
-  name: string;
-  id?: string | null;
-  updated_at?: string;
-  created_at?: string;
-  last_accessed_at?: string;
-  // For files, metadata contains mimetype, size, etc. For folders, typically null/undefined.
-  metadata?: {
-    size?: number;
-    mimetype?: string;
-    cacheControl?: string;
-    lastModified?: string;
-    contentLength?: number;
-  } | null;
-}
+export const SUPABASE_BUCKET = STORAGE_BUCKET;
 
 /** UI-facing file item shape */
 export interface StorageFileItem {
@@ -33,7 +21,7 @@ export interface StorageFileItem {
   path: string;
   /** Filename only (no extension), preserving original name and casing except extension removed */
   title: string;
-  /** Direct public URL */
+  /** Link to the file (public URL, or the in-app /file route for a private bucket) */
   url: string;
   /** Raw filename including extension */
   filename: string;
@@ -41,6 +29,8 @@ export interface StorageFileItem {
   mimeType?: string;
   /** Optional size if known */
   size?: number;
+  /** Last modified (ISO) if known */
+  updatedAt?: string;
 }
 
 /**
@@ -53,136 +43,198 @@ export function stripOneExtension(filename: string): string {
 }
 
 /**
- * Build a public URL for a stored object.
+ * Build a public URL for a stored object (public bucket only; links should use buildFileUrl).
  */
 export function buildPublicUrl(path: string): string {
-  const base = getSupabaseUrl();
-  if (!base) return '';
   // Ensure no leading slashes in path
   const cleanPath = path.replace(/^\/+/, '');
-  return `${base}/storage/v1/object/public/${SUPABASE_BUCKET}/${encodeURI(cleanPath)}`;
+  return getDataSource().publicUrl(cleanPath);
 }
 
 /**
- * Low-level REST list call to Supabase Storage
- * - Non-recursive: returns direct contents under the given prefix.
+ * Build the link members use for a stored object (honors a private bucket).
  */
-export async function listPrefix(prefix: string, opts?: { limit?: number; offset?: number }): Promise<SupaListObject[]> {
-  const base = getSupabaseUrl();
-  const anon = getSupabaseAnonKey();
-  if (!base || !anon) {
-    throw new Error('Supabase is not configured. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.');
-  }
-  const url = `${base}/storage/v1/object/list/${encodeURIComponent(SUPABASE_BUCKET)}`;
-  const body = {
-    prefix: prefix.replace(/^\/+/, '').replace(/\/+$/, ''), // no leading/trailing slash
+export function buildFileUrl(path: string): string {
+  return fileHref(path);
+}
+
+/** Objects requested per Storage list call when paging */
+const LIST_PAGE_SIZE = 1000;
+/** Subfolders listed at the same time while walking a tree */
+const LIST_CONCURRENCY = 4;
+
+/** A folder that could not be listed during a walk */
+export interface StorageListFailure {
+  prefix: string;
+  message: string;
+}
+
+/**
+ * Result of a recursive listing.
+ * - failures lists subfolders that could not be read; items holds everything that could.
+ */
+export interface StorageListResult {
+  items: StorageFileItem[];
+  failures: StorageListFailure[];
+}
+
+/**
+ * Low-level Storage list call
+ * - Non-recursive: returns direct contents under the given prefix (one page).
+ */
+export async function listPrefix(prefix: string, opts?: { limit?: number; offset?: number }): Promise<StorageObject[]> {
+  return getDataSource().listStorage(prefix.replace(/^\/+/, '').replace(/\/+$/, ''), {
     limit: opts?.limit ?? 100,
     offset: opts?.offset ?? 0,
-    sortBy: { column: 'name', order: 'asc' as const },
-  };
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      apikey: anon,
-      Authorization: `Bearer ${anon}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
   });
+}
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`Supabase list failed (${res.status}): ${text || res.statusText}`);
-  }
-  const data = (await res.json()) as SupaListObject[] | { message: string };
-  if (!Array.isArray(data)) {
-    throw new Error('Unexpected Supabase list response.');
+/**
+ * Non-recursive listing of every object under a prefix, paging until a short page.
+ */
+export async function listPrefixAll(prefix: string): Promise<StorageObject[]> {
+  const rows: StorageObject[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const page = await listPrefix(prefix, { limit: LIST_PAGE_SIZE, offset });
+    rows.push(...page);
+    if (page.length < LIST_PAGE_SIZE) return rows;
   }
-  return data;
 }
 
 /**
  * Recursively list files under a prefix.
+ * - Every folder is paged through (listPrefixAll); subfolders are walked concurrently, at most
+ *   `concurrency` list requests at a time.
  * - Detects subfolders via metadata === null (heuristic used by Supabase list).
  * - Guards against infinite loops by tracking visited prefixes.
+ * - Throws if the prefix itself can't be listed; failed subfolders are reported in `failures`.
  */
-export async function listFilesDeep(prefix: string): Promise<StorageFileItem[]> {
+export async function listFilesDeep(
+  prefix: string,
+  opts?: { concurrency?: number }
+): Promise<StorageListResult> {
+  const concurrency = Math.max(1, opts?.concurrency ?? LIST_CONCURRENCY);
   const visited = new Set<string>();
-  const results: StorageFileItem[] = [];
-
-  async function walk(pfx: string) {
-    const key = pfx.replace(/\/+$/, '');
-    if (visited.has(key)) return;
-    visited.add(key);
+  const items: StorageFileItem[] = [];
+  const failures: StorageListFailure[] = [];
+  const queue: string[] = [];
 
-    const rows = await listPrefix(key);
+  /** List one folder: collect files, queue subfolders */
+  async function visit(key: string) {
+    const rows = await listPrefixAll(key);
     for (const row of rows) {
       const name = row.name;
+      const path = `${key}/${name}`;
       const isFolder = !row.metadata || typeof row.metadata?.size !== 'number';
       if (isFolder) {
-        // Descend into subfolder
-        await walk(`${key}/${name}`);
+        if (!visited.has(path)) {
+          visited.add(path);
+          queue.push(path);
+        }
       } else {
-        const path = `${key}/${name}`;
-        results.push({
+        items.push({
           path,
-          url: buildPublicUrl(path),
+          url: buildFileUrl(path),
           filename: name,
           title: stripOneExtension(name),
           mimeType: row.metadata?.mimetype || undefined,
           size: typeof row.metadata?.size === 'number' ? row.metadata?.size : undefined,
+          updatedAt: row.metadata?.lastModified || row.updated_at || undefined,
         });
       }
     }
   }
 
+  /** List a subfolder; a failure is recorded and the walk continues */
+  async function visitSafe(key: string) {
+    try {
+      await visit(key);
+    } catch (e: unknown) {
+      failures.push({ prefix: key, message: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
   const clean = prefix.replace(/^\/+/, '').replace(/\/+$/, '');
-  await walk(clean);
-  return results;
+  visited.add(clean);
+  await visit(clean);
+
+  // Pool: start queued folders whenever a slot frees up; done once nothing is queued or running
+  await new Promise<void>((resolve) => {
+    let running = 0;
+    const pump = () => {
+      while (running < concurrency && queue.length) {
+        running++;
+        void visitSafe(queue.shift() as string).finally(() => {
+          running--;
+          pump();
+        });
+      }
+      if (!running) resolve();
+    };
+    pump();
+  });
+
+  items.sort((a, b) => a.path.localeCompare(b.path));
+  return { items, failures };
+}
+
+/**
+ * Merge listing results (e.g., several folder casings or categories).
+ */
+function mergeResults(results: StorageListResult[]): StorageListResult {
+  return {
+    items: results.flatMap((r) => r.items),
+    failures: results.flatMap((r) => r.failures),
+  };
 }
 
 /**
  * Try multiple candidate folder casings for a program category (e.g., "forms" and "Forms").
+ * - A casing that doesn't exist lists as empty; real errors are reported in `failures`.
  */
-export async function listProgramCategory(programSlug: string, category: 'forms' | 'protocols' | 'resources' | 'training'): Promise<StorageFileItem[]> {
+export async function listProgramCategory(
+  programSlug: string,
+  category: 'forms' | 'protocols' | 'resources' | 'training'
+): Promise<StorageListResult> {
   const candidates = category === 'forms' ? ['forms', 'Forms'] : [category];
-  const out: StorageFileItem[] = [];
-  for (const c of candidates) {
-    try {
+  const results = await Promise.all(
+    candidates.map(async (c) => {
       const prefix = `${programSlug}/${c}`;
-      const items = await listFilesDeep(prefix);
-      out.push(...items);
-    } catch {
-      // Ignore missing prefixes; continue
-    }
-  }
-  return out;
+      try {
+        return await listFilesDeep(prefix);
+      } catch (e: unknown) {
+        return { items: [], failures: [{ prefix, message: e instanceof Error ? e.message : String(e) }] };
+      }
+    })
+  );
+  return mergeResults(results);
 }
 
 /**
  * Global categories (top-level, per your structure).
  */
-export async function listGlobalHandouts(): Promise<StorageFileItem[]> {
+export async function listGlobalHandouts(): Promise<StorageListResult> {
   return listFilesDeep('patienthandouts');
 }
 
-export async function listGlobalGuidelines(): Promise<StorageFileItem[]> {
+export async function listGlobalGuidelines(): Promise<StorageListResult> {
   return listFilesDeep('clinicalguidelines');
 }
 
-export async function listGlobalBilling(): Promise<StorageFileItem[]> {
+export async function listGlobalBilling(): Promise<StorageListResult> {
   return listFilesDeep('medicalbilling');
 }
 
 /**
  * List all resources for a given program across its 4 categories.
+ * - failures collects folders that could not be listed in any category.
  */
 export async function listAllForProgram(programSlug: string): Promise<{
   forms: StorageFileItem[];
   protocols: StorageFileItem[];
   resources: StorageFileItem[];
   training: StorageFileItem[];
+  failures: StorageListFailure[];
 }> {
   const [forms, protocols, resources, training] = await Promise.all([
     listProgramCategory(programSlug, 'forms'),
@@ -190,7 +242,13 @@ export async function listAllForProgram(programSlug: string): Promise<{
     listProgramCategory(programSlug, 'resources'),
     listProgramCategory(programSlug, 'training'),
   ]);
-  return { forms, protocols, resources, training };
+  return {
+    forms: forms.items,
+    protocols: protocols.items,
+    resources: resources.items,
+    training: training.items,
+    failures: mergeResults([forms, protocols, resources, training]).failures,
+  };
 }
 
 /**
@@ -0,0 +1,176 @@
+/**
+ * Pharmacy team service (Supabase SDK)
+ * - Purpose: Organization membership, staff invitations and seat accounting for pharmacy teams.
+ * - Tables: organizations, organization_members, organization_invitations.
+ * - Invitation emails go through a "send-team-invite" Edge Function (it needs the service role to call
+ *   auth.admin.inviteUserByEmail); acceptance calls an accept_team_invitation RPC.
+ * - Server side not in this repo: the Edge Function, the RPC and the tables' RLS policies (members read
+ *   their org, owners write it) are deployed separately, and nothing here enforces them. The backend must
+ *   check seats and roles itself.
+ * - Seats: active members plus pending invitations count against Subscription.seats. The client check only
+ *   gives an early, friendly error; it is not a limit.
+ */
+
+import { fromTable, getSupabaseClient, read, readList, unwrap, type TableRow } from '../lib/supabase';
+import type { Organization, OrgInvitation, OrgMember, OrgRole } from '../types';
+
+/** organizations row */
+type OrganizationRow = TableRow<'organizations'>;
+
+/** organization_members row */
+type OrganizationMemberRow = TableRow<'organization_members'>;
+
+/** organization_invitations row (the token never leaves the server) */
+type OrganizationInvitationRow = Omit<TableRow<'organization_invitations'>, 'token'>;
+
+/** Current user's membership */
+export interface Membership {
+  organization: Organization;
+  role: OrgRole;
+}
+
+/** Seat usage for the plan */
+export interface SeatUsage {
+  used: number;
+  limit: number;
+}
+
+function toOrganization(row: OrganizationRow): Organization {
+  return {
+    id: row.id,
+    name: row.name,
+    npi: row.npi ?? undefined,
+    ncpdp: row.ncpdp ?? undefined,
+    ownerId: row.owner_id,
+    requireMfa: Boolean(row.require_mfa),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function toMember(row: OrganizationMemberRow): OrgMember {
+  return {
+    userId: row.user_id,
+    email: row.email,
+    name: row.full_name || row.email,
+    role: row.role,
+    joinedAt: new Date(row.created_at),
+  };
+}
+
+function toInvitation(row: OrganizationInvitationRow): OrgInvitation {
+  const expired = row.status === 'pending' && new Date(row.expires_at).getTime() < Date.now();
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    status: expired ? 'expired' : row.status,
+    invitedAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at),
+  };
+}
+
+/**
+ * Team services
+ */
+export const teamService = {
+  /** Membership of the given user (null when they don't belong to an organization) */
+  async getMembership(userId: string): Promise<Membership | null> {
+    const data = await read(() =>
+      fromTable('organization_members')
+        .select('role, organization:organizations(*)')
+        .eq('user_id', userId)
+        .limit(1)
+        .maybeSingle()
+    );
+    // Embedded selects aren't inferred from the hand-maintained types; shape per the select above
+    const row = data as unknown as { role: OrgRole; organization: OrganizationRow | null } | null;
+    if (!row?.organization) return null;
+    return { organization: toOrganization(row.organization), role: row.role };
+  },
+
+  /** Members of an organization, owner first */
+  async listMembers(organizationId: string): Promise<OrgMember[]> {
+    const rows = await readList(() =>
+      fromTable('organization_members')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: true })
+    );
+    const members = rows.map(toMember);
+    return members.sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'));
+  },
+
+  /** Invitations for an organization (newest first) */
+  async listInvitations(organizationId: string): Promise<OrgInvitation[]> {
+    const rows = await readList(() =>
+      fromTable('organization_invitations')
+        .select('id, organization_id, email, role, status, created_at, expires_at')
+        .eq('organization_id', organizationId)
+        .in('status', ['pending', 'expired'])
+        .order('created_at', { ascending: false })
+    );
+    return rows.map(toInvitation);
+  },
+
+  /**
+   * Seats in use: members plus invitations that are still pending (not expired).
+   */
+  seatUsage(members: OrgMember[], invitations: OrgInvitation[], limit: number): SeatUsage {
+    const pending = invitations.filter((i) => i.status === 'pending').length;
+    return { used: members.length + pending, limit };
+  },
+
+  /**
+   * Invite a staff member by email.
+   * - Throws when no seat is free or the email is already on the team.
+   */
+  async inviteMember(
+    organizationId: string,
+    email: string,
+    role: Exclude<OrgRole, 'owner'>,
+    seats: SeatUsage
+  ): Promise<void> {
+    if (seats.used >= seats.limit) {
+      throw new Error(`All ${seats.limit} seats on your plan are in use. Remove a member or upgrade for more seats.`);
+    }
+    const { error } = await getSupabaseClient().functions.invoke('send-team-invite', {
+      body: {
+        organizationId,
+        email: email.trim().toLowerCase(),
+        role,
+        redirectTo: `${window.location.origin}/accept-invite`,
+      },
+    });
+    if (error) throw new Error(error.message || 'Could not send the invitation.');
+  },
+
+  /** Revoke a pending invitation (frees its seat) */
+  async revokeInvitation(invitationId: string): Promise<void> {
+    await unwrap(fromTable('organization_invitations').update({ status: 'revoked' }).eq('id', invitationId));
+  },
+
+  /** Change a staff member's role */
+  async updateMemberRole(organizationId: string, userId: string, role: Exclude<OrgRole, 'owner'>): Promise<void> {
+    await unwrap(
+      fromTable('organization_members').update({ role }).eq('organization_id', organizationId).eq('user_id', userId)
+    );
+  },
+
+  /** Remove a staff member (their account stays, access to the team's plan ends) */
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    await unwrap(
+      fromTable('organization_members').delete().eq('organization_id', organizationId).eq('user_id', userId)
+    );
+  },
+
+  /**
+   * Accept an invitation for the signed-in user.
+   * - accept_team_invitation (deployed outside this repo) has to check the token, its expiry and free seats.
+   * @returns the organization id joined
+   */
+  async acceptInvitation(token: string): Promise<string> {
+    const organizationId = await unwrap(getSupabaseClient().rpc('accept_team_invitation', { invite_token: token }));
+    if (!organizationId) throw new Error('Invitation could not be accepted.');
+    return organizationId;
+  },
+};
@@ -0,0 +1,241 @@
+/**
+ * ZIP downloads of library files
+ * - Purpose: Save many files at once (a program's whole Forms folder, or a selection) as one ZIP built in the
+ *   browser. Entries keep their storage folders, relative to `root` (e.g. "forms/Flu/Intake.pdf").
+ * - Streaming: files are fetched one at a time and stored through fflate's Zip without recompressing (library
+ *   files are PDFs/videos, already compressed). Each file is received in full before its entry is added, so
+ *   a download that breaks off never leaves a truncated file in the archive. Where the browser can save to
+ *   disk (File System Access API) the archive is written as it is produced; otherwise it is collected in
+ *   memory and saved at the end.
+ * - URLs come from services/fileAccess, so private buckets work (each file is signed on demand).
+ * - A file that can't be fetched, or whose download breaks off, is left out and reported; the rest of the
+ *   archive is still saved.
+ */
+
+import { Zip, ZipPassThrough } from 'fflate';
+import { resolveFileUrl } from './fileAccess';
+
+/** A file to put in the archive */
+export interface ZipSource {
+  /** Storage path */
+  path: string;
+  /** Bytes, when known (progress) */
+  size?: number;
+  /** Last modified (ISO), stored as the entry date */
+  updatedAt?: string;
+}
+
+export interface ZipProgress {
+  /** Files finished (added or skipped) */
+  done: number;
+  total: number;
+  /** Bytes received so far */
+  bytes: number;
+  /** Sum of the known sizes (0 when none are known) */
+  totalBytes: number;
+  /** Path being fetched */
+  current: string | null;
+}
+
+export interface ZipResult {
+  /** False when the member dismissed the save dialog */
+  saved: boolean;
+  /** Paths that could not be fetched */
+  failed: string[];
+}
+
+interface DownloadZipOptions {
+  /** Archive file name, e.g. "HbA1c Testing - Forms.zip" */
+  filename: string;
+  /** Folder the entry names are relative to, e.g. "hba1c/" (default: full storage paths) */
+  root?: string;
+  onProgress?: (progress: ZipProgress) => void;
+  signal?: AbortSignal;
+}
+
+/** Where the archive bytes go */
+interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+/** File System Access API (Chromium); not in the DOM typings yet */
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+}) => Promise<{
+  createWritable: () => Promise<{
+    write: (data: Uint8Array) => Promise<void>;
+    close: () => Promise<void>;
+    abort: () => Promise<void>;
+  }>;
+}>;
+
+/**
+ * Sink writing straight to a file the member picks (null when the browser can't).
+ * - Must run first in the click handler: the picker needs the user gesture.
+ */
+async function openFileSink(filename: string): Promise<ZipSink | null> {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (!picker) return null;
+  const handle = await picker({
+    suggestedName: filename,
+    types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+  });
+  const writable = await handle.createWritable();
+  return {
+    write: (chunk) => writable.write(chunk),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+}
+
+/** Sink collecting the archive in memory, saved through a download link when closed */
+function memorySink(filename: string): ZipSink {
+  let chunks: Uint8Array[] = [];
+  return {
+    write: async (chunk) => {
+      chunks.push(chunk);
+    },
+    close: async () => {
+      // fflate emits chunks over plain ArrayBuffers
+      const url = URL.createObjectURL(new Blob(chunks as BlobPart[], { type: 'application/zip' }));
+      chunks = [];
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      // Give the browser time to start the download before freeing the blob
+      window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    },
+    abort: async () => {
+      chunks = [];
+    },
+  };
+}
+
+function isAbort(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError';
+}
+
+/**
+ * Entry name inside the archive (relative to root when the path is under it).
+ */
+function entryName(path: string, root?: string): string {
+  const clean = path.replace(/^\/+/, '');
+  if (!root) return clean;
+  const prefix = root.replace(/^\/+/, '').replace(/\/?$/, '/');
+  return clean.toLowerCase().startsWith(prefix.toLowerCase()) ? clean.slice(prefix.length) : clean;
+}
+
+/**
+ * Build a ZIP of library files and save it.
+ * - Rejects with an AbortError when `signal` aborts (nothing is saved).
+ */
+export async function downloadZip(files: readonly ZipSource[], opts: DownloadZipOptions): Promise<ZipResult> {
+  const { filename, root, onProgress, signal } = opts;
+
+  let sink: ZipSink;
+  try {
+    sink = (await openFileSink(filename)) ?? memorySink(filename);
+  } catch (e: unknown) {
+    // Save dialog dismissed
+    if (isAbort(e)) return { saved: false, failed: [] };
+    throw e;
+  }
+
+  const progress: ZipProgress = {
+    done: 0,
+    total: files.length,
+    bytes: 0,
+    totalBytes: files.reduce((sum, f) => sum + (f.size ?? 0), 0),
+    current: null,
+  };
+  const report = () => onProgress?.({ ...progress });
+
+  /** Writes are chained so chunks reach the sink in order; the first failure sticks */
+  let writing: Promise<void> = Promise.resolve();
+  let zipError: Error | null = null;
+  let finished!: () => void;
+  const ended = new Promise<void>((resolve) => (finished = resolve));
+  const zip = new Zip((err, chunk, final) => {
+    if (err) {
+      zipError = err;
+      finished();
+      return;
+    }
+    writing = writing.then(() => sink.write(chunk));
+    if (final) finished();
+  });
+
+  const failed: string[] = [];
+  try {
+    report();
+    for (const file of files) {
+      signal?.throwIfAborted();
+      progress.current = file.path;
+      report();
+
+      let response: Response;
+      try {
+        response = await fetch(await resolveFileUrl(file.path), { signal });
+        if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+      } catch (e: unknown) {
+        if (isAbort(e)) throw e;
+        failed.push(file.path);
+        // Count its size as handled so the bar still reaches the end
+        progress.bytes += file.size ?? 0;
+        progress.done++;
+        continue;
+      }
+
+      // Receive the whole file first; a connection dropped mid-file leaves it out of the archive
+      const chunks: Uint8Array[] = [];
+      const received = progress.bytes;
+      const reader = response.body.getReader();
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          chunks.push(value);
+          progress.bytes += value.byteLength;
+          report();
+        }
+      } catch (e: unknown) {
+        if (isAbort(e)) throw e;
+        failed.push(file.path);
+        progress.bytes = received + (file.size ?? 0);
+        progress.done++;
+        report();
+        continue;
+      }
+
+      const entry = new ZipPassThrough(entryName(file.path, root));
+      if (file.updatedAt && !Number.isNaN(Date.parse(file.updatedAt))) entry.mtime = new Date(file.updatedAt);
+      zip.add(entry);
+      chunks.forEach((chunk, i) => entry.push(chunk, i === chunks.length - 1));
+      if (!chunks.length) entry.push(new Uint8Array(0), true);
+      // Keep memory flat when writing to disk
+      await writing;
+      progress.done++;
+      report();
+    }
+
+    if (failed.length === files.length) throw new Error('None of the files could be downloaded.');
+    zip.end();
+    await ended;
+    if (zipError) throw zipError;
+    await writing;
+    await sink.close();
+    progress.current = null;
+    report();
+    return { saved: true, failed };
+  } catch (e: unknown) {
+    zip.terminate();
+    await sink.abort().catch(() => undefined);
+    throw e;
+  }
+}
@@ -1,66 +1,369 @@
 /**
  * Authentication state management store
- * - Fix: Align mock user with User type (name instead of firstName/lastName).
+ * - Backed by Supabase Auth sessions (persisted in localStorage by the shared client).
+ * - initialize() restores the session on load and subscribes to sign-in/sign-out/token refresh events.
+ * - The app User is composed from the auth user plus the optional "profiles", team membership and
+ *   "subscriptions" rows (team members share their organization's subscription).
+ * - Two-factor: a session with a verified TOTP factor stays behind the OTP challenge (mfa.challengePending)
+ *   until a code is verified; route guards send it back to Login. When the status can't be read the
+ *   session is held there too (fail closed) until a retry succeeds.
+ * - Fixture mode (config/dataSource): demo members from /fixtures sign in locally, with no Supabase session.
  */
 import { create } from 'zustand';
-import type { User } from '../types';
+import { isAuthApiError, type Session, type User as AuthUser } from '@supabase/supabase-js';
+import type { RegistrationData, Subscription, User } from '../types';
+import { authService, type Profile, type SubscriptionRow } from '../services/supabase';
+import { teamService, type Membership } from '../services/team';
+import { mfaService, type MfaStatus } from '../services/mfa';
+import { clearQueryCache } from '../lib/queryCache';
+import { clearFileUrls, setFileAccessCheck } from '../services/fileAccess';
+import { canOpenFile } from '../services/entitlements';
+import { isFixtureMode } from '../lib/dataSource';
+import { fixtureAuth } from '../lib/fixtureDataSource';
 
 interface AuthState {
   user: User | null;
+  session: Session | null;
   isAuthenticated: boolean;
+  /** True until the persisted session has been checked once */
+  isLoading: boolean;
+  /** True after arriving through a password reset link, until a new password is set */
+  passwordRecovery: boolean;
+  /** Two-factor state of the current session */
+  mfa: MfaStatus;
+  initialize: () => Promise<void>;
   login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
-  register: (userData: Partial<User>) => Promise<boolean>;
+  logout: () => Promise<void>;
+  /** Confirm the signed-in user's password (session lock re-prompt); false when it's wrong */
+  reauthenticate: (password: string) => Promise<boolean>;
+  /** Reload profile, membership and subscription (e.g., after joining a team) */
+  refreshUser: () => Promise<void>;
+  /** Create an account; needsVerification is true until the emailed link is followed */
+  register: (data: RegistrationData) => Promise<{ needsVerification: boolean }>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+  sendMagicLink: (email: string) => Promise<void>;
+  /** Pass the post-login OTP challenge; false when the code is wrong */
+  verifyMfa: (code: string) => Promise<boolean>;
+  /** Pass the challenge with a recovery code (2FA is reset and must be set up again) */
+  recoverMfa: (code: string) => Promise<void>;
+  /** Re-read two-factor state (after enrolling or removing a factor) */
+  refreshMfa: () => Promise<void>;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
-  user: null,
-  isAuthenticated: false,
+/** Two-factor state for a signed-out or unenrolled session */
+const NO_MFA: MfaStatus = { enrolled: false, challengePending: false };
 
+/** Two-factor state when it couldn't be read: treated as a pending challenge, never as "no 2FA" */
+const MFA_UNAVAILABLE: MfaStatus = { enrolled: false, challengePending: true, unavailable: true };
+
+/** Unsubscribe handle for the auth listener (initialize is idempotent) */
+let unsubscribeAuth: (() => void) | null = null;
+
+/**
+ * Read a string from auth user metadata.
+ */
+function metaString(authUser: AuthUser, key: string): string | undefined {
+  const v = authUser.user_metadata?.[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+}
+
+/**
+ * Map a subscriptions row to the app Subscription shape.
+ */
+function toSubscription(row: SubscriptionRow): Subscription {
+  return {
+    id: row.id,
+    planName: row.plan_name,
+    status: row.status,
+    startDate: new Date(row.start_date),
+    endDate: new Date(row.end_date),
+    programs: row.programs ?? [],
+    seats: typeof row.seats === 'number' ? row.seats : undefined,
+  };
+}
+
+/**
+ * Compose the app User from the auth user, profile and subscription rows (if any).
+ * - Role comes from app_metadata (server-controlled), never from user-editable metadata.
+ */
+function toAppUser(
+  authUser: AuthUser,
+  profile: Profile | null,
+  membership: Membership | null,
+  subscription: SubscriptionRow | null
+): User {
+  const firstName = profile?.first_name || metaString(authUser, 'first_name');
+  const lastName = profile?.last_name || metaString(authUser, 'last_name');
+  const fullName = `${firstName ?? ''} ${lastName ?? ''}`.trim();
+
+  return {
+    id: authUser.id,
+    email: authUser.email ?? profile?.email ?? '',
+    name: fullName || authUser.email || 'Member',
+    role: authUser.app_metadata?.role === 'admin' ? 'admin' : 'member',
+    organizationId: membership?.organization.id,
+    orgRole: membership?.role,
+    teamRequiresMfa: membership?.organization.requireMfa ?? false,
+    firstName,
+    lastName,
+    pharmacyName: membership?.organization.name || profile?.pharmacy_name || metaString(authUser, 'pharmacy_name'),
+    subscription: subscription ? toSubscription(subscription) : undefined,
+    createdAt: new Date(authUser.created_at),
+    lastSignInAt: authUser.last_sign_in_at ? new Date(authUser.last_sign_in_at) : undefined,
+  };
+}
+
+/**
+ * Run a loader without failing the session (missing row or RLS denial → null).
+ */
+async function loadSafe<T>(label: string, loader: () => Promise<T | null>): Promise<T | null> {
+  try {
+    return await loader();
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn(`${label} unavailable:`, e);
+    return null;
+  }
+}
+
+/**
+ * Read the session's two-factor state, failing closed.
+ */
+async function readMfa(): Promise<MfaStatus> {
+  return (await loadSafe('Two-factor status', () => mfaService.getStatus())) ?? MFA_UNAVAILABLE;
+}
+
+/**
+ * Drop cached catalog data and signed file URLs: they belong to the previous member's plan.
+ */
+async function forgetMemberData() {
+  clearFileUrls();
+  await clearQueryCache();
+}
+
+export const useAuthStore = create<AuthState>((set, get) => {
   /**
-   * User login function
+   * Apply a session to the store, reloading profile/subscription when the user changes.
    */
-  login: async (email: string, password: string) => {
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 800));
-
-    // Mock authentication logic - check for demo credentials
-    if (email === 'duanejones5@gmail.com' && password === 'Pharmacy1') {
-      const mockUser: User = {
-        id: '1',
-        email: 'duanejones5@gmail.com',
-        name: 'Duane',
-        role: 'member',
-        subscription: {
-          id: 'sub1',
-          planName: 'Premium',
-          status: 'active',
-          startDate: new Date(),
-          endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
-          programs: ['mtm-future-today', 'timemymeds', 'test-treat'],
+  async function applySession(session: Session | null, reloadProfile = false) {
+    if (!session) {
+      set({ user: null, session: null, isAuthenticated: false, mfa: NO_MFA });
+      // Also when the session ended on its own (expiry, sign-out in another tab) or was gone after a reload
+      await forgetMemberData();
+      return;
+    }
+    const mfa = await readMfa();
+    const current = get().user;
+    if (current && current.id === session.user.id && !reloadProfile) {
+      // Token refresh or MFA step-up: keep the composed user, swap in the new session
+      set({ session, isAuthenticated: true, mfa });
+      return;
+    }
+    const [profile, membership] = await Promise.all([
+      loadSafe('Profile', () => authService.getCurrentProfile()),
+      loadSafe('Team membership', () => teamService.getMembership(session.user.id)),
+    ]);
+    const subscription = await loadSafe('Subscription', () =>
+      authService.getCurrentSubscription(membership?.organization.id)
+    );
+    set({
+      user: toAppUser(session.user, profile, membership, subscription),
+      session,
+      isAuthenticated: true,
+      mfa,
+    });
+  }
+
+  return {
+    user: null,
+    session: null,
+    isAuthenticated: false,
+    isLoading: true,
+    passwordRecovery: false,
+    mfa: NO_MFA,
+
+    /**
+     * Restore the persisted session and listen for auth changes.
+     */
+    initialize: async () => {
+      if (unsubscribeAuth) return;
+
+      if (isFixtureMode()) {
+        unsubscribeAuth = () => undefined;
+        const user = await fixtureAuth.restore();
+        set({ user, session: null, isAuthenticated: Boolean(user), isLoading: false });
+        return;
+      }
+
+      unsubscribeAuth = authService.onAuthStateChange((event, session) => {
+        if (event === 'PASSWORD_RECOVERY') set({ passwordRecovery: true });
+        // Defer work out of the auth callback; awaiting Supabase calls inside it can deadlock.
+        setTimeout(() => {
+          void applySession(session, event === 'USER_UPDATED');
+        }, 0);
+      });
+
+      try {
+        const session = await authService.getSession();
+        await applySession(session);
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.error('Failed to restore session:', e);
+        set({ user: null, session: null, isAuthenticated: false, mfa: NO_MFA });
+      } finally {
+        set({ isLoading: false });
+      }
+    },
+
+    /**
+     * User login function
+     * - Returns false for rejected credentials; other failures (network) throw.
+     */
+    login: async (email: string, password: string) => {
+      if (isFixtureMode()) {
+        const user = await fixtureAuth.signIn(email, password);
+        // Switching members on a shared workstation (session lock): nothing of the previous one stays
+        if (user && get().user && get().user?.id !== user.id) await forgetMemberData();
+        if (user) set({ user, session: null, isAuthenticated: true, mfa: NO_MFA });
+        return Boolean(user);
+      }
+      try {
+        const { session } = await authService.signIn(email, password);
+        // Switching members on a shared workstation (session lock): nothing of the previous one stays
+        const previous = get().user;
+        if (session && previous && previous.id !== session.user.id) await forgetMemberData();
+        await applySession(session, true);
+        return Boolean(session);
+      } catch (e) {
+        if (isAuthApiError(e)) return false;
+        throw e;
+      }
+    },
+
+    /**
+     * User logout function
+     */
+    logout: async () => {
+      try {
+        if (isFixtureMode()) fixtureAuth.signOut();
+        else await authService.signOut();
+      } finally {
+        set({ user: null, session: null, isAuthenticated: false, passwordRecovery: false, mfa: NO_MFA });
+        // Cached catalog data belongs to this member's plan; don't leave it for the next one
+        void forgetMemberData();
+      }
+    },
+
+    /**
+     * Re-check the current user's password without changing who is signed in.
+     */
+    reauthenticate: async (password: string) => {
+      const email = get().user?.email || get().session?.user.email;
+      if (!email) return false;
+      if (isFixtureMode()) return (await fixtureAuth.signIn(email, password)) !== null;
+      try {
+        const { session } = await authService.signIn(email, password);
+        await applySession(session);
+        return Boolean(session);
+      } catch (e) {
+        if (isAuthApiError(e)) return false;
+        throw e;
+      }
+    },
+
+    /**
+     * Re-read profile, membership and subscription for the current session.
+     */
+    refreshUser: async () => {
+      // Fixture users are static; there's no session to reload from
+      if (isFixtureMode()) return;
+      await applySession(get().session, true);
+    },
+
+    /**
+     * User registration function
+     * - Pharmacist and pharmacy details travel as user metadata; the profile row is created
+     *   server-side from that metadata once the email is confirmed.
+     * - npi/ncpdp were only checked by the form (services/npiLookup); the server takes them as given.
+     */
+    register: async (data: RegistrationData) => {
+      const { session } = await authService.signUp(
+        data.email,
+        data.password,
+        {
+          first_name: data.firstName,
+          last_name: data.lastName,
+          phone: data.phone,
+          license_number: data.licenseNumber,
+          pharmacy_name: data.pharmacyName,
+          npi: data.npi,
+          ncpdp: data.ncpdp,
+          address: data.address,
+          city: data.city,
+          state: data.state,
+          zip: data.zip,
         },
-        createdAt: new Date(),
-      };
+        `${window.location.origin}/login`
+      );
+      if (session) await applySession(session, true);
+      return { needsVerification: !session };
+    },
+
+    /**
+     * Send a reset link that lands on /reset-password.
+     */
+    requestPasswordReset: async (email: string) => {
+      await authService.requestPasswordReset(email, `${window.location.origin}/reset-password`);
+    },
+
+    /**
+     * Set a new password (recovery session or signed-in user).
+     */
+    updatePassword: async (password: string) => {
+      await authService.updatePassword(password);
+      set({ passwordRecovery: false });
+    },
+
+    /**
+     * Send a passwordless sign-in link that lands on /dashboard.
+     */
+    sendMagicLink: async (email: string) => {
+      await authService.sendMagicLink(email, `${window.location.origin}/dashboard`);
+    },
 
-      set({ user: mockUser, isAuthenticated: true });
+    /**
+     * Verify an authenticator code for the pending challenge.
+     */
+    verifyMfa: async (code: string) => {
+      const factorId = await mfaService.getVerifiedFactorId();
+      if (!factorId) return false;
+      try {
+        await mfaService.verifyCode(factorId, code);
+      } catch (e) {
+        if (isAuthApiError(e)) return false;
+        throw e;
+      }
+      set({ mfa: await readMfa() });
       return true;
-    }
-    return false;
-  },
+    },
 
-  /**
-   * User logout function
-   */
-  logout: () => {
-    set({ user: null, isAuthenticated: false });
-  },
+    /**
+     * Use a one-time recovery code in place of the authenticator.
+     */
+    recoverMfa: async (code: string) => {
+      await mfaService.recoverWithCode(code);
+      set({ mfa: await readMfa() });
+    },
 
-  /**
-   * User registration function
-   */
-  register: async (_userData: Partial<User>) => {
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 800));
-    return true;
-  },
-}));
+    /**
+     * Re-read the session's two-factor state (also the retry when it couldn't be read).
+     */
+    refreshMfa: async () => {
+      set({ mfa: get().session ? await readMfa() : NO_MFA });
+    },
+  };
+});
+
+// Files are only signed for the programs the signed-in member is entitled to
+setFileAccessCheck((path) => canOpenFile(useAuthStore.getState().user, path));
@@ -0,0 +1,41 @@
+/**
+ * Catalog updates store (Zustand)
+ * - Purpose: Remember library files added or replaced while the app is open (pushed by
+ *   useCatalogLiveUpdates), so rows can carry a "New" highlight.
+ * - Kept in memory for the session; a file loses its highlight once the member opens it.
+ */
+
+import { create } from 'zustand';
+
+interface CatalogUpdatesState {
+  /** Storage path → when the change arrived (epoch ms) */
+  fresh: Record<string, number>;
+  /** Highlight paths that just changed */
+  markFresh: (paths: string[]) => void;
+  /** Drop the highlight (file opened or removed) */
+  dismiss: (path: string) => void;
+}
+
+export const useCatalogUpdatesStore = create<CatalogUpdatesState>((set, get) => ({
+  fresh: {},
+  markFresh: (paths: string[]) => {
+    if (!paths.length) return;
+    const now = Date.now();
+    const next = { ...get().fresh };
+    for (const path of paths) next[path] = now;
+    set({ fresh: next });
+  },
+  dismiss: (path: string) => {
+    if (!(path in get().fresh)) return;
+    const next = { ...get().fresh };
+    delete next[path];
+    set({ fresh: next });
+  },
+}));
+
+/**
+ * True while a file carries the "New" highlight.
+ */
+export function useIsFreshFile(path: string): boolean {
+  return useCatalogUpdatesStore((s) => path in s.fresh);
+}
@@ -0,0 +1,113 @@
+/**
+ * Session lock store (Zustand)
+ * - Purpose: Lock the member area on shared workstations without ending the Supabase session.
+ * - The lock is keyed to the user it was taken for and persisted in localStorage, so a page refresh
+ *   or another tab can't bypass it; signing in as someone else (switch user) naturally clears it.
+ * - Quick-unlock PINs are per user and per device, stored only as bcrypt hashes.
+ * - After MAX_PIN_ATTEMPTS wrong PINs the account password is required.
+ */
+
+import { create } from 'zustand';
+import bcrypt from 'bcryptjs';
+
+const LOCK_KEY = 'crxq_session_lock_v1';
+const PINS_KEY = 'crxq_lock_pins_v1';
+
+/** Wrong PIN entries allowed before falling back to the password */
+export const MAX_PIN_ATTEMPTS = 5;
+
+/** PIN format: 4–8 digits */
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+function loadLockedUserId(): string | null {
+  try {
+    return localStorage.getItem(LOCK_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveLockedUserId(userId: string | null) {
+  try {
+    if (userId) localStorage.setItem(LOCK_KEY, userId);
+    else localStorage.removeItem(LOCK_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+function loadPins(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(PINS_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function savePins(pins: Record<string, string>) {
+  try {
+    localStorage.setItem(PINS_KEY, JSON.stringify(pins));
+  } catch {
+    // ignore
+  }
+}
+
+interface LockState {
+  /** User the screen is locked for (null = unlocked) */
+  lockedUserId: string | null;
+  /** Failed PIN entries since the lock was taken */
+  pinAttempts: number;
+  lock: (userId: string) => void;
+  unlock: () => void;
+  hasPin: (userId: string) => boolean;
+  setPin: (userId: string, pin: string) => Promise<void>;
+  clearPin: (userId: string) => void;
+  /** Check a PIN; a correct PIN unlocks, a wrong one counts an attempt */
+  verifyPin: (userId: string, pin: string) => Promise<boolean>;
+}
+
+export const useLockStore = create<LockState>((set, get) => ({
+  lockedUserId: loadLockedUserId(),
+  pinAttempts: 0,
+
+  lock: (userId: string) => {
+    saveLockedUserId(userId);
+    set({ lockedUserId: userId, pinAttempts: 0 });
+  },
+
+  unlock: () => {
+    saveLockedUserId(null);
+    set({ lockedUserId: null, pinAttempts: 0 });
+  },
+
+  hasPin: (userId: string) => Boolean(loadPins()[userId]),
+
+  setPin: async (userId: string, pin: string) => {
+    if (!PIN_PATTERN.test(pin)) throw new Error('PIN must be 4 to 8 digits.');
+    const hash = await bcrypt.hash(pin, 10);
+    savePins({ ...loadPins(), [userId]: hash });
+  },
+
+  clearPin: (userId: string) => {
+    const pins = loadPins();
+    delete pins[userId];
+    savePins(pins);
+  },
+
+  verifyPin: async (userId: string, pin: string) => {
+    const hash = loadPins()[userId];
+    if (!hash || get().pinAttempts >= MAX_PIN_ATTEMPTS) return false;
+    const ok = await bcrypt.compare(pin, hash);
+    if (ok) get().unlock();
+    else set((s) => ({ pinAttempts: s.pinAttempts + 1 }));
+    return ok;
+  },
+}));
+
+// Keep tabs in sync: locking (or unlocking) in one tab applies to all of them
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key === LOCK_KEY) useLockStore.setState({ lockedUserId: e.newValue, pinAttempts: 0 });
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * File viewer store (Zustand)
+ * - Purpose: Which file the in-app viewer (components/viewer/FileViewer) shows, and the list it steps through
+ *   with Next/Previous (the rows of the page that opened it, in their current order).
+ * - Session memory only; nothing is persisted.
+ */
+
+import { create } from 'zustand';
+
+/** A file the viewer can show */
+export interface ViewerFile {
+  /** Storage path */
+  path: string;
+  /** Display name */
+  title: string;
+  mimeType?: string;
+  /** PDF page to open at */
+  page?: number | null;
+}
+
+interface ViewerState {
+  files: ViewerFile[];
+  /** Index of the open file, or -1 when the viewer is closed */
+  index: number;
+  /** Show files[index] (clamped) */
+  open: (files: ViewerFile[], index: number) => void;
+  close: () => void;
+  next: () => void;
+  prev: () => void;
+}
+
+export const useViewerStore = create<ViewerState>((set, get) => ({
+  files: [],
+  index: -1,
+  open: (files: ViewerFile[], index: number) => {
+    if (!files.length) return;
+    set({ files, index: Math.min(Math.max(index, 0), files.length - 1) });
+  },
+  close: () => set({ files: [], index: -1 }),
+  next: () => {
+    const { files, index } = get();
+    if (index >= 0 && index < files.length - 1) set({ index: index + 1 });
+  },
+  prev: () => {
+    const { index } = get();
+    if (index > 0) set({ index: index - 1 });
+  },
+}));
+
+/**
+ * Open a file in the viewer, stepping through the given list (the file is added when it's not in it).
+ */
+export function openInViewer(file: ViewerFile, list: readonly ViewerFile[] = [file]) {
+  const index = list.findIndex((f) => f.path === file.path);
+  const files = index >= 0 ? list.map((f, i) => (i === index ? file : f)) : [file];
+  useViewerStore.getState().open(files, Math.max(index, 0));
+}
@@ -7,8 +7,40 @@ export interface User {
   email: string;
   name: string;
   role: 'member' | 'admin';
+  /** Pharmacy organization the user belongs to (owner or invited staff) */
+  organizationId?: string;
+  /** Role inside the pharmacy organization */
+  orgRole?: OrgRole;
+  /** The user's pharmacy requires two-factor authentication for all members */
+  teamRequiresMfa?: boolean;
+  firstName?: string;
+  lastName?: string;
+  pharmacyName?: string;
   subscription?: Subscription;
   createdAt: Date;
+  lastSignInAt?: Date;
+}
+
+/**
+ * Self-service registration payload (pharmacist + pharmacy details)
+ */
+export interface RegistrationData {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  /** Pharmacist license number (state board) */
+  licenseNumber?: string;
+  phone?: string;
+  pharmacyName: string;
+  /** Pharmacy (type 2) NPI */
+  npi: string;
+  /** NCPDP Provider ID */
+  ncpdp?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
 }
 
 export interface Subscription {
@@ -18,6 +50,46 @@ export interface Subscription {
   startDate: Date;
   endDate: Date;
   programs: string[];
+  /** Team seats included in the plan (owner included) */
+  seats?: number;
+}
+
+/**
+ * Pharmacy team roles
+ * - owner: manages the team and billing
+ * - pharmacist / technician: staff seats invited by the owner
+ */
+export type OrgRole = 'owner' | 'pharmacist' | 'technician';
+
+/** Pharmacy organization (the subscribing entity) */
+export interface Organization {
+  id: string;
+  name: string;
+  npi?: string;
+  ncpdp?: string;
+  ownerId: string;
+  /** Owner-mandated two-factor authentication for every member */
+  requireMfa: boolean;
+  createdAt: Date;
+}
+
+/** Member of a pharmacy organization */
+export interface OrgMember {
+  userId: string;
+  email: string;
+  name: string;
+  role: OrgRole;
+  joinedAt: Date;
+}
+
+/** Pending or past invitation to a pharmacy organization */
+export interface OrgInvitation {
+  id: string;
+  email: string;
+  role: Exclude<OrgRole, 'owner'>;
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  invitedAt: Date;
+  expiresAt: Date;
 }
 
 export interface Program {
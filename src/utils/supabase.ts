@@ -1,10 +0,0 @@
-
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY;
-
-const supabase = createClient(supabaseUrl, supabaseKey);
-
-export default supabase
-        